@@ -0,0 +1,206 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint64, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
+import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {IERC20Metadata} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+
+import {IConfidentialToken} from "./IConfidentialToken.sol";
+
+/// @title Confidential Token
+/// @notice An ERC-7984 style confidential fungible token backed one-to-one by a wrapped ERC20
+/// @dev Balances and transfer amounts are encrypted. Wrapping is public, since the ERC20 transfer reveals the
+/// amount; unwrapping burns an encrypted amount and releases the underlying tokens once the decryption oracle has
+/// revealed it. Amounts carry at most 6 decimals; one confidential unit is worth `rate` underlying base units.
+/// Bundled for local testing and as the payout token of `PrivateTokenDistributor.withdrawConfidential`.
+contract ConfidentialToken is IConfidentialToken, SepoliaConfig {
+    /// @notice Maximum number of decimals carried by confidential amounts
+    uint8 public constant MAX_DECIMALS = 6;
+
+    string public name;
+    string public symbol;
+    uint8 public immutable decimals;
+
+    address public immutable underlying;
+    uint256 public immutable rate;
+
+    mapping(address => euint64) private _balances;
+    euint64 private _totalSupply;
+
+    // Holder => operator => timestamp until which the operator may move the holder's tokens
+    mapping(address => mapping(address => uint48)) private _operators;
+
+    // Decryption request ID => receiver of the unwrapped tokens
+    mapping(uint256 => address) private _unwrapRequests;
+
+    event OperatorSet(address indexed holder, address indexed operator, uint48 until);
+    event UnwrapRequested(address indexed receiver, uint256 indexed requestId, euint64 amount);
+    event UnwrapFinalized(address indexed receiver, uint256 indexed requestId, uint64 amount);
+
+    /// @param underlying_ The ERC20 to wrap
+    /// @param name_ The token name, e.g. "Confidential Mock Token"
+    /// @param symbol_ The token symbol, e.g. "cMTK"
+    constructor(address underlying_, string memory name_, string memory symbol_) {
+        uint8 underlyingDecimals = IERC20Metadata(underlying_).decimals();
+        underlying = underlying_;
+        name = name_;
+        symbol = symbol_;
+        decimals = underlyingDecimals > MAX_DECIMALS ? MAX_DECIMALS : underlyingDecimals;
+        rate = 10 ** (underlyingDecimals - decimals);
+    }
+
+    /// @notice Get the encrypted total supply
+    function confidentialTotalSupply() external view returns (euint64) {
+        return _totalSupply;
+    }
+
+    /// @notice Get the encrypted balance of an account, which only the account can decrypt
+    function confidentialBalanceOf(address account) external view returns (euint64) {
+        return _balances[account];
+    }
+
+    /// @notice Whether `spender` may move `holder`'s tokens, either because it is the holder or an operator
+    function isOperator(address holder, address spender) public view returns (bool) {
+        return holder == spender || block.timestamp <= _operators[holder][spender];
+    }
+
+    /// @notice Lets an operator move the caller's tokens until a timestamp; a past timestamp revokes it
+    /// @param operator The account to authorize
+    /// @param until The last timestamp at which the operator may act
+    function setOperator(address operator, uint48 until) external {
+        _operators[msg.sender][operator] = until;
+        emit OperatorSet(msg.sender, operator, until);
+    }
+
+    /// @inheritdoc IConfidentialToken
+    function confidentialTransfer(
+        address to,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof
+    ) external returns (euint64) {
+        return _transfer(msg.sender, to, FHE.fromExternal(encryptedAmount, inputProof));
+    }
+
+    /// @inheritdoc IConfidentialToken
+    function confidentialTransfer(address to, euint64 amount) external returns (euint64) {
+        require(FHE.isAllowed(amount, msg.sender), "Amount handle not allowed");
+        return _transfer(msg.sender, to, amount);
+    }
+
+    /// @notice Transfers an encrypted input on behalf of `from`; the caller must be one of its operators
+    function confidentialTransferFrom(
+        address from,
+        address to,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof
+    ) external returns (euint64) {
+        require(isOperator(from, msg.sender), "Caller is not an operator");
+        return _transfer(from, to, FHE.fromExternal(encryptedAmount, inputProof));
+    }
+
+    /// @notice Transfers an encrypted amount the caller may use on behalf of `from`
+    function confidentialTransferFrom(address from, address to, euint64 amount) external returns (euint64) {
+        require(isOperator(from, msg.sender), "Caller is not an operator");
+        require(FHE.isAllowed(amount, msg.sender), "Amount handle not allowed");
+        return _transfer(from, to, amount);
+    }
+
+    /// @inheritdoc IConfidentialToken
+    /// @dev Only whole confidential units are pulled; a remainder below `rate` stays with the caller
+    function wrap(address to, uint256 amount) external {
+        require(to != address(0), "Receiver cannot be zero address");
+        uint256 units = amount / rate;
+        require(units > 0, "Amount must be at least one unit");
+        require(IERC20(underlying).transferFrom(msg.sender, address(this), units * rate), "Transfer failed");
+        // The supply is backed by the wrapped tokens, so it fits in a euint64 as long as they do
+        require(IERC20(underlying).balanceOf(address(this)) / rate <= type(uint64).max, "Supply overflow");
+
+        _update(address(0), to, FHE.asEuint64(uint64(units)));
+    }
+
+    /// @notice Burns an encrypted input of `from` and sends the underlying tokens to `to` once decrypted
+    /// @dev An amount above the balance burns and releases nothing
+    function unwrap(address from, address to, externalEuint64 encryptedAmount, bytes calldata inputProof) external {
+        _unwrap(from, to, FHE.fromExternal(encryptedAmount, inputProof));
+    }
+
+    /// @notice Burns an encrypted amount the caller may use and sends the underlying tokens to `to` once decrypted
+    function unwrap(address from, address to, euint64 amount) external {
+        require(FHE.isAllowed(amount, msg.sender), "Amount handle not allowed");
+        _unwrap(from, to, amount);
+    }
+
+    function _unwrap(address from, address to, euint64 amount) private {
+        require(to != address(0), "Receiver cannot be zero address");
+        require(isOperator(from, msg.sender), "Caller is not an operator");
+
+        euint64 burned = _update(from, address(0), amount);
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(burned);
+        uint256 requestId = FHE.requestDecryption(cts, this.finalizeUnwrap.selector);
+        _unwrapRequests[requestId] = to;
+
+        emit UnwrapRequested(to, requestId, burned);
+    }
+
+    /// @notice Decryption oracle callback that releases the underlying tokens of an unwrap
+    /// @dev Anyone can call this, but `FHE.checkSignatures` rejects results not signed by the KMS
+    /// @param requestId The decryption request ID returned by `FHE.requestDecryption`
+    /// @param amount The decrypted burned amount, in confidential units
+    /// @param signatures KMS signatures over the decryption result
+    function finalizeUnwrap(uint256 requestId, uint64 amount, bytes[] memory signatures) external {
+        address to = _unwrapRequests[requestId];
+        require(to != address(0), "Unknown decryption request");
+        FHE.checkSignatures(requestId, signatures);
+        delete _unwrapRequests[requestId];
+
+        if (amount > 0) {
+            require(IERC20(underlying).transfer(to, amount * rate), "Transfer failed");
+        }
+        emit UnwrapFinalized(to, requestId, amount);
+    }
+
+    function _transfer(address from, address to, euint64 amount) private returns (euint64 transferred) {
+        require(to != address(0), "Receiver cannot be zero address");
+        transferred = _update(from, to, amount);
+    }
+
+    /// @dev Moves, mints (`from` is zero) or burns (`to` is zero) an encrypted amount. Moving or burning more than
+    /// the balance moves nothing. The caller, the sender and the receiver can decrypt the amount moved.
+    function _update(address from, address to, euint64 amount) private returns (euint64 transferred) {
+        if (from == address(0)) {
+            transferred = amount;
+            _totalSupply = FHE.add(_totalSupply, amount);
+            FHE.allowThis(_totalSupply);
+        } else {
+            euint64 balance = _balances[from];
+            if (!FHE.isInitialized(balance)) {
+                balance = FHE.asEuint64(0);
+            }
+            transferred = FHE.select(FHE.le(amount, balance), amount, FHE.asEuint64(0));
+            _setBalance(from, FHE.sub(balance, transferred));
+        }
+
+        if (to == address(0)) {
+            _totalSupply = FHE.sub(_totalSupply, transferred);
+            FHE.allowThis(_totalSupply);
+        } else {
+            _setBalance(to, FHE.add(_balances[to], transferred));
+            FHE.allow(transferred, to);
+        }
+
+        FHE.allowThis(transferred);
+        if (from != address(0)) {
+            FHE.allow(transferred, from);
+        }
+        FHE.allowTransient(transferred, msg.sender);
+        emit ConfidentialTransfer(from, to, transferred);
+    }
+
+    function _setBalance(address account, euint64 balance) private {
+        _balances[account] = balance;
+        FHE.allowThis(balance);
+        FHE.allow(balance, account);
+    }
+}
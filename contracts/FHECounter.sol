@@ -0,0 +1,58 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint32, externalEuint32, ebool} from "@fhevm/solidity/lib/FHE.sol";
+import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+
+/// @title FHE Counter
+/// @notice An encrypted counter per user, incremented and decremented with encrypted values
+/// @dev Each caller has their own counter; only that user (and this contract) can decrypt it. Decrementing below
+/// zero saturates at zero instead of wrapping around.
+contract FHECounter is SepoliaConfig {
+    address public owner;
+
+    mapping(address => euint32) private _counts;
+
+    event CounterReset(address indexed user);
+
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Only owner can call this");
+        _;
+    }
+
+    constructor() {
+        owner = msg.sender;
+    }
+
+    /// @notice Returns the caller's encrypted counter
+    /// @dev An uninitialized counter is the zero handle and decrypts as 0
+    function getCount() external view returns (euint32) {
+        return _counts[msg.sender];
+    }
+
+    /// @notice Adds an encrypted value to the caller's counter
+    function increment(externalEuint32 inputEuint32, bytes calldata inputProof) external {
+        euint32 value = FHE.fromExternal(inputEuint32, inputProof);
+        _setCount(msg.sender, FHE.add(_counts[msg.sender], value));
+    }
+
+    /// @notice Subtracts an encrypted value from the caller's counter, stopping at zero
+    function decrement(externalEuint32 inputEuint32, bytes calldata inputProof) external {
+        euint32 value = FHE.fromExternal(inputEuint32, inputProof);
+        euint32 count = _counts[msg.sender];
+        ebool covered = FHE.ge(count, value);
+        _setCount(msg.sender, FHE.select(covered, FHE.sub(count, value), FHE.asEuint32(0)));
+    }
+
+    /// @notice Resets a user's counter to an encrypted zero
+    function reset(address user) external onlyOwner {
+        _setCount(user, FHE.asEuint32(0));
+        emit CounterReset(user);
+    }
+
+    function _setCount(address user, euint32 count) private {
+        _counts[user] = count;
+        FHE.allowThis(count);
+        FHE.allow(count, user);
+    }
+}
@@ -0,0 +1,35 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {euint64, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
+
+/// @title Confidential Token
+/// @notice The part of an ERC-7984 confidential fungible token that wraps an ERC20 which the distributor relies on
+/// @dev Balances and transfer amounts are euint64 handles. A transfer the sender's balance does not cover moves
+/// zero instead of reverting, and every transfer returns the handle of the amount actually moved.
+interface IConfidentialToken {
+    event ConfidentialTransfer(address indexed from, address indexed to, euint64 indexed amount);
+
+    /// @notice The wrapped ERC20
+    function underlying() external view returns (address);
+
+    /// @notice Underlying base units per confidential unit
+    function rate() external view returns (uint256);
+
+    function confidentialBalanceOf(address account) external view returns (euint64);
+
+    /// @notice Transfers an encrypted amount the caller is allowed to use
+    /// @return transferred The amount actually transferred
+    function confidentialTransfer(address to, euint64 amount) external returns (euint64 transferred);
+
+    /// @notice Transfers an encrypted input
+    /// @return transferred The amount actually transferred
+    function confidentialTransfer(
+        address to,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof
+    ) external returns (euint64 transferred);
+
+    /// @notice Pulls `amount` underlying base units from the caller and credits their confidential value to `to`
+    function wrap(address to, uint256 amount) external;
+}
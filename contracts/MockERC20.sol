@@ -8,6 +8,8 @@ import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
  * @dev A simple ERC20 token for testing purposes
  */
 contract MockERC20 is ERC20 {
+    mapping(address => bool) public isFrozen;
+
     constructor(string memory name, string memory symbol) ERC20(name, symbol) {}
 
     /**
@@ -18,4 +20,18 @@ contract MockERC20 is ERC20 {
     function mint(address to, uint256 amount) public {
         _mint(to, amount);
     }
+
+    /**
+     * @dev Block or unblock transfers to an address, like a token with a blocklist (for testing)
+     * @param account The address to freeze or unfreeze
+     * @param frozen Whether transfers to the address revert
+     */
+    function setFrozen(address account, bool frozen) public {
+        isFrozen[account] = frozen;
+    }
+
+    function _update(address from, address to, uint256 value) internal override {
+        require(!isFrozen[to], "Recipient frozen");
+        super._update(from, to, value);
+    }
 }
@@ -1,208 +1,851 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, externalEuint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
-import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
-import { IERC20 } from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {FHE, euint64, externalEuint64, ebool} from "@fhevm/solidity/lib/FHE.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {IERC20Metadata} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+
+import {IConfidentialToken} from "./IConfidentialToken.sol";
+import {PrivateTokenDistributorBase} from "./PrivateTokenDistributorBase.sol";
+import {PrivateTokenDistributorExtension} from "./PrivateTokenDistributorExtension.sol";
 
 /// @title Private Token Distributor
 /// @notice A contract that allows confidential distribution of tokens to recipients
-/// @dev Uses FHE to keep distribution amounts private
-contract PrivateTokenDistributor is SepoliaConfig {
-    IERC20 public token;
-    address public owner;
-    
-    mapping(address => euint32) private _encryptedBalances;
-    
-    euint32 private _totalDistributed;
-    
-    event Deposit(address indexed from, uint256 amount);
-    event RecipientAdded(address indexed recipient);
-    
-    /// @notice Constructor sets the token address and owner
-    /// @param _tokenAddress The address of the ERC20 token to distribute
-    constructor(address _tokenAddress) {
-        token = IERC20(_tokenAddress);
+/// @dev Uses FHE to keep distribution amounts private. Every supported ERC20 runs its own confidential program:
+/// balances, totals, deposits and withdrawals are all keyed by token address. Encrypted amounts are euint64
+/// values expressed with `CONFIDENTIAL_DECIMALS` decimals; one encrypted unit is worth `rate[token]` base units.
+/// The owner manages roles: distributors allocate, treasurers deposit and recover their own deposits, pausers halt
+/// distributions and withdrawals during an incident. Distributors can also sign EIP-712 claim vouchers that
+/// recipients redeem themselves, so unclaimed allocations cost nothing. A distribution can be given an expiry
+/// after which the owner claws back what recipients have not withdrawn. Recipients can also withdraw into a
+/// confidential token that wraps the ERC20, so the amount is never decrypted. The owner can group allocations into
+/// numbered rounds with their own encrypted totals. Distributors can schedule allocations that anyone can execute
+/// once they are due, and recipients can sign withdrawal actions for a relayer to submit and pay the gas of.
+/// Deposits are recorded per depositor, and closing a distribution refunds the funds no recipient was allocated to
+/// them pro rata.
+/// Functions that do not fit in the 24 KiB contract size limit run in `PrivateTokenDistributorExtension`.
+contract PrivateTokenDistributor is PrivateTokenDistributorBase {
+    /// @notice Maximum number of decimals carried by encrypted amounts
+    uint8 public constant CONFIDENTIAL_DECIMALS = 6;
+
+    // Runs the functions that do not fit in this contract, on this contract's storage
+    address private immutable _extension;
+
+    bytes32 private constant REQUEST_WITHDRAWAL_TYPEHASH =
+        keccak256("RequestWithdrawal(address token,address recipient,uint64 amount,uint256 nonce,uint256 deadline)");
+    bytes32 private constant COMPLETE_WITHDRAWAL_TYPEHASH =
+        keccak256("CompleteWithdrawal(address recipient,uint256 withdrawalId,uint256 nonce,uint256 deadline)");
+    bytes32 private constant CANCEL_WITHDRAWAL_TYPEHASH =
+        keccak256("CancelWithdrawal(address recipient,uint256 withdrawalId,uint256 nonce,uint256 deadline)");
+
+    /// @notice Constructor sets the owner, grants it every role and optionally adds a first supported token
+    /// @param initialToken The address of a first ERC20 token to distribute, or the zero address
+    constructor(address initialToken) {
+        _extension = address(new PrivateTokenDistributorExtension());
         owner = msg.sender;
-        _totalDistributed = FHE.asEuint32(0);
+        _grantRole(DISTRIBUTOR_ROLE, msg.sender);
+        _grantRole(TREASURER_ROLE, msg.sender);
+        _grantRole(PAUSER_ROLE, msg.sender);
+        if (initialToken != address(0)) {
+            _addToken(initialToken);
+        }
+    }
+
+    /// @notice Get every account holding a role
+    /// @param role The role identifier
+    /// @return The role members
+    function getRoleMembers(bytes32 role) external view returns (address[] memory) {
+        return _roleMembers[role];
+    }
+
+    /// @notice Grants a role to an account
+    /// @param role The role identifier
+    /// @param account The account to grant the role to
+    function grantRole(bytes32 role, address account) external onlyOwner {
+        require(account != address(0), "Account cannot be zero address");
+        require(!hasRole(role, account), "Role already granted");
+        _grantRole(role, account);
     }
-    
-    /// @notice Modifier to restrict access to owner
-    modifier onlyOwner() {
-        require(msg.sender == owner, "Only owner can call this");
-        _;
+
+    /// @notice Revokes a role from an account
+    /// @param role The role identifier
+    /// @param account The account to revoke the role from
+    function revokeRole(bytes32 role, address account) external onlyOwner {
+        require(hasRole(role, account), "Role not granted");
+        _revokeRole(role, account);
     }
-    
+
+    function _revokeRole(bytes32 role, address account) private {
+        uint256 index = _roleMemberIndex[role][account];
+        // Move the last member into the freed slot
+        address[] storage members = _roleMembers[role];
+        address last = members[members.length - 1];
+        members[index - 1] = last;
+        _roleMemberIndex[role][last] = index;
+        members.pop();
+        delete _roleMemberIndex[role][account];
+
+        emit RoleRevoked(role, account);
+    }
+
+    function _grantRole(bytes32 role, address account) private {
+        _roleMembers[role].push(account);
+        _roleMemberIndex[role][account] = _roleMembers[role].length;
+        if (role == AUDITOR_ROLE) {
+            // Share the current totals, including those of past rounds; later totals are shared as they are computed
+            for (uint256 i = 0; i < _tokens.length; i++) {
+                FHE.allow(_totalDistributed[_tokens[i]], account);
+                _allowRoundTotals(_tokens[i], account);
+            }
+        }
+        emit RoleGranted(role, account);
+    }
+
+    /// @notice Lets auditors decrypt the balances of the given recipients, or stops sharing them
+    /// @dev Sharing starts with the current balance handles, so calling this again also shares them with auditors
+    /// granted since. Stopping only affects handles created afterwards; ACL grants cannot be taken back.
+    /// @param token The token the balances are denominated in
+    /// @param recipients The recipients whose balances to share
+    /// @param audited Whether auditors may decrypt the balances
+    function setBalanceAudited(address token, address[] calldata recipients, bool audited) external onlyOwner {
+        for (uint256 i = 0; i < recipients.length; i++) {
+            isBalanceAudited[token][recipients[i]] = audited;
+            euint64 balance = _encryptedBalances[token][recipients[i]];
+            if (audited && FHE.isInitialized(balance)) {
+                _allowAuditors(balance);
+            }
+            emit BalanceAuditSet(token, recipients[i], audited);
+        }
+    }
+
+    /// @notice Halts distributions and withdrawals
+    function pause() external onlyRole(PAUSER_ROLE) {
+        require(!paused, "Contract is paused");
+        paused = true;
+        emit Paused(msg.sender);
+    }
+
+    /// @notice Resumes distributions and withdrawals
+    function unpause() external onlyRole(PAUSER_ROLE) {
+        require(paused, "Contract is not paused");
+        paused = false;
+        emit Unpaused(msg.sender);
+    }
+
+    /// @notice Adds a token the distributor can run a confidential program in
+    /// @param token The ERC20 token address
+    function addToken(address token) external onlyOwner {
+        require(rate[token] == 0, "Token already supported");
+        _addToken(token);
+    }
+
+    /// @dev Registers a token, derives its conversion rate from its decimals and starts its encrypted total
+    function _addToken(address token) private {
+        uint8 decimals = IERC20Metadata(token).decimals();
+        rate[token] = decimals > CONFIDENTIAL_DECIMALS ? 10 ** (decimals - CONFIDENTIAL_DECIMALS) : 1;
+        _tokens.push(token);
+        _totalDistributed[token] = FHE.asEuint64(0);
+        _allowTotalDistributed(token);
+        withdrawalPolicy[token] = WithdrawalPolicy(DEFAULT_WITHDRAWAL_DELAY, 1, type(uint64).max);
+        emit TokenAdded(token, rate[token]);
+    }
+
+    /// @notice Get every supported token
+    /// @return The supported token addresses
+    function getTokens() external view returns (address[] memory) {
+        return _tokens;
+    }
+
+    /// @notice Get everyone who has deposited a token, including depositors who have since been refunded
+    function getDepositors(address token) external view returns (address[] memory) {
+        return _depositors[token];
+    }
+
     /// @notice Deposits tokens into the contract
-    /// @param amount The amount of tokens to deposit
-    function depositTokens(uint256 amount) external {
+    /// @dev Deposits are recorded per depositor, who get their share of the unallocated funds back when the
+    /// distribution is closed
+    /// @param token The token to deposit
+    /// @param amount The amount of tokens to deposit, in token base units
+    function depositTokens(address token, uint256 amount) external onlyRole(TREASURER_ROLE) onlySupportedToken(token) {
         require(amount > 0, "Amount must be greater than 0");
-        
+        require(!distributionClosed[token], "Distribution closed");
+
         // Transfer tokens from sender to contract
-        require(token.transferFrom(msg.sender, address(this), amount), "Transfer failed");
-        
-        emit Deposit(msg.sender, amount);
+        require(IERC20(token).transferFrom(msg.sender, address(this), amount), "Transfer failed");
+        totalDeposited[token] += amount;
+        _trackedBalance[token] += amount;
+        depositOf[token][msg.sender] += amount;
+        if (!_isDepositor[token][msg.sender]) {
+            _isDepositor[token][msg.sender] = true;
+            _depositors[token].push(msg.sender);
+        }
+
+        emit Deposit(token, msg.sender, amount);
     }
-    
+
     /// @notice Distributes tokens to a recipient with an encrypted amount
+    /// @param token The token to distribute
     /// @param recipient The address of the recipient
     /// @param encryptedAmount The encrypted amount to distribute
     /// @param amountProof Proof for the encrypted amount
     function distributeTokens(
-        address recipient, 
-        externalEuint32 encryptedAmount, 
+        address token,
+        address recipient,
+        externalEuint64 encryptedAmount,
         bytes calldata amountProof
-    ) external onlyOwner {
-        // Convert external encrypted value to internal
-        euint32 prevBalance = _encryptedBalances[recipient];
-        // If not initialized, set to zero
-        if (!FHE.isInitialized(prevBalance)) {
-            prevBalance = FHE.asEuint32(0);
-        }
-        euint32 eamount = FHE.fromExternal(encryptedAmount, amountProof);
-        // Update recipient's balance
-        _encryptedBalances[recipient] = FHE.add(prevBalance, eamount);
-        // Update total distributed
-        _totalDistributed = FHE.add(_totalDistributed, eamount);
-        // Allow contract and recipient to operate on the handle
-        FHE.allow(_encryptedBalances[recipient], address(this));
-        FHE.allow(_encryptedBalances[recipient], recipient);
-        emit RecipientAdded(recipient);
-    }
-    
+    ) external onlyRole(DISTRIBUTOR_ROLE) whenNotPaused onlySupportedToken(token) {
+        _credit(token, recipient, FHE.fromExternal(encryptedAmount, amountProof), msg.sender);
+        _allowTotalDistributed(token);
+    }
+
     /// @notice Batch distribute tokens to multiple recipients with encrypted amounts
+    /// @param token The token to distribute
     /// @param recipients Array of recipient addresses
     /// @param encryptedAmounts Array of encrypted amounts
     /// @param amountProofs Array of proofs for the encrypted amounts
     function batchDistributeTokens(
+        address token,
         address[] calldata recipients,
-        externalEuint32[] calldata encryptedAmounts,
+        externalEuint64[] calldata encryptedAmounts,
         bytes[] calldata amountProofs
-    ) external onlyOwner {
+    ) external onlyRole(DISTRIBUTOR_ROLE) whenNotPaused onlySupportedToken(token) {
         require(
-            recipients.length == encryptedAmounts.length && 
-            recipients.length == amountProofs.length,
+            recipients.length == encryptedAmounts.length && recipients.length == amountProofs.length,
             "Array lengths must match"
         );
-        
+
         for (uint256 i = 0; i < recipients.length; i++) {
-            // Convert external encrypted value to internal
-            euint32 prevBalance = _encryptedBalances[recipients[i]];
-            if (!FHE.isInitialized(prevBalance)) {
-                prevBalance = FHE.asEuint32(0);
-            }
-            euint32 eamount = FHE.fromExternal(encryptedAmounts[i], amountProofs[i]);
-            // Update recipient's balance
-            _encryptedBalances[recipients[i]] = FHE.add(prevBalance, eamount);
-            // Update total distributed
-            _totalDistributed = FHE.add(_totalDistributed, eamount);
-            // Allow contract and recipient to operate on the handle
-            FHE.allow(_encryptedBalances[recipients[i]], address(this));
-            FHE.allow(_encryptedBalances[recipients[i]], recipients[i]);
-            emit RecipientAdded(recipients[i]);
+            _credit(token, recipients[i], FHE.fromExternal(encryptedAmounts[i], amountProofs[i]), msg.sender);
         }
+        _allowTotalDistributed(token);
     }
-    
-    /// @notice Get the encrypted balance of a recipient
+
+    /// @notice Batch distribute tokens using a single encrypted input that packs every amount
+    /// @dev All handles must come from one `createEncryptedInput` call, so they share `inputProof`
+    /// @param token The token to distribute
+    /// @param recipients Array of recipient addresses
+    /// @param encryptedAmounts Array of encrypted amount handles from the packed input
+    /// @param inputProof The proof shared by all handles
+    function batchDistributeTokensPacked(
+        address token,
+        address[] calldata recipients,
+        externalEuint64[] calldata encryptedAmounts,
+        bytes calldata inputProof
+    ) external onlyRole(DISTRIBUTOR_ROLE) whenNotPaused onlySupportedToken(token) {
+        require(recipients.length == encryptedAmounts.length, "Array lengths must match");
+
+        for (uint256 i = 0; i < recipients.length; i++) {
+            _credit(token, recipients[i], FHE.fromExternal(encryptedAmounts[i], inputProof), msg.sender);
+        }
+        _allowTotalDistributed(token);
+    }
+
+    /// @notice Credits the caller with an allocation from a voucher signed by a distributor
+    /// @dev Runs in `PrivateTokenDistributorExtension.claim`
+    function claim(address, externalEuint64, bytes calldata, uint256, uint256, bytes calldata) external {
+        _delegateToExtension();
+    }
+
+    /// @notice Queues an encrypted allocation that anyone can execute once it is due
+    /// @dev Runs in `PrivateTokenDistributorExtension.scheduleDistribution`
+    function scheduleDistribution(
+        address,
+        address,
+        externalEuint64,
+        bytes calldata,
+        uint64
+    ) external returns (uint256) {
+        _delegateToExtension();
+    }
+
+    /// @notice Credits a scheduled distribution to its recipient once it is due
+    /// @dev Runs in `PrivateTokenDistributorExtension.executeScheduledDistribution`
+    function executeScheduledDistribution(uint256) external {
+        _delegateToExtension();
+    }
+
+    /// @notice Cancels a scheduled distribution that has not been executed yet
+    /// @dev Runs in `PrivateTokenDistributorExtension.cancelScheduledDistribution`
+    function cancelScheduledDistribution(uint256) external {
+        _delegateToExtension();
+    }
+
+    /// @notice Get a scheduled distribution
+    /// @param scheduleId The ID returned by `scheduleDistribution`
+    /// @return token The token to distribute, or the zero address if the ID is unknown or was cancelled
+    /// @return recipient The recipient
+    /// @return executeAfter Timestamp from which the distribution can be executed
+    /// @return executed Whether the distribution has been executed
+    function getScheduledDistribution(
+        uint256 scheduleId
+    ) external view returns (address token, address recipient, uint64 executeAfter, bool executed) {
+        ScheduledDistribution storage scheduled = _scheduledDistributions[scheduleId];
+        return (scheduled.token, scheduled.recipient, scheduled.executeAfter, scheduled.executed);
+    }
+
+    /// @notice Get the encrypted balance of the caller
+    /// @param token The token the balance is denominated in
     /// @return The encrypted balance
-    function getMyBalance() external view returns (euint32) {
-        return _encryptedBalances[msg.sender];
-    }
-    
-    // Mapping to track withdrawal requests
-    mapping(address => uint32) private _withdrawalRequests;
-    mapping(address => uint256) private _withdrawalRequestTime;
-    
-    // Withdrawal delay (e.g., 1 hour)
-    uint256 public constant WITHDRAWAL_DELAY = 1 hours;
-    
-    event WithdrawalInitiated(address indexed recipient, uint32 amount);
-    event WithdrawalCompleted(address indexed recipient, uint32 amount);
-    event WithdrawalCanceled(address indexed recipient);
-    
-    /// @notice Request withdrawal with the decrypted balance amount
-    /// @param plainAmount The decrypted amount to withdraw
-    function requestWithdrawal(uint32 plainAmount) external {
-        require(plainAmount > 0, "Amount must be greater than 0");
-        require(_withdrawalRequests[msg.sender] == 0, "Withdrawal already pending");
-        
-        // Store the withdrawal request
-        _withdrawalRequests[msg.sender] = plainAmount;
-        _withdrawalRequestTime[msg.sender] = block.timestamp;
-        
-        emit WithdrawalInitiated(msg.sender, plainAmount);
-    }
-    
-    /// @notice Complete the withdrawal after delay period
-    function completeWithdrawal() external {
-        uint32 requestedAmount = _withdrawalRequests[msg.sender];
-        require(requestedAmount > 0, "No withdrawal request pending");
-        require(
-            block.timestamp >= _withdrawalRequestTime[msg.sender] + WITHDRAWAL_DELAY,
-            "Withdrawal delay not yet passed"
+    function getMyBalance(address token) external view returns (euint64) {
+        return _encryptedBalances[token][msg.sender];
+    }
+
+    /// @notice Moves part of the caller's encrypted balance to another address
+    /// @dev An amount above the caller's balance transfers zero instead of reverting, so the outcome does not
+    /// reveal anything about the balance. Both parties can decrypt the transferred amount from the event.
+    /// @param token The token the balance is denominated in
+    /// @param to The address receiving the tokens
+    /// @param encryptedAmount The encrypted amount to transfer
+    /// @param amountProof Proof for the encrypted amount
+    function transferEncrypted(
+        address token,
+        address to,
+        externalEuint64 encryptedAmount,
+        bytes calldata amountProof
+    ) external whenNotPaused onlySupportedToken(token) {
+        require(to != address(0), "Recipient cannot be zero address");
+        require(to != msg.sender, "Cannot transfer to yourself");
+
+        euint64 amount = FHE.fromExternal(encryptedAmount, amountProof);
+        euint64 balance = _encryptedBalances[token][msg.sender];
+        if (!FHE.isInitialized(balance)) {
+            balance = FHE.asEuint64(0);
+        }
+        // Transfer nothing if the balance does not cover the amount
+        euint64 transferred = FHE.select(FHE.le(amount, balance), amount, FHE.asEuint64(0));
+
+        _setBalance(token, msg.sender, FHE.sub(balance, transferred));
+        _addToBalance(token, to, transferred);
+        // Allow both parties to see what was actually transferred
+        FHE.allow(transferred, address(this));
+        FHE.allow(transferred, msg.sender);
+        FHE.allow(transferred, to);
+
+        emit EncryptedTransfer(token, msg.sender, to, transferred);
+    }
+
+    /// @notice Delay applied to new withdrawal requests when a token is added
+    uint64 public constant DEFAULT_WITHDRAWAL_DELAY = 1 hours;
+    /// @notice Longest delay the owner can impose on withdrawals
+    uint64 public constant MAX_WITHDRAWAL_DELAY = 30 days;
+
+    /// @notice Sets the delay and the size limits of withdrawals of a token
+    /// @dev The delay is fixed when a request is made, so changes only apply to later requests
+    /// @param token The token the policy applies to
+    /// @param delay Seconds between a request and its completion
+    /// @param minAmount Smallest amount a request can ask for, in encrypted units
+    /// @param maxAmount Largest amount a request can ask for, in encrypted units
+    function setWithdrawalPolicy(
+        address token,
+        uint64 delay,
+        uint64 minAmount,
+        uint64 maxAmount
+    ) external onlyOwner onlySupportedToken(token) {
+        require(delay <= MAX_WITHDRAWAL_DELAY, "Withdrawal delay too long");
+        require(minAmount > 0 && minAmount <= maxAmount, "Invalid withdrawal limits");
+        withdrawalPolicy[token] = WithdrawalPolicy(delay, minAmount, maxAmount);
+        emit WithdrawalPolicySet(token, delay, minAmount, maxAmount);
+    }
+
+    /// @notice Request withdrawal of `amount` tokens
+    /// @dev The contract debits `amount` under FHE if the encrypted balance covers it and nothing otherwise, so
+    /// the outcome does not reveal the balance. A user can queue several requests, each with its own ID.
+    /// @param token The token to withdraw
+    /// @param amount The amount to withdraw, in encrypted units
+    /// @return withdrawalId The ID of the new request
+    function requestWithdrawal(
+        address token,
+        uint64 amount
+    ) external whenNotPaused onlySupportedToken(token) returns (uint256 withdrawalId) {
+        withdrawalId = _requestWithdrawal(token, msg.sender, amount);
+    }
+
+    /// @notice Requests a withdrawal for a recipient who signed it, so a relayer pays the gas
+    /// @dev The recipient signs the EIP-712 `RequestWithdrawal` struct with their next `withdrawalNonces` entry
+    /// @param token The token to withdraw
+    /// @param recipient The account withdrawing, which signed the request
+    /// @param amount The amount to withdraw, in encrypted units
+    /// @param nonce The recipient's next withdrawal nonce
+    /// @param deadline Timestamp after which the signature can no longer be used
+    /// @param signature The recipient's EIP-712 signature
+    /// @return withdrawalId The ID of the new request
+    function requestWithdrawalBySig(
+        address token,
+        address recipient,
+        uint64 amount,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) external whenNotPaused onlySupportedToken(token) returns (uint256 withdrawalId) {
+        bytes32 structHash = keccak256(
+            abi.encode(REQUEST_WITHDRAWAL_TYPEHASH, token, recipient, amount, nonce, deadline)
         );
-        
-        // Get the encrypted balance
-        euint32 encryptedBalance = _encryptedBalances[msg.sender];
-        // Allow contract to operate on the handle
-        FHE.allow(encryptedBalance, address(this));
-        // Check if the requested amount matches the encrypted balance
-        ebool isEqual = FHE.eq(encryptedBalance, FHE.asEuint32(requestedAmount));
-        FHE.allow(isEqual, address(this));
-        // Reset balance conditionally - only if amounts match
-        _encryptedBalances[msg.sender] = FHE.select(
-            isEqual,
-            FHE.asEuint32(0),
-            encryptedBalance
+        _useWithdrawalSignature(recipient, structHash, nonce, deadline, signature);
+        withdrawalId = _requestWithdrawal(token, recipient, amount);
+    }
+
+    function _requestWithdrawal(
+        address token,
+        address recipient,
+        uint64 amount
+    ) private returns (uint256 withdrawalId) {
+        WithdrawalPolicy memory policy = withdrawalPolicy[token];
+        require(amount >= policy.minAmount, "Amount below minimum withdrawal");
+        require(amount <= policy.maxAmount, "Amount above maximum withdrawal");
+        // Only the vested part of a grant can be withdrawn
+        if (_vestingSchedules[token][recipient].duration > 0) {
+            _releaseVested(token, recipient);
+        }
+
+        euint64 balance = _encryptedBalances[token][recipient];
+        if (!FHE.isInitialized(balance)) {
+            balance = FHE.asEuint64(0);
+        }
+        // Debit nothing if the balance does not cover the amount
+        euint64 debit = FHE.select(FHE.ge(balance, amount), FHE.asEuint64(amount), FHE.asEuint64(0));
+        _setBalance(token, recipient, FHE.sub(balance, debit));
+        // Allow contract and recipient to operate on the debited amount
+        FHE.allow(debit, address(this));
+        FHE.allow(debit, recipient);
+
+        // Store the withdrawal request
+        withdrawalId = ++_lastWithdrawalId;
+        _withdrawals[withdrawalId] = WithdrawalRequest({
+            token: token,
+            recipient: recipient,
+            amount: amount,
+            requestTime: uint64(block.timestamp),
+            unlockTime: uint64(block.timestamp) + policy.delay,
+            decrypting: false,
+            debit: debit
+        });
+        uint256[] storage pendingIds = _pendingWithdrawalIds[token][recipient];
+        pendingIds.push(withdrawalId);
+        _pendingWithdrawalIndex[withdrawalId] = pendingIds.length;
+
+        emit WithdrawalInitiated(token, recipient, withdrawalId, amount);
+    }
+
+    /// @notice Complete a withdrawal after its delay period
+    /// @dev Asks the decryption oracle to decrypt the debited amount; tokens are transferred
+    /// in `onWithdrawalDecrypted` once the oracle delivers the result
+    /// @param withdrawalId The ID returned by `requestWithdrawal`
+    function completeWithdrawal(uint256 withdrawalId) external whenNotPaused {
+        _completeWithdrawal(msg.sender, withdrawalId);
+    }
+
+    /// @notice Completes a withdrawal for a recipient who signed it, so a relayer pays the gas
+    /// @dev The recipient signs the EIP-712 `CompleteWithdrawal` struct with their next `withdrawalNonces` entry.
+    /// The tokens are still paid out to the recipient.
+    /// @param recipient The account that made the request and signed the completion
+    /// @param withdrawalId The ID returned by `requestWithdrawal`
+    /// @param nonce The recipient's next withdrawal nonce
+    /// @param deadline Timestamp after which the signature can no longer be used
+    /// @param signature The recipient's EIP-712 signature
+    function completeWithdrawalBySig(
+        address recipient,
+        uint256 withdrawalId,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) external whenNotPaused {
+        bytes32 structHash = keccak256(
+            abi.encode(COMPLETE_WITHDRAWAL_TYPEHASH, recipient, withdrawalId, nonce, deadline)
         );
+        _useWithdrawalSignature(recipient, structHash, nonce, deadline, signature);
+        _completeWithdrawal(recipient, withdrawalId);
+    }
+
+    function _completeWithdrawal(address recipient, uint256 withdrawalId) private {
+        WithdrawalRequest storage request = _withdrawals[withdrawalId];
+        require(request.recipient == recipient, "No withdrawal request pending");
+        require(!request.decrypting, "Withdrawal already completing");
+        require(block.timestamp >= request.unlockTime, "Withdrawal delay not yet passed");
+
+        uint256 requestId = _requestDecryption(request.debit, this.onWithdrawalDecrypted.selector);
+
+        request.decrypting = true;
+        _decryptionRequests[requestId] = withdrawalId;
+
+        emit WithdrawalDecryptionRequested(request.token, recipient, requestId, withdrawalId);
+    }
+
+    /// @notice Decryption oracle callback that pays out a completed withdrawal
+    /// @dev Anyone can call this, but `FHE.checkSignatures` rejects results not signed by the KMS. It ignores
+    /// `paused` so that a payout already handed to the oracle cannot get stuck. If the token refuses the transfer,
+    /// e.g. because it blocks the recipient, the debited amount is credited back to the balance instead.
+    /// @param requestId The decryption request ID returned by `FHE.requestDecryption`
+    /// @param amount The decrypted debited amount, in encrypted units
+    /// @param signatures KMS signatures over the decryption result
+    function onWithdrawalDecrypted(uint256 requestId, uint64 amount, bytes[] memory signatures) external {
+        uint256 withdrawalId = _decryptionRequests[requestId];
+        require(withdrawalId != 0, "Unknown decryption request");
+        FHE.checkSignatures(requestId, signatures);
+        delete _decryptionRequests[requestId];
+
+        WithdrawalRequest memory request = _withdrawals[withdrawalId];
+        if (amount > 0 && !_tryTransferOut(request.token, request.recipient, amount * rate[request.token])) {
+            _restoreDebit(withdrawalId);
+            emit WithdrawalFailed(request.token, request.recipient, withdrawalId, amount);
+            return;
+        }
         // Clear the withdrawal request
-        delete _withdrawalRequests[msg.sender];
-        delete _withdrawalRequestTime[msg.sender];
-        // Transfer tokens - this will fail if user provided wrong amount
-        // because their balance won't have been reset to 0
-        require(token.transfer(msg.sender, requestedAmount), "Transfer failed");
-        emit WithdrawalCompleted(msg.sender, requestedAmount);
-    }
-    
-    /// @notice Cancel a pending withdrawal request
-    function cancelWithdrawal() external {
-        require(_withdrawalRequests[msg.sender] > 0, "No withdrawal request pending");
-        
-        delete _withdrawalRequests[msg.sender];
-        delete _withdrawalRequestTime[msg.sender];
-        
-        emit WithdrawalCanceled(msg.sender);
-    }
-    
+        _removeWithdrawal(withdrawalId);
+        emit WithdrawalCompleted(request.token, request.recipient, withdrawalId, amount);
+    }
+
+    /// @notice Cancel a pending withdrawal request and restore the debited amount
+    /// @dev The caller's other pending requests are left in place
+    /// @param withdrawalId The ID returned by `requestWithdrawal`
+    function cancelWithdrawal(uint256 withdrawalId) external {
+        _cancelWithdrawal(msg.sender, withdrawalId);
+    }
+
+    /// @notice Cancels a withdrawal for a recipient who signed it, so a relayer pays the gas
+    /// @dev The recipient signs the EIP-712 `CancelWithdrawal` struct with their next `withdrawalNonces` entry
+    /// @param recipient The account that made the request and signed the cancellation
+    /// @param withdrawalId The ID returned by `requestWithdrawal`
+    /// @param nonce The recipient's next withdrawal nonce
+    /// @param deadline Timestamp after which the signature can no longer be used
+    /// @param signature The recipient's EIP-712 signature
+    function cancelWithdrawalBySig(
+        address recipient,
+        uint256 withdrawalId,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        bytes32 structHash = keccak256(
+            abi.encode(CANCEL_WITHDRAWAL_TYPEHASH, recipient, withdrawalId, nonce, deadline)
+        );
+        _useWithdrawalSignature(recipient, structHash, nonce, deadline, signature);
+        _cancelWithdrawal(recipient, withdrawalId);
+    }
+
+    function _cancelWithdrawal(address recipient, uint256 withdrawalId) private {
+        WithdrawalRequest storage request = _withdrawals[withdrawalId];
+        require(request.recipient == recipient, "No withdrawal request pending");
+        require(!request.decrypting, "Withdrawal already completing");
+
+        address token = request.token;
+        _restoreDebit(withdrawalId);
+        emit WithdrawalCanceled(token, recipient, withdrawalId);
+    }
+
+    /// @dev Credits a withdrawal's debited amount back to the recipient's balance and removes the request
+    function _restoreDebit(uint256 withdrawalId) private {
+        WithdrawalRequest storage request = _withdrawals[withdrawalId];
+        address token = request.token;
+        address recipient = request.recipient;
+        _setBalance(token, recipient, FHE.add(_encryptedBalances[token][recipient], request.debit));
+        _removeWithdrawal(withdrawalId);
+    }
+
+    /// @dev Checks a recipient's signature of a relayed withdrawal action and consumes its nonce, so the signature
+    /// cannot be replayed. Any change to the signed parameters recovers another signer and is rejected.
+    function _useWithdrawalSignature(
+        address recipient,
+        bytes32 structHash,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) private {
+        require(block.timestamp <= deadline, "Signature expired");
+        require(nonce == withdrawalNonces[recipient], "Invalid withdrawal nonce");
+        (address signer, ECDSA.RecoverError error, ) = ECDSA.tryRecover(_hashTypedDataV4(structHash), signature);
+        require(error == ECDSA.RecoverError.NoError && signer == recipient, "Invalid withdrawal signature");
+        withdrawalNonces[recipient] = nonce + 1;
+    }
+
+    /// @dev Deletes a withdrawal request and removes its ID from the recipient's pending list
+    function _removeWithdrawal(uint256 withdrawalId) private {
+        WithdrawalRequest storage request = _withdrawals[withdrawalId];
+        uint256[] storage pendingIds = _pendingWithdrawalIds[request.token][request.recipient];
+        uint256 index = _pendingWithdrawalIndex[withdrawalId];
+
+        // Move the last ID into the freed slot
+        uint256 last = pendingIds[pendingIds.length - 1];
+        pendingIds[index - 1] = last;
+        _pendingWithdrawalIndex[last] = index;
+        pendingIds.pop();
+        delete _pendingWithdrawalIndex[withdrawalId];
+        delete _withdrawals[withdrawalId];
+    }
+
     /// @notice Get pending withdrawal request info
+    /// @dev Completed and cancelled requests are deleted, so they return zero values
+    /// @param withdrawalId The ID returned by `requestWithdrawal`
+    /// @return token The token being withdrawn
+    /// @return recipient The address that made the request
     /// @return amount The requested withdrawal amount
     /// @return requestTime When the request was made
-    function getWithdrawalRequest(address user) external view returns (uint32 amount, uint256 requestTime) {
-        return (_withdrawalRequests[user], _withdrawalRequestTime[user]);
+    /// @return unlockTime When the request can be completed
+    /// @return decrypting Whether the payout is waiting on the decryption oracle
+    function getWithdrawalRequest(
+        uint256 withdrawalId
+    )
+        external
+        view
+        returns (
+            address token,
+            address recipient,
+            uint64 amount,
+            uint64 requestTime,
+            uint64 unlockTime,
+            bool decrypting
+        )
+    {
+        WithdrawalRequest storage request = _withdrawals[withdrawalId];
+        return (
+            request.token,
+            request.recipient,
+            request.amount,
+            request.requestTime,
+            request.unlockTime,
+            request.decrypting
+        );
+    }
+
+    /// @notice Get a page of a user's pending withdrawal request IDs
+    /// @dev Removing a request moves the last ID into its slot, so the order is not stable across removals
+    /// @param token The token being withdrawn
+    /// @param user The address whose requests to list
+    /// @param offset Number of IDs to skip
+    /// @param limit Maximum number of IDs to return
+    /// @return withdrawalIds The IDs in the page
+    /// @return total The number of pending requests
+    function getWithdrawalRequests(
+        address token,
+        address user,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (uint256[] memory withdrawalIds, uint256 total) {
+        uint256[] storage pendingIds = _pendingWithdrawalIds[token][user];
+        total = pendingIds.length;
+        uint256 end = offset + limit > total ? total : offset + limit;
+        withdrawalIds = new uint256[](end > offset ? end - offset : 0);
+        for (uint256 i = 0; i < withdrawalIds.length; i++) {
+            withdrawalIds[i] = pendingIds[offset + i];
+        }
+    }
+
+    /// @notice Get the encrypted amount debited for one of the caller's pending withdrawals
+    /// @param withdrawalId The ID returned by `requestWithdrawal`
+    /// @return The encrypted debited amount
+    function getMyPendingWithdrawal(uint256 withdrawalId) external view returns (euint64) {
+        require(_withdrawals[withdrawalId].recipient == msg.sender, "No withdrawal request pending");
+        return _withdrawals[withdrawalId].debit;
+    }
+
+    /// @notice Enables confidential withdrawals of a token, paid out in a confidential token that wraps it
+    /// @dev Runs in `PrivateTokenDistributorExtension.setConfidentialToken`
+    function setConfidentialToken(address, IConfidentialToken) external {
+        _delegateToExtension();
+    }
+
+    /// @notice Wraps deposited tokens into the confidential token that confidential withdrawals are paid from
+    /// @dev Runs in `PrivateTokenDistributorExtension.wrapDeposits`
+    function wrapDeposits(address, uint256) external {
+        _delegateToExtension();
+    }
+
+    /// @notice Withdraws an encrypted amount into the caller's confidential token balance, without decrypting it
+    /// @dev Runs in `PrivateTokenDistributorExtension.withdrawConfidential`
+    function withdrawConfidential(address, externalEuint64, bytes calldata) external {
+        _delegateToExtension();
+    }
+
+    /// @notice Grants an encrypted amount that vests linearly over time
+    /// @dev Runs in `PrivateTokenDistributorExtension.createVesting`
+    function createVesting(address, address, externalEuint64, bytes calldata, uint64, uint64, uint64) external {
+        _delegateToExtension();
+    }
+
+    /// @notice Moves the caller's newly vested tokens into their withdrawable balance
+    /// @param token The token of the grant
+    function releaseVested(address token) external {
+        require(_vestingSchedules[token][msg.sender].duration > 0, "No vesting schedule");
+        _releaseVested(token, msg.sender);
     }
-    
+
+    /// @notice Get the caller's vesting schedule
+    /// @param token The token of the grant
+    /// @return total The encrypted amount granted
+    /// @return released The encrypted amount moved to the withdrawable balance so far
+    /// @return start Timestamp at which vesting starts
+    /// @return cliff Seconds after `start` before anything vests
+    /// @return duration Seconds after `start` until the grant has fully vested
+    function getMyVesting(
+        address token
+    ) external view returns (euint64 total, euint64 released, uint64 start, uint64 cliff, uint64 duration) {
+        VestingSchedule storage schedule = _vestingSchedules[token][msg.sender];
+        return (schedule.total, schedule.released, schedule.start, schedule.cliff, schedule.duration);
+    }
+
+    /// @notice Sets when a token's distribution expires
+    /// @dev Runs in `PrivateTokenDistributorExtension.setDistributionExpiry`
+    function setDistributionExpiry(address, uint64) external {
+        _delegateToExtension();
+    }
+
+    /// @notice Takes back what recipients have not withdrawn from an expired distribution
+    /// @dev Runs in `PrivateTokenDistributorExtension.clawback`
+    function clawback(address, address[] calldata) external returns (uint256) {
+        _delegateToExtension();
+    }
+
+    /// @notice Decryption oracle callback that releases a clawed-back total to the owner who requested it
+    /// @dev Runs in `PrivateTokenDistributorExtension.onClawbackDecrypted`
+    function onClawbackDecrypted(uint256, uint64, bytes[] memory) external {
+        _delegateToExtension();
+    }
+
+    /// @notice Closes a token's distribution for good and refunds the funds no recipient was allocated
+    /// @dev Runs in `PrivateTokenDistributorExtension.closeDistribution`
+    function closeDistribution(address) external returns (uint256) {
+        _delegateToExtension();
+    }
+
+    /// @notice Decryption oracle callback that refunds the unallocated funds of a closed distribution
+    /// @dev Runs in `PrivateTokenDistributorExtension.onRefundDecrypted`
+    function onRefundDecrypted(uint256, uint64, bytes[] memory) external {
+        _delegateToExtension();
+    }
+
+    /// @notice Opens the next numbered round of a token's distribution
+    /// @dev Runs in `PrivateTokenDistributorExtension.openRound`
+    function openRound(address) external returns (uint256) {
+        _delegateToExtension();
+    }
+
+    /// @notice Closes a token's open round
+    /// @dev Runs in `PrivateTokenDistributorExtension.closeRound`
+    function closeRound(address) external {
+        _delegateToExtension();
+    }
+
+    /// @notice Get the number of rounds a token's distribution has had, including the open one
+    function getRoundCount(address token) external view returns (uint256) {
+        return _rounds[token].length;
+    }
+
+    /// @notice Get a round of a token's distribution
+    /// @param token The token of the distribution
+    /// @param round The round number, starting at 1
+    /// @return openedAt When the round was opened
+    /// @return closedAt When the round was closed, or zero while it is open
+    /// @return total The encrypted total allocated in the round, which the owner and auditors can decrypt
+    function getRound(
+        address token,
+        uint256 round
+    ) external view returns (uint64 openedAt, uint64 closedAt, euint64 total) {
+        require(round != 0 && round <= _rounds[token].length, "Unknown round");
+        Round storage stored = _rounds[token][round - 1];
+        return (stored.openedAt, stored.closedAt, stored.total);
+    }
+
+    /// @notice Get the encrypted amount allocated to you in a round
+    /// @param token The token of the distribution
+    /// @param round The round number
+    /// @return The encrypted contribution, or the zero handle if you received nothing in the round
+    function getMyRoundContribution(address token, uint256 round) external view returns (euint64) {
+        return _roundContributions[token][round][msg.sender];
+    }
+
     /// @notice Get the total distributed amount (encrypted)
+    /// @param token The token the total is denominated in
     /// @return The total distributed amount
-    function getTotalDistributed() external view onlyOwner returns (euint32) {
-        return _totalDistributed;
+    function getTotalDistributed(address token) external view returns (euint64) {
+        require(msg.sender == owner || hasRole(AUDITOR_ROLE, msg.sender), "Only owner or auditor");
+        return _totalDistributed[token];
+    }
+
+    /// @notice Get the encrypted balance of a recipient the owner marked as audited
+    /// @param token The token the balance is denominated in
+    /// @param recipient The recipient address
+    /// @return The encrypted balance
+    function getAuditedBalance(
+        address token,
+        address recipient
+    ) external view onlyRole(AUDITOR_ROLE) returns (euint64) {
+        require(isBalanceAudited[token][recipient], "Balance not audited");
+        return _encryptedBalances[token][recipient];
     }
-    
-    /// @notice Change the token address
-    /// @param newToken The new token address
-    function setToken(address newToken) external onlyOwner {
-        token = IERC20(newToken);
+
+    /// @notice Get whether the most recent allocation to a recipient fit within the deposited funds (encrypted)
+    /// @dev The flag can be decrypted by the owner and by the distributor that made the allocation
+    /// @param token The token of the allocation
+    /// @param recipient The recipient address
+    /// @return The encrypted accepted flag
+    function getAllocationAccepted(
+        address token,
+        address recipient
+    ) external view onlyRole(DISTRIBUTOR_ROLE) returns (ebool) {
+        return _allocationAccepted[token][recipient];
     }
-    
-    /// @notice Transfer ownership of the contract
+
+    /// @notice Propose a new owner, who must call `acceptOwnership` to take over
     /// @param newOwner The new owner address
     function transferOwnership(address newOwner) external onlyOwner {
         require(newOwner != address(0), "New owner cannot be zero address");
-        owner = newOwner;
+        pendingOwner = newOwner;
+        emit OwnershipTransferStarted(owner, newOwner);
+    }
+
+    /// @notice Accept a pending ownership transfer
+    /// @dev Every role the previous owner holds moves to the new owner, so the previous owner keeps no privileges.
+    /// Their deposits stay theirs and are still refunded to them when the distribution closes.
+    function acceptOwnership() external {
+        require(msg.sender == pendingOwner, "Caller is not the pending owner");
+        address previousOwner = owner;
+        emit OwnershipTransferred(previousOwner, msg.sender);
+        owner = msg.sender;
+        delete pendingOwner;
+        bytes32[4] memory roles = [DISTRIBUTOR_ROLE, TREASURER_ROLE, PAUSER_ROLE, AUDITOR_ROLE];
+        for (uint256 i = 0; i < roles.length; i++) {
+            if (hasRole(roles[i], previousOwner)) {
+                _revokeRole(roles[i], previousOwner);
+                if (!hasRole(roles[i], msg.sender)) {
+                    _grantRole(roles[i], msg.sender);
+                }
+            }
+        }
+        // Let the new owner decrypt the current totals, including those of past rounds
+        for (uint256 i = 0; i < _tokens.length; i++) {
+            _allowTotalDistributed(_tokens[i]);
+            _allowRoundTotals(_tokens[i], msg.sender);
+        }
+    }
+
+    /// @dev Allows an account to decrypt the total of every round a token's distribution has had
+    function _allowRoundTotals(address token, address account) private {
+        Round[] storage rounds = _rounds[token];
+        for (uint256 i = 0; i < rounds.length; i++) {
+            FHE.allow(rounds[i].total, account);
+        }
+    }
+
+    /// @notice Emergency withdraw tokens in case of issues
+    /// @dev Runs in `PrivateTokenDistributorExtension.emergencyWithdraw`
+    function emergencyWithdraw(address, uint256) external returns (uint256) {
+        _delegateToExtension();
     }
-    
-    /// @notice Emergency withdraw all tokens in case of issues
-    /// @param amount The amount to withdraw
-    function emergencyWithdraw(uint256 amount) external onlyOwner {
-        require(token.transfer(owner, amount), "Transfer failed");
+
+    /// @notice Decryption oracle callback that pays out or puts back an emergency withdrawal of deposits
+    /// @dev Runs in `PrivateTokenDistributorExtension.onEmergencyWithdrawalDecrypted`
+    function onEmergencyWithdrawalDecrypted(uint256, bool, bytes[] memory) external {
+        _delegateToExtension();
+    }
+
+    /// @dev Runs the called function in the extension and returns or reverts with its result
+    function _delegateToExtension() private {
+        (bool success, bytes memory result) = _extension.delegatecall(msg.data);
+        assembly ("memory-safe") {
+            if iszero(success) {
+                revert(add(result, 32), mload(result))
+            }
+            return(add(result, 32), mload(result))
+        }
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,481 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint64, euint128, ebool} from "@fhevm/solidity/lib/FHE.sol";
+import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+
+import {IConfidentialToken} from "./IConfidentialToken.sol";
+
+/// @title Private Token Distributor Base
+/// @notice Storage, events and internal logic shared by `PrivateTokenDistributor` and its extension
+/// @dev The extension runs through `delegatecall` on the distributor's storage, so both contracts must inherit
+/// their state from here and nowhere else, and new state must only ever be appended.
+abstract contract PrivateTokenDistributorBase is SepoliaConfig, EIP712 {
+    /// @notice Role allowed to distribute tokens and create vesting grants
+    bytes32 public constant DISTRIBUTOR_ROLE = keccak256("DISTRIBUTOR_ROLE");
+    /// @notice Role allowed to deposit funds and emergency-withdraw them
+    bytes32 public constant TREASURER_ROLE = keccak256("TREASURER_ROLE");
+    /// @notice Role allowed to pause and unpause distributions and withdrawals
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+    /// @notice Read-only role that can decrypt the totals and the balances the owner marks as audited
+    bytes32 public constant AUDITOR_ROLE = keccak256("AUDITOR_ROLE");
+
+    address public owner;
+    /// @notice Address the owner proposed as the next owner; it must call `acceptOwnership`
+    address public pendingOwner;
+    /// @notice Whether distributions and withdrawals are halted
+    bool public paused;
+
+    // Role => members, plus each member's 1-based position in the list (0 means not a member)
+    mapping(bytes32 => address[]) internal _roleMembers;
+    mapping(bytes32 => mapping(address => uint256)) internal _roleMemberIndex;
+
+    /// @notice Token base units per encrypted unit, i.e. 10^(token decimals - CONFIDENTIAL_DECIMALS);
+    /// zero for tokens that are not supported
+    mapping(address => uint256) public rate;
+    address[] internal _tokens;
+
+    // Token => recipient => encrypted balance
+    mapping(address => mapping(address => euint64)) internal _encryptedBalances;
+
+    mapping(address => euint64) internal _totalDistributed;
+
+    /// @notice Plaintext total of tokens deposited and not emergency-withdrawn; caps `_totalDistributed`
+    mapping(address => uint256) public totalDeposited;
+
+    /// @notice Tokens each depositor has put into a token's program and not taken back through refunds or
+    /// `emergencyWithdraw`
+    mapping(address => mapping(address => uint256)) public depositOf;
+    // Token => everyone who has deposited it, plus whether an address is already listed
+    mapping(address => address[]) internal _depositors;
+    mapping(address => mapping(address => bool)) internal _isDepositor;
+
+    // Whether the most recent allocation of each token to each recipient fit within the deposited funds
+    mapping(address => mapping(address => ebool)) internal _allocationAccepted;
+
+    // Recipients whose balances auditors may decrypt, per token
+    mapping(address => mapping(address => bool)) public isBalanceAudited;
+
+    // Tokens the contract holds through deposits and has not paid out; anything above it was sent by mistake
+    mapping(address => uint256) internal _trackedBalance;
+
+    event RoleGranted(bytes32 indexed role, address indexed account);
+    event RoleRevoked(bytes32 indexed role, address indexed account);
+    event BalanceAuditSet(address indexed token, address indexed recipient, bool audited);
+    event Paused(address indexed account);
+    event Unpaused(address indexed account);
+    event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner);
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event TokenAdded(address indexed token, uint256 rate);
+    event Deposit(address indexed token, address indexed from, uint256 amount);
+    event EmergencyWithdrawal(address indexed token, address indexed to, uint256 amount, uint256 fromDeposits);
+    event RecipientAdded(address indexed token, address indexed recipient);
+
+    // Voucher nonces already redeemed, per recipient
+    mapping(address => mapping(uint256 => bool)) public isVoucherClaimed;
+
+    event VoucherClaimed(address indexed token, address indexed recipient, uint256 nonce);
+
+    event EncryptedTransfer(address indexed token, address indexed from, address indexed to, euint64 amount);
+
+    struct WithdrawalPolicy {
+        uint64 delay;
+        uint64 minAmount;
+        uint64 maxAmount;
+    }
+
+    /// @notice Withdrawal delay in seconds, and minimum and maximum request in encrypted units, per token
+    mapping(address => WithdrawalPolicy) public withdrawalPolicy;
+
+    struct WithdrawalRequest {
+        address token;
+        address recipient;
+        uint64 amount;
+        uint64 requestTime;
+        uint64 unlockTime;
+        // Whether the debited amount has been sent to the decryption oracle
+        bool decrypting;
+        // Encrypted amount debited from the balance
+        euint64 debit;
+    }
+
+    // Withdrawal ID => pending request; IDs start at 1 and are never reused
+    mapping(uint256 => WithdrawalRequest) internal _withdrawals;
+    uint256 internal _lastWithdrawalId;
+
+    // Token => recipient => pending withdrawal IDs, plus each ID's 1-based position in its list
+    mapping(address => mapping(address => uint256[])) internal _pendingWithdrawalIds;
+    mapping(uint256 => uint256) internal _pendingWithdrawalIndex;
+
+    // Decryption request ID => withdrawal awaiting the callback
+    mapping(uint256 => uint256) internal _decryptionRequests;
+
+    event WithdrawalPolicySet(address indexed token, uint64 delay, uint64 minAmount, uint64 maxAmount);
+    event WithdrawalInitiated(
+        address indexed token,
+        address indexed recipient,
+        uint256 indexed withdrawalId,
+        uint64 amount
+    );
+    event WithdrawalDecryptionRequested(
+        address indexed token,
+        address indexed recipient,
+        uint256 indexed requestId,
+        uint256 withdrawalId
+    );
+    event WithdrawalCompleted(
+        address indexed token,
+        address indexed recipient,
+        uint256 indexed withdrawalId,
+        uint64 amount
+    );
+    event WithdrawalCanceled(address indexed token, address indexed recipient, uint256 indexed withdrawalId);
+    event WithdrawalFailed(
+        address indexed token,
+        address indexed recipient,
+        uint256 indexed withdrawalId,
+        uint64 amount
+    );
+
+    /// @notice Confidential token that `withdrawConfidential` pays out in, per token; zero if not enabled
+    mapping(address => IConfidentialToken) public confidentialToken;
+
+    event ConfidentialTokenSet(address indexed token, address indexed confidentialToken);
+    event DepositsWrapped(address indexed token, uint256 amount);
+    event ConfidentialWithdrawal(address indexed token, address indexed recipient, euint64 amount);
+
+    struct VestingSchedule {
+        euint64 total;
+        euint64 released;
+        uint64 start;
+        uint64 cliff;
+        uint64 duration;
+    }
+
+    // Vesting grant per token and recipient; a zero duration means no schedule
+    mapping(address => mapping(address => VestingSchedule)) internal _vestingSchedules;
+
+    event VestingCreated(address indexed token, address indexed recipient, uint64 start, uint64 cliff, uint64 duration);
+    event VestingReleased(address indexed token, address indexed recipient);
+
+    /// @notice Timestamp from which a token's allocations expire and can be clawed back; zero means never
+    mapping(address => uint64) public distributionExpiry;
+
+    struct PendingClawback {
+        address token;
+        address to;
+    }
+
+    // Decryption request ID => clawback awaiting the callback
+    mapping(uint256 => PendingClawback) internal _clawbackRequests;
+
+    event DistributionExpirySet(address indexed token, uint64 expiry);
+    event ClawedBack(address indexed token, address indexed recipient);
+    event ClawbackDecryptionRequested(address indexed token, uint256 indexed requestId);
+    event ClawbackCompleted(address indexed token, address indexed to, uint64 amount);
+    event ClawbackFailed(address indexed token, address indexed to, uint64 amount);
+
+    /// @notice Whether a token's distribution was closed and its unallocated funds refunded to the depositors
+    mapping(address => bool) public distributionClosed;
+
+    // Decryption request ID => token whose unallocated funds are being refunded
+    mapping(uint256 => address) internal _refundRequests;
+
+    event DistributionClosed(address indexed token, uint256 indexed requestId);
+    event Refunded(address indexed token, address indexed depositor, uint256 amount);
+
+    struct Round {
+        uint64 openedAt;
+        // Zero while the round is open
+        uint64 closedAt;
+        // Encrypted total allocated in the round
+        euint64 total;
+    }
+
+    /// @notice Number of the token's open round, which allocations are counted towards; zero when none is open
+    mapping(address => uint256) public currentRound;
+
+    // Rounds per token; round `n` is stored at index `n - 1`
+    mapping(address => Round[]) internal _rounds;
+
+    // Token => round => recipient => encrypted amount allocated to the recipient in that round
+    mapping(address => mapping(uint256 => mapping(address => euint64))) internal _roundContributions;
+
+    event RoundOpened(address indexed token, uint256 indexed round);
+    event RoundClosed(address indexed token, uint256 indexed round);
+
+    struct ScheduledDistribution {
+        address token;
+        address recipient;
+        // The distributor that scheduled it, who may decrypt whether it was accepted
+        address distributor;
+        uint64 executeAfter;
+        bool executed;
+        euint64 amount;
+    }
+
+    /// @notice Number of distributions scheduled so far; IDs run from 1 to this count
+    uint256 public scheduledDistributionCount;
+
+    // Scheduled distribution ID => the distribution; cancelled ones are deleted
+    mapping(uint256 => ScheduledDistribution) internal _scheduledDistributions;
+
+    event DistributionScheduled(
+        address indexed token,
+        address indexed recipient,
+        uint256 indexed scheduleId,
+        uint64 executeAfter
+    );
+    event ScheduledDistributionExecuted(address indexed token, address indexed recipient, uint256 indexed scheduleId);
+    event ScheduledDistributionCanceled(address indexed token, address indexed recipient, uint256 indexed scheduleId);
+
+    /// @notice Next nonce a recipient must sign for a relayed withdrawal action
+    mapping(address => uint256) public withdrawalNonces;
+
+    // Token => deposits set aside for emergency withdrawals awaiting the oracle, in base units; wrapping and refunds
+    // leave them in place
+    mapping(address => uint256) internal _reservedForEmergencyWithdrawals;
+
+    struct PendingEmergencyWithdrawal {
+        address token;
+        address to;
+        // Deposits to take back, in token base units
+        uint256 amount;
+    }
+
+    // Decryption request ID => emergency withdrawal of deposits awaiting the callback
+    mapping(uint256 => PendingEmergencyWithdrawal) internal _emergencyWithdrawals;
+
+    event EmergencyWithdrawalDecryptionRequested(
+        address indexed token,
+        address indexed to,
+        uint256 indexed requestId,
+        uint256 amount
+    );
+    event EmergencyWithdrawalRejected(address indexed token, address indexed to, uint256 indexed requestId);
+
+    /// @notice Modifier to restrict access to owner
+    modifier onlyOwner() {
+        _checkOwner();
+        _;
+    }
+
+    /// @notice Modifier to restrict access to members of a role
+    modifier onlyRole(bytes32 role) {
+        _checkRole(role);
+        _;
+    }
+
+    /// @notice Modifier to block distributions, transfers and withdrawals while paused
+    modifier whenNotPaused() {
+        _checkNotPaused();
+        _;
+    }
+
+    /// @notice Modifier to restrict calls to tokens added with `addToken`
+    modifier onlySupportedToken(address token) {
+        _checkSupportedToken(token);
+        _;
+    }
+
+    // Modifier bodies are functions so that every use does not inline its own copy, which keeps the contract under
+    // the size limit
+    function _checkOwner() internal view {
+        require(msg.sender == owner, "Only owner can call this");
+    }
+
+    function _checkRole(bytes32 role) internal view {
+        require(hasRole(role, msg.sender), "Caller is missing role");
+    }
+
+    function _checkNotPaused() internal view {
+        require(!paused, "Contract is paused");
+    }
+
+    function _checkSupportedToken(address token) internal view {
+        require(rate[token] != 0, "Token not supported");
+    }
+
+    /// @notice Check whether an account holds a role
+    /// @param role The role identifier, e.g. `DISTRIBUTOR_ROLE`
+    /// @param account The account to check
+    /// @return Whether the account holds the role
+    function hasRole(bytes32 role, address account) public view returns (bool) {
+        return _roleMemberIndex[role][account] != 0;
+    }
+
+    /// @dev Allows every current auditor to decrypt a handle
+    function _allowAuditors(euint64 handle) internal {
+        address[] storage auditors = _roleMembers[AUDITOR_ROLE];
+        for (uint256 i = 0; i < auditors.length; i++) {
+            FHE.allow(handle, auditors[i]);
+        }
+    }
+
+    /// @dev Adds an encrypted amount to a recipient's balance and to the running total
+    function _credit(address token, address recipient, euint64 eamount, address allocator) internal {
+        _addToBalance(token, recipient, _reserve(token, recipient, eamount, allocator));
+        emit RecipientAdded(token, recipient);
+    }
+
+    /// @dev Adds an encrypted amount to the running total and returns the part that was accepted. An amount
+    /// that would push the total above `totalDeposited` is clamped to zero and its accepted flag is false. Only the
+    /// contract, the owner and `allocator`, the distributor behind the allocation, can decrypt the flag.
+    function _reserve(
+        address token,
+        address recipient,
+        euint64 eamount,
+        address allocator
+    ) internal returns (euint64 credited) {
+        require(!_isExpired(token), "Distribution expired");
+        // Only accept the amount if the deposited funds still cover it
+        ebool accepted = FHE.le(eamount, _remainingDeposits(token));
+        credited = FHE.select(accepted, eamount, FHE.asEuint64(0));
+        // Update total distributed
+        _totalDistributed[token] = FHE.add(_totalDistributed[token], credited);
+        _addToRound(token, recipient, credited);
+        _allocationAccepted[token][recipient] = accepted;
+        FHE.allow(accepted, address(this));
+        FHE.allow(accepted, owner);
+        FHE.allow(accepted, allocator);
+    }
+
+    /// @dev Counts an accepted amount towards the open round's total and the recipient's contribution to it
+    function _addToRound(address token, address recipient, euint64 credited) internal {
+        uint256 round = currentRound[token];
+        if (round == 0) {
+            return;
+        }
+        Round storage current = _rounds[token][round - 1];
+        current.total = FHE.add(current.total, credited);
+
+        euint64 contribution = FHE.add(_roundContributions[token][round][recipient], credited);
+        _roundContributions[token][round][recipient] = contribution;
+        FHE.allow(contribution, address(this));
+        FHE.allow(contribution, recipient);
+    }
+
+    /// @dev Adds an encrypted amount to a recipient's withdrawable balance
+    function _addToBalance(address token, address recipient, euint64 eamount) internal {
+        euint64 prevBalance = _encryptedBalances[token][recipient];
+        // If not initialized, set to zero
+        if (!FHE.isInitialized(prevBalance)) {
+            prevBalance = FHE.asEuint64(0);
+        }
+        // Update recipient's balance
+        _setBalance(token, recipient, FHE.add(prevBalance, eamount));
+    }
+
+    /// @dev Stores a new balance handle and allows the contract, the recipient and, if audited, the auditors on it
+    function _setBalance(address token, address recipient, euint64 newBalance) internal {
+        _encryptedBalances[token][recipient] = newBalance;
+        FHE.allow(newBalance, address(this));
+        FHE.allow(newBalance, recipient);
+        if (isBalanceAudited[token][recipient]) {
+            _allowAuditors(newBalance);
+        }
+    }
+
+    /// @dev `totalDeposited` in encrypted units, saturating at the largest `uint64`
+    function _depositedUnits(address token) internal view returns (uint64) {
+        uint256 deposited = totalDeposited[token] / rate[token];
+        return deposited > type(uint64).max ? type(uint64).max : uint64(deposited);
+    }
+
+    /// @dev Encrypted amount of deposited funds not yet promised to recipients, saturating at zero
+    function _remainingDeposits(address token) internal returns (euint64) {
+        uint64 cap = _depositedUnits(token);
+        euint64 total = _totalDistributed[token];
+        return FHE.select(FHE.le(total, cap), FHE.sub(FHE.asEuint64(cap), total), FHE.asEuint64(0));
+    }
+
+    /// @dev Allows the contract, owner and auditors to operate on the current total distributed handle and on the
+    /// open round's total
+    function _allowTotalDistributed(address token) internal {
+        FHE.allow(_totalDistributed[token], address(this));
+        FHE.allow(_totalDistributed[token], owner);
+        _allowAuditors(_totalDistributed[token]);
+        uint256 round = currentRound[token];
+        if (round != 0) {
+            _allowRoundTotal(_rounds[token][round - 1].total);
+        }
+    }
+
+    /// @dev Allows the contract, owner and auditors to operate on a round total
+    function _allowRoundTotal(euint64 total) internal {
+        FHE.allow(total, address(this));
+        FHE.allow(total, owner);
+        _allowAuditors(total);
+    }
+
+    /// @dev Pays out tokens the contract holds through deposits
+    function _transferOut(address token, address to, uint256 amount) internal {
+        uint256 tracked = _trackedBalance[token];
+        _trackedBalance[token] = amount >= tracked ? 0 : tracked - amount;
+        require(IERC20(token).transfer(to, amount), "Transfer failed");
+    }
+
+    /// @dev Pays out tokens the contract holds through deposits, and returns false instead of reverting if the
+    /// token refuses the transfer
+    function _tryTransferOut(address token, address to, uint256 amount) internal returns (bool) {
+        try IERC20(token).transfer(to, amount) returns (bool success) {
+            if (!success) {
+                return false;
+            }
+        } catch {
+            return false;
+        }
+        uint256 tracked = _trackedBalance[token];
+        _trackedBalance[token] = amount >= tracked ? 0 : tracked - amount;
+        return true;
+    }
+
+    /// @dev Computes the vested amount under FHE from `block.timestamp` and credits what was not yet released
+    function _releaseVested(address token, address recipient) internal {
+        VestingSchedule storage schedule = _vestingSchedules[token][recipient];
+        if (block.timestamp < schedule.start + schedule.cliff) {
+            return;
+        }
+
+        euint64 vested;
+        if (block.timestamp >= schedule.start + schedule.duration) {
+            vested = schedule.total;
+        } else {
+            // total * elapsed / duration, widened to 128 bits so the product cannot overflow
+            uint64 elapsed = uint64(block.timestamp) - schedule.start;
+            euint128 scaled = FHE.mul(FHE.asEuint128(schedule.total), FHE.asEuint128(elapsed));
+            vested = FHE.asEuint64(FHE.div(scaled, uint128(schedule.duration)));
+        }
+
+        _addToBalance(token, recipient, FHE.sub(vested, schedule.released));
+        schedule.released = vested;
+        FHE.allow(vested, address(this));
+        FHE.allow(vested, recipient);
+
+        emit VestingReleased(token, recipient);
+    }
+
+    /// @dev Whether a token's distribution has passed its expiry
+    function _isExpired(address token) internal view returns (bool) {
+        uint64 expiry = distributionExpiry[token];
+        return expiry != 0 && block.timestamp >= expiry;
+    }
+
+    /// @dev Sends a handle to the decryption oracle, which calls `callback` on this contract with the result
+    function _requestDecryption(euint64 handle, bytes4 callback) internal returns (uint256) {
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(handle);
+        return FHE.requestDecryption(cts, callback);
+    }
+
+    /// @dev Sends an encrypted flag to the decryption oracle, which calls `callback` on this contract with the result
+    function _requestDecryption(ebool handle, bytes4 callback) internal returns (uint256) {
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(handle);
+        return FHE.requestDecryption(cts, callback);
+    }
+
+    constructor() EIP712("PrivateTokenDistributor", "1") {}
+}
@@ -0,0 +1,467 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint64, externalEuint64, ebool} from "@fhevm/solidity/lib/FHE.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+
+import {IConfidentialToken} from "./IConfidentialToken.sol";
+import {PrivateTokenDistributorBase} from "./PrivateTokenDistributorBase.sol";
+
+/// @title Private Token Distributor Extension
+/// @notice Functions of `PrivateTokenDistributor` that do not fit in its 24 KiB of code
+/// @dev The distributor deploys this contract and forwards these functions to it with `delegatecall`, so they run
+/// on the distributor's storage and emit its events. Calling this contract directly only touches its own, empty
+/// storage.
+contract PrivateTokenDistributorExtension is PrivateTokenDistributorBase {
+    bytes32 private constant CLAIM_TYPEHASH =
+        keccak256(
+            "Claim(address token,address recipient,bytes32 handle,bytes32 proofHash,uint256 expiry,uint256 nonce)"
+        );
+
+    /// @notice Credits the caller with an allocation from a voucher signed by a distributor
+    /// @dev The amount must be encrypted for this contract with the recipient as the input's user, and the
+    /// voucher is the EIP-712 `Claim` struct over the recipient, the handle and the hash of its proof. Like any
+    /// distribution, the amount is clamped to zero if the deposits no longer cover it when claimed.
+    /// @param token The token to claim
+    /// @param encryptedAmount The encrypted amount from the voucher
+    /// @param amountProof Proof for the encrypted amount
+    /// @param expiry Timestamp after which the voucher can no longer be claimed
+    /// @param nonce Voucher number, unique per recipient
+    /// @param signature The distributor's EIP-712 signature of the voucher
+    function claim(
+        address token,
+        externalEuint64 encryptedAmount,
+        bytes calldata amountProof,
+        uint256 expiry,
+        uint256 nonce,
+        bytes calldata signature
+    ) external whenNotPaused onlySupportedToken(token) {
+        require(block.timestamp <= expiry, "Voucher expired");
+        require(!isVoucherClaimed[msg.sender][nonce], "Voucher already claimed");
+        bytes32 structHash = keccak256(
+            abi.encode(
+                CLAIM_TYPEHASH,
+                token,
+                msg.sender,
+                externalEuint64.unwrap(encryptedAmount),
+                keccak256(amountProof),
+                expiry,
+                nonce
+            )
+        );
+        (address signer, ECDSA.RecoverError error, ) = ECDSA.tryRecover(_hashTypedDataV4(structHash), signature);
+        require(error == ECDSA.RecoverError.NoError && hasRole(DISTRIBUTOR_ROLE, signer), "Invalid voucher signature");
+
+        isVoucherClaimed[msg.sender][nonce] = true;
+        _credit(token, msg.sender, FHE.fromExternal(encryptedAmount, amountProof), signer);
+        _allowTotalDistributed(token);
+        emit VoucherClaimed(token, msg.sender, nonce);
+    }
+
+    /// @notice Enables confidential withdrawals of a token, paid out in a confidential token that wraps it
+    /// @param token The token whose withdrawals to enable
+    /// @param wrapper An ERC-7984 style wrapper of `token` with the same rate, or zero to disable
+    function setConfidentialToken(
+        address token,
+        IConfidentialToken wrapper
+    ) external onlyOwner onlySupportedToken(token) {
+        if (address(wrapper) != address(0)) {
+            require(wrapper.underlying() == token && wrapper.rate() == rate[token], "Confidential token mismatch");
+        }
+        confidentialToken[token] = wrapper;
+        emit ConfidentialTokenSet(token, address(wrapper));
+    }
+
+    /// @notice Wraps deposited tokens into the confidential token that confidential withdrawals are paid from
+    /// @dev The wrapped tokens still back allocations, so `totalDeposited` is unchanged, but they can no longer be
+    /// paid out by `completeWithdrawal` or `emergencyWithdraw`. A plaintext withdrawal the unwrapped tokens no longer
+    /// cover fails with `WithdrawalFailed`, and its amount can be withdrawn with `withdrawConfidential` instead.
+    /// @param token The token to wrap
+    /// @param amount The amount to wrap, in token base units; a multiple of `rate`
+    function wrapDeposits(address token, uint256 amount) external onlyRole(TREASURER_ROLE) {
+        IConfidentialToken wrapper = confidentialToken[token];
+        require(address(wrapper) != address(0), "Confidential token not set");
+        // The wrapper only takes whole encrypted units
+        require(amount % rate[token] == 0, "Amount not a multiple of rate");
+        require(amount + _reservedForEmergencyWithdrawals[token] <= _trackedBalance[token], "Amount exceeds deposits");
+        _trackedBalance[token] -= amount;
+
+        require(IERC20(token).approve(address(wrapper), amount), "Approve failed");
+        wrapper.wrap(address(this), amount);
+        emit DepositsWrapped(token, amount);
+    }
+
+    /// @notice Withdraws an encrypted amount into the caller's confidential token balance, without decrypting it
+    /// @dev Moves nothing if the balance does not cover the amount. If the wrapped reserve does not cover it the
+    /// confidential token moves nothing either, and the balance is left untouched.
+    /// @param token The token to withdraw
+    /// @param encryptedAmount The encrypted amount to withdraw
+    /// @param amountProof Proof for the encrypted amount
+    function withdrawConfidential(
+        address token,
+        externalEuint64 encryptedAmount,
+        bytes calldata amountProof
+    ) external whenNotPaused {
+        IConfidentialToken wrapper = confidentialToken[token];
+        require(address(wrapper) != address(0), "Confidential token not set");
+        // Only the vested part of a grant can be withdrawn
+        if (_vestingSchedules[token][msg.sender].duration > 0) {
+            _releaseVested(token, msg.sender);
+        }
+
+        euint64 amount = FHE.fromExternal(encryptedAmount, amountProof);
+        euint64 balance = _encryptedBalances[token][msg.sender];
+        euint64 debit = FHE.select(FHE.le(amount, balance), amount, FHE.asEuint64(0));
+        FHE.allowTransient(debit, address(wrapper));
+        euint64 sent = wrapper.confidentialTransfer(msg.sender, debit);
+
+        _setBalance(token, msg.sender, FHE.sub(balance, sent));
+        FHE.allow(sent, msg.sender);
+        emit ConfidentialWithdrawal(token, msg.sender, sent);
+    }
+
+    /// @notice Grants an encrypted amount that vests linearly over time
+    /// @dev Nothing vests before `start + cliff`; everything has vested at `start + duration`.
+    /// The grant counts towards the total distributed as soon as it is created. A recipient has one schedule per
+    /// token; once it has fully vested, a new grant releases what is left of it to the balance and replaces it.
+    /// @param token The token to grant
+    /// @param recipient The address of the recipient
+    /// @param encryptedAmount The encrypted amount to grant
+    /// @param amountProof Proof for the encrypted amount
+    /// @param start Timestamp at which vesting starts
+    /// @param cliff Seconds after `start` before anything vests
+    /// @param duration Seconds after `start` until the grant has fully vested
+    function createVesting(
+        address token,
+        address recipient,
+        externalEuint64 encryptedAmount,
+        bytes calldata amountProof,
+        uint64 start,
+        uint64 cliff,
+        uint64 duration
+    ) external onlyRole(DISTRIBUTOR_ROLE) whenNotPaused onlySupportedToken(token) {
+        require(duration > 0, "Duration must be greater than 0");
+        require(cliff <= duration, "Cliff exceeds duration");
+        VestingSchedule storage existing = _vestingSchedules[token][recipient];
+        if (existing.duration > 0) {
+            require(block.timestamp >= existing.start + existing.duration, "Vesting still running");
+            _releaseVested(token, recipient);
+        }
+
+        euint64 granted = _reserve(token, recipient, FHE.fromExternal(encryptedAmount, amountProof), msg.sender);
+        euint64 released = FHE.asEuint64(0);
+        _vestingSchedules[token][recipient] = VestingSchedule(granted, released, start, cliff, duration);
+        _allowTotalDistributed(token);
+        // Allow contract and recipient to operate on the handles
+        FHE.allow(granted, address(this));
+        FHE.allow(granted, recipient);
+        FHE.allow(released, address(this));
+        FHE.allow(released, recipient);
+
+        emit VestingCreated(token, recipient, start, cliff, duration);
+    }
+
+    /// @notice Sets when a token's distribution expires
+    /// @dev From the expiry on, no new allocations are accepted and the owner can claw back what recipients have
+    /// not withdrawn. Setting a new expiry, or zero, reopens an expired distribution.
+    /// @param token The token of the distribution
+    /// @param expiry The expiry timestamp, or zero for no expiry
+    function setDistributionExpiry(address token, uint64 expiry) external onlyOwner onlySupportedToken(token) {
+        require(!distributionClosed[token], "Distribution closed");
+        require(expiry == 0 || expiry > block.timestamp, "Expiry must be in the future");
+        distributionExpiry[token] = expiry;
+        emit DistributionExpirySet(token, expiry);
+    }
+
+    /// @notice Takes back what recipients have not withdrawn from an expired distribution
+    /// @dev Balances and unreleased vesting grants are zeroed and subtracted from the total distributed. Amounts
+    /// already debited for pending withdrawals stay with their requests and are still paid out. The encrypted sum
+    /// is sent to the decryption oracle and transferred to the owner in `onClawbackDecrypted`.
+    /// @param token The token of the distribution
+    /// @param recipients The recipients whose allocations to claw back
+    /// @return requestId The decryption request ID of the recovered total
+    function clawback(
+        address token,
+        address[] calldata recipients
+    ) external onlyOwner onlySupportedToken(token) returns (uint256 requestId) {
+        require(_isExpired(token), "Distribution not expired");
+
+        euint64 recovered = FHE.asEuint64(0);
+        for (uint256 i = 0; i < recipients.length; i++) {
+            euint64 balance = _encryptedBalances[token][recipients[i]];
+            if (FHE.isInitialized(balance)) {
+                recovered = FHE.add(recovered, balance);
+                _setBalance(token, recipients[i], FHE.asEuint64(0));
+            }
+            VestingSchedule storage schedule = _vestingSchedules[token][recipients[i]];
+            if (schedule.duration > 0) {
+                recovered = FHE.add(recovered, FHE.sub(schedule.total, schedule.released));
+                delete _vestingSchedules[token][recipients[i]];
+            }
+            emit ClawedBack(token, recipients[i]);
+        }
+        _totalDistributed[token] = FHE.sub(_totalDistributed[token], recovered);
+        _allowTotalDistributed(token);
+        FHE.allow(recovered, address(this));
+
+        requestId = _requestDecryption(recovered, this.onClawbackDecrypted.selector);
+        _clawbackRequests[requestId] = PendingClawback(token, msg.sender);
+
+        emit ClawbackDecryptionRequested(token, requestId);
+    }
+
+    /// @notice Decryption oracle callback that releases a clawed-back total to the owner who requested it
+    /// @dev The recovered tokens leave the program, so they are also removed from `totalDeposited`. If the token
+    /// refuses the transfer, e.g. because it blocks the owner or the deposits were wrapped, `ClawbackFailed` is
+    /// emitted instead and the amount stays deposited, unallocated, to be refunded or allocated again.
+    /// @param requestId The decryption request ID returned by `FHE.requestDecryption`
+    /// @param amount The decrypted recovered total, in encrypted units
+    /// @param signatures KMS signatures over the decryption result
+    function onClawbackDecrypted(uint256 requestId, uint64 amount, bytes[] memory signatures) external {
+        PendingClawback memory pending = _clawbackRequests[requestId];
+        require(pending.to != address(0), "Unknown decryption request");
+        FHE.checkSignatures(requestId, signatures);
+        delete _clawbackRequests[requestId];
+
+        if (amount > 0) {
+            uint256 payout = amount * rate[pending.token];
+            if (!_tryTransferOut(pending.token, pending.to, payout)) {
+                // The amount is no longer distributed, so it stays behind as unallocated deposits
+                emit ClawbackFailed(pending.token, pending.to, amount);
+                return;
+            }
+            uint256 deposited = totalDeposited[pending.token];
+            totalDeposited[pending.token] = payout >= deposited ? 0 : deposited - payout;
+        }
+        emit ClawbackCompleted(pending.token, pending.to, amount);
+    }
+
+    /// @notice Closes a token's distribution for good and refunds the funds no recipient was allocated
+    /// @dev The distribution expires at once if it has not already, and no longer accepts deposits or a new expiry.
+    /// The unallocated funds, i.e. `totalDeposited` minus the encrypted total distributed, are sent to the
+    /// decryption oracle and split among the depositors in `onRefundDecrypted`. Balances recipients have not
+    /// withdrawn stay allocated; claw them back first to return them to the owner.
+    /// @param token The token of the distribution
+    /// @return requestId The decryption request ID of the unallocated funds
+    function closeDistribution(address token) external onlyOwner onlySupportedToken(token) returns (uint256 requestId) {
+        require(!distributionClosed[token], "Distribution closed");
+        distributionClosed[token] = true;
+        if (!_isExpired(token)) {
+            distributionExpiry[token] = uint64(block.timestamp);
+            emit DistributionExpirySet(token, uint64(block.timestamp));
+        }
+
+        euint64 unallocated = _remainingDeposits(token);
+        FHE.allow(unallocated, address(this));
+        requestId = _requestDecryption(unallocated, this.onRefundDecrypted.selector);
+        _refundRequests[requestId] = token;
+
+        emit DistributionClosed(token, requestId);
+    }
+
+    /// @notice Decryption oracle callback that refunds the unallocated funds of a closed distribution
+    /// @dev Each depositor gets a share in proportion to `depositOf`, rounded down. Deposits that were wrapped for
+    /// confidential withdrawals, or set aside for a pending emergency withdrawal, are not refunded.
+    /// @param requestId The decryption request ID returned by `FHE.requestDecryption`
+    /// @param amount The decrypted unallocated funds, in encrypted units
+    /// @param signatures KMS signatures over the decryption result
+    function onRefundDecrypted(uint256 requestId, uint64 amount, bytes[] memory signatures) external {
+        address token = _refundRequests[requestId];
+        require(token != address(0), "Unknown decryption request");
+        FHE.checkSignatures(requestId, signatures);
+        delete _refundRequests[requestId];
+
+        // Deposits set aside for emergency withdrawals stay until the oracle settles them
+        uint256 tracked = _trackedBalance[token];
+        uint256 reserved = _reservedForEmergencyWithdrawals[token];
+        uint256 unreserved = tracked > reserved ? tracked - reserved : 0;
+        uint256 refundable = amount * rate[token];
+        if (refundable > unreserved) {
+            refundable = unreserved;
+        }
+        address[] storage depositors = _depositors[token];
+        uint256 deposits;
+        for (uint256 i = 0; i < depositors.length; i++) {
+            deposits += depositOf[token][depositors[i]];
+        }
+
+        uint256 refunded;
+        for (uint256 i = 0; i < depositors.length && refundable > 0; i++) {
+            address depositor = depositors[i];
+            uint256 share = (refundable * depositOf[token][depositor]) / deposits;
+            if (share > 0) {
+                depositOf[token][depositor] -= share;
+                refunded += share;
+                _transferOut(token, depositor, share);
+                emit Refunded(token, depositor, share);
+            }
+        }
+        uint256 deposited = totalDeposited[token];
+        totalDeposited[token] = refunded >= deposited ? 0 : deposited - refunded;
+    }
+
+    /// @notice Opens the next numbered round of a token's distribution
+    /// @dev Every allocation accepted while the round is open, including vesting grants and claimed vouchers, counts
+    /// towards the round's encrypted total and the recipient's contribution to it. Only one round per token can be
+    /// open at a time.
+    /// @param token The token of the distribution
+    /// @return round The number of the new round, starting at 1
+    function openRound(address token) external onlyOwner onlySupportedToken(token) returns (uint256 round) {
+        require(currentRound[token] == 0, "Round already open");
+        euint64 total = FHE.asEuint64(0);
+        _rounds[token].push(Round(uint64(block.timestamp), 0, total));
+        _allowRoundTotal(total);
+        round = _rounds[token].length;
+        currentRound[token] = round;
+
+        emit RoundOpened(token, round);
+    }
+
+    /// @notice Closes a token's open round, freezing its total; later allocations count towards no round until the
+    /// next one is opened
+    /// @param token The token of the distribution
+    function closeRound(address token) external onlyOwner {
+        uint256 round = currentRound[token];
+        require(round != 0, "No round open");
+        _rounds[token][round - 1].closedAt = uint64(block.timestamp);
+        currentRound[token] = 0;
+
+        emit RoundClosed(token, round);
+    }
+
+    /// @notice Queues an encrypted allocation that anyone can execute once `executeAfter` has passed
+    /// @dev The amount is only checked against the deposits when the distribution is executed, and counts towards
+    /// the round open at that time
+    /// @param token The token to distribute
+    /// @param recipient The address of the recipient
+    /// @param encryptedAmount The encrypted amount to distribute
+    /// @param amountProof Proof for the encrypted amount
+    /// @param executeAfter Timestamp from which the distribution can be executed
+    /// @return scheduleId The ID to execute or cancel the distribution by
+    function scheduleDistribution(
+        address token,
+        address recipient,
+        externalEuint64 encryptedAmount,
+        bytes calldata amountProof,
+        uint64 executeAfter
+    ) external onlyRole(DISTRIBUTOR_ROLE) whenNotPaused onlySupportedToken(token) returns (uint256 scheduleId) {
+        require(executeAfter > block.timestamp, "Execution must be in the future");
+        euint64 amount = FHE.fromExternal(encryptedAmount, amountProof);
+        FHE.allow(amount, address(this));
+        FHE.allow(amount, msg.sender);
+
+        scheduleId = ++scheduledDistributionCount;
+        _scheduledDistributions[scheduleId] = ScheduledDistribution(
+            token,
+            recipient,
+            msg.sender,
+            executeAfter,
+            false,
+            amount
+        );
+
+        emit DistributionScheduled(token, recipient, scheduleId, executeAfter);
+    }
+
+    /// @notice Credits a scheduled distribution to its recipient once it is due
+    /// @dev Anyone can call this, e.g. a keeper. Like `distributeTokens`, the amount is clamped to zero if the
+    /// deposits no longer cover it; the accepted flag is shared with the distributor that scheduled it, not the
+    /// caller.
+    /// @param scheduleId The ID returned by `scheduleDistribution`
+    function executeScheduledDistribution(uint256 scheduleId) external whenNotPaused {
+        ScheduledDistribution storage scheduled = _scheduledDistributions[scheduleId];
+        require(scheduled.token != address(0), "Unknown scheduled distribution");
+        require(!scheduled.executed, "Schedule already executed");
+        require(block.timestamp >= scheduled.executeAfter, "Schedule not yet due");
+        scheduled.executed = true;
+
+        _credit(scheduled.token, scheduled.recipient, scheduled.amount, scheduled.distributor);
+        _allowTotalDistributed(scheduled.token);
+        emit ScheduledDistributionExecuted(scheduled.token, scheduled.recipient, scheduleId);
+    }
+
+    /// @notice Cancels a scheduled distribution that has not been executed yet
+    /// @param scheduleId The ID returned by `scheduleDistribution`
+    function cancelScheduledDistribution(uint256 scheduleId) external onlyRole(DISTRIBUTOR_ROLE) {
+        ScheduledDistribution memory scheduled = _scheduledDistributions[scheduleId];
+        require(scheduled.token != address(0), "Unknown scheduled distribution");
+        require(!scheduled.executed, "Schedule already executed");
+        delete _scheduledDistributions[scheduleId];
+
+        emit ScheduledDistributionCanceled(scheduled.token, scheduled.recipient, scheduleId);
+    }
+
+    /// @notice Emergency withdraw tokens in case of issues
+    /// @dev Tokens sent to the contract without `depositTokens`, including tokens that are not supported, are
+    /// recovered first and paid out at once. A treasurer can only take back their own deposits, and only those no
+    /// recipient was allocated: the rest of the amount is taken off `totalDeposited` at once so that it backs no new
+    /// allocations, and whether the deposits left still cover the total distributed is sent to the decryption
+    /// oracle. `onEmergencyWithdrawalDecrypted` then pays it out or puts it back. Only that yes or no is revealed,
+    /// which is why an amount the unallocated funds do not cover is rejected as a whole rather than capped.
+    /// @param token The token to withdraw
+    /// @param amount The amount to withdraw, in token base units
+    /// @return requestId The decryption request ID, or zero if the amount was all stray tokens
+    function emergencyWithdraw(
+        address token,
+        uint256 amount
+    ) external onlyRole(TREASURER_ROLE) returns (uint256 requestId) {
+        uint256 balance = IERC20(token).balanceOf(address(this));
+        require(amount <= balance, "Amount exceeds balance");
+        uint256 tracked = _trackedBalance[token];
+        uint256 stray = balance > tracked ? balance - tracked : 0;
+        uint256 fromDeposits = amount > stray ? amount - stray : 0;
+        if (fromDeposits > 0) {
+            require(fromDeposits <= depositOf[token][msg.sender], "Amount exceeds own deposits");
+            // Wrapped tokens and those set aside for other emergency withdrawals cannot be paid out
+            require(fromDeposits + _reservedForEmergencyWithdrawals[token] <= tracked, "Amount exceeds deposits");
+        }
+
+        if (amount > fromDeposits) {
+            require(IERC20(token).transfer(msg.sender, amount - fromDeposits), "Transfer failed");
+            emit EmergencyWithdrawal(token, msg.sender, amount - fromDeposits, 0);
+        }
+        if (fromDeposits == 0) {
+            return 0;
+        }
+
+        // Withdrawn deposits can no longer back new allocations
+        uint256 deposited = totalDeposited[token];
+        totalDeposited[token] = fromDeposits >= deposited ? 0 : deposited - fromDeposits;
+        _reservedForEmergencyWithdrawals[token] += fromDeposits;
+        ebool covered = FHE.le(_totalDistributed[token], _depositedUnits(token));
+        FHE.allow(covered, address(this));
+
+        requestId = _requestDecryption(covered, this.onEmergencyWithdrawalDecrypted.selector);
+        _emergencyWithdrawals[requestId] = PendingEmergencyWithdrawal(token, msg.sender, fromDeposits);
+
+        emit EmergencyWithdrawalDecryptionRequested(token, msg.sender, requestId, fromDeposits);
+    }
+
+    /// @notice Decryption oracle callback that pays out or puts back an emergency withdrawal of deposits
+    /// @dev The deposits are paid out if the deposits left cover the total distributed and the treasurer still has
+    /// that much deposited. Otherwise, or if the token refuses the transfer, they are added back to
+    /// `totalDeposited`.
+    /// @param requestId The decryption request ID returned by `FHE.requestDecryption`
+    /// @param covered Whether the deposits left after the withdrawal cover the total distributed
+    /// @param signatures KMS signatures over the decryption result
+    function onEmergencyWithdrawalDecrypted(uint256 requestId, bool covered, bytes[] memory signatures) external {
+        PendingEmergencyWithdrawal memory pending = _emergencyWithdrawals[requestId];
+        require(pending.to != address(0), "Unknown decryption request");
+        FHE.checkSignatures(requestId, signatures);
+        delete _emergencyWithdrawals[requestId];
+
+        _reservedForEmergencyWithdrawals[pending.token] -= pending.amount;
+        if (
+            covered &&
+            pending.amount <= depositOf[pending.token][pending.to] &&
+            _tryTransferOut(pending.token, pending.to, pending.amount)
+        ) {
+            depositOf[pending.token][pending.to] -= pending.amount;
+            emit EmergencyWithdrawal(pending.token, pending.to, pending.amount, pending.amount);
+        } else {
+            totalDeposited[pending.token] += pending.amount;
+            emit EmergencyWithdrawalRejected(pending.token, pending.to, requestId);
+        }
+    }
+}
@@ -0,0 +1,47 @@
+import { vars } from "hardhat/config";
+
+export type DeployConfig = {
+  // Existing ERC20 to distribute. Without one, a MockERC20 is deployed, which is only allowed on local chains.
+  token?: string;
+  // Human-readable amount of the mock token minted to the deployer
+  mockMint?: string;
+  // Accounts to grant roles to after deployment, as addresses or named accounts
+  roles?: {
+    distributor?: string[];
+    treasurer?: string[];
+    pauser?: string[];
+    auditor?: string[];
+  };
+  // Human-readable amount the deployer deposits into a newly deployed distributor
+  initialDeposit?: string;
+  // Confidential token wrapping the token that withdrawals can pay out in, or "deploy" for the bundled
+  // ConfidentialToken, which is meant for local testing
+  confidentialToken?: string;
+  // Whether to verify the contracts with hardhat-verify (live networks only)
+  verify?: boolean;
+};
+
+const local: DeployConfig = {
+  mockMint: "10000",
+  initialDeposit: "1000",
+  confidentialToken: "deploy",
+};
+
+// Run 'npx hardhat vars set SEPOLIA_TOKEN_ADDRESS' to distribute an existing token on Sepolia
+const deployConfig: Record<string, DeployConfig> = {
+  hardhat: local,
+  localhost: local,
+  anvil: local,
+  sepolia: {
+    token: vars.get("SEPOLIA_TOKEN_ADDRESS", "") || undefined,
+    verify: true,
+  },
+};
+
+/**
+ * Returns the deployment settings of a network. Networks without an entry use no token, roles or funding, so
+ * they only deploy on local chains.
+ */
+export function getDeployConfig(network: string): DeployConfig {
+  return deployConfig[network] ?? {};
+}
@@ -1,28 +1,129 @@
 import { DeployFunction } from "hardhat-deploy/types";
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 
+import { getDeployConfig } from "../deploy.config";
+import { recordDeployment } from "../src/addresses";
+
+/**
+ * Deploys the PrivateTokenDistributor for the token configured for the network in `deploy.config.ts`, or for a
+ * freshly deployed MockERC20 on local chains. Then grants the configured roles, makes the initial deposit, enables
+ * confidential withdrawals, verifies the contracts on live networks and records the addresses in `addresses.json`.
+ */
 const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
-  const { deployer } = await hre.getNamedAccounts();
+  const { ethers, network } = hre;
+  const namedAccounts = await hre.getNamedAccounts();
+  const { deployer } = namedAccounts;
   const { deploy } = hre.deployments;
+  const config = getDeployConfig(network.name);
+  const { chainId } = await ethers.provider.getNetwork();
 
-  // First deploy the MockERC20 token
-  const deployedMockToken = await deploy("MockERC20", {
-    from: deployer,
-    args: ["Test Token", "TEST"],
-    log: true,
-  });
+  const record = (contract: string, address: string) => {
+    // The in-process network is thrown away after every run
+    if (network.name !== "hardhat") {
+      recordDeployment(network.name, Number(chainId), contract, address);
+    }
+  };
+
+  let tokenAddress = config.token;
+
+  if (tokenAddress === undefined) {
+    if (network.live) {
+      throw new Error(`No token configured for network "${network.name}" in deploy.config.ts`);
+    }
+    const deployedMockToken = await deploy("MockERC20", {
+      from: deployer,
+      args: ["Mock Token", "MTK"],
+      log: true,
+    });
+    tokenAddress = deployedMockToken.address;
+    record("MockERC20", tokenAddress);
 
-  console.log(`MockERC20 contract: `, deployedMockToken.address);
+    if (deployedMockToken.newlyDeployed && config.mockMint !== undefined) {
+      const mockToken = await ethers.getContractAt("MockERC20", tokenAddress);
+      await (await mockToken.mint(deployer, ethers.parseEther(config.mockMint))).wait();
+    }
+  }
 
-  // Then deploy the PrivateTokenDistributor with the token address
   const deployedPrivateTokenDistributor = await deploy("PrivateTokenDistributor", {
     from: deployer,
-    args: [deployedMockToken.address],
+    args: [tokenAddress],
     log: true,
   });
+  const distributorAddress = deployedPrivateTokenDistributor.address;
+  record("PrivateTokenDistributor", distributorAddress);
+
+  console.log(`PrivateTokenDistributor contract: `, distributorAddress);
+  console.log(`Token: `, tokenAddress);
+
+  const distributor = await ethers.getContractAt("PrivateTokenDistributor", distributorAddress);
+
+  // Roles are granted on every run, so accounts added to the config later are picked up by re-running the deploy
+  const roleIds = {
+    distributor: await distributor.DISTRIBUTOR_ROLE(),
+    treasurer: await distributor.TREASURER_ROLE(),
+    pauser: await distributor.PAUSER_ROLE(),
+    auditor: await distributor.AUDITOR_ROLE(),
+  };
+  const canGrant = (await distributor.owner()) === deployer;
+  for (const [role, accounts] of Object.entries(config.roles ?? {})) {
+    for (const account of accounts ?? []) {
+      const address = ethers.isAddress(account) ? account : namedAccounts[account];
+      if (address === undefined) {
+        throw new Error(`Unknown account "${account}" for the ${role} role in deploy.config.ts`);
+      }
+      const roleId = roleIds[role as keyof typeof roleIds];
+      if (await distributor.hasRole(roleId, address)) {
+        continue;
+      }
+      if (!canGrant) {
+        console.log(`Skipping ${role} role for ${address}: the deployer is no longer the owner`);
+        continue;
+      }
+      await (await distributor.grantRole(roleId, address)).wait();
+      console.log(`Granted ${role} role to ${address}`);
+    }
+  }
+
+  if (deployedPrivateTokenDistributor.newlyDeployed && config.initialDeposit !== undefined) {
+    const token = await ethers.getContractAt("IERC20Metadata", tokenAddress);
+    const amount = ethers.parseUnits(config.initialDeposit, await token.decimals());
+    await (await token.approve(distributorAddress, amount)).wait();
+    await (await distributor.depositTokens(tokenAddress, amount)).wait();
+    console.log(`Deposited ${config.initialDeposit} ${await token.symbol()}`);
+  }
+
+  let confidentialTokenAddress = config.confidentialToken;
+  if (confidentialTokenAddress === "deploy") {
+    const token = await ethers.getContractAt("IERC20Metadata", tokenAddress);
+    const deployedConfidentialToken = await deploy("ConfidentialToken", {
+      from: deployer,
+      args: [tokenAddress, `Confidential ${await token.name()}`, `c${await token.symbol()}`],
+      log: true,
+    });
+    confidentialTokenAddress = deployedConfidentialToken.address;
+    record("ConfidentialToken", confidentialTokenAddress);
+  }
+  if (
+    confidentialTokenAddress !== undefined &&
+    (await distributor.confidentialToken(tokenAddress)) !== confidentialTokenAddress
+  ) {
+    if (canGrant) {
+      await (await distributor.setConfidentialToken(tokenAddress, confidentialTokenAddress)).wait();
+      console.log(`Confidential withdrawals pay out in ${confidentialTokenAddress}`);
+    } else {
+      console.log("Skipping confidential withdrawals: the deployer is no longer the owner");
+    }
+  }
 
-  console.log(`PrivateTokenDistributor contract: `, deployedPrivateTokenDistributor.address);
+  if (network.live && config.verify) {
+    try {
+      await hre.run("verify:verify", { address: distributorAddress, constructorArguments: [tokenAddress] });
+    } catch (error) {
+      // Verification is best effort: a missing API key or an already verified contract must not fail the deploy
+      console.log(`Could not verify ${distributorAddress}: ${(error as Error).message}`);
+    }
+  }
 };
 export default func;
-func.id = "deploy_privateTokenDistributor"; // id required to prevent reexecution
-func.tags = ["PrivateTokenDistributor", "MockERC20"];
+// No id: the script re-runs on every deploy so that config changes such as new role members are applied
+func.tags = ["PrivateTokenDistributor", "MockERC20", "ConfidentialToken"];
@@ -0,0 +1,24 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { recordDeployment } from "../src/addresses";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy } = hre.deployments;
+
+  const deployedFHECounter = await deploy("FHECounter", {
+    from: deployer,
+    log: true,
+  });
+
+  console.log(`FHECounter contract: `, deployedFHECounter.address);
+
+  if (hre.network.name !== "hardhat") {
+    const { chainId } = await hre.ethers.provider.getNetwork();
+    recordDeployment(hre.network.name, Number(chainId), "FHECounter", deployedFHECounter.address);
+  }
+};
+export default func;
+func.id = "deploy_fheCounter"; // id required to prevent reexecution
+func.tags = ["FHECounter"];
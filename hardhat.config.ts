@@ -11,12 +11,30 @@ import "solidity-coverage";
 
 import "./tasks/accounts";
 import "./tasks/FHECounter";
+import "./tasks/privateTokenDistributor";
+import "./tasks/relayer";
+import "./tasks/scenario";
 
 // Run 'npx hardhat vars setup' to see the list of variables that need to be set
 
 const MNEMONIC: string = vars.get("MNEMONIC", "test test test test test test test test test test test junk");
 const INFURA_API_KEY: string = vars.get("INFURA_API_KEY", "zzzzzzzzzzzzzzzzzzzzzzzzzzzzzzzz");
 
+const compilerSettings = {
+  metadata: {
+    // Not including the metadata hash
+    // https://github.com/paulrberg/hardhat-template/issues/31
+    bytecodeHash: "none",
+  },
+  // Disable the optimizer when debugging
+  // https://hardhat.org/hardhat-network/#solidity-optimizer-support
+  optimizer: {
+    enabled: true,
+    runs: 200,
+  },
+  evmVersion: "cancun",
+};
+
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
   namedAccounts: {
@@ -46,6 +64,7 @@ const config: HardhatUserConfig = {
         count: 10,
       },
       chainId: 31337,
+      live: false,
       url: "http://localhost:8545",
     },
     sepolia: {
@@ -65,20 +84,19 @@ const config: HardhatUserConfig = {
     tests: "./test",
   },
   solidity: {
-    version: "0.8.24",
-    settings: {
-      metadata: {
-        // Not including the metadata hash
-        // https://github.com/paulrberg/hardhat-template/issues/31
-        bytecodeHash: "none",
+    compilers: [{ version: "0.8.24", settings: compilerSettings }],
+    overrides: {
+      // The IR pipeline, optimized for size, keeps the distributor under the 24 KiB contract size limit. It stays
+      // off elsewhere because Hardhat cannot infer revert reasons from IR-compiled contracts. The extension the
+      // distributor deploys is compiled the same way, so its artifact matches the deployed code.
+      "contracts/PrivateTokenDistributor.sol": {
+        version: "0.8.24",
+        settings: { ...compilerSettings, optimizer: { enabled: true, runs: 1 }, viaIR: true },
       },
-      // Disable the optimizer when debugging
-      // https://hardhat.org/hardhat-network/#solidity-optimizer-support
-      optimizer: {
-        enabled: true,
-        runs: 800,
+      "contracts/PrivateTokenDistributorExtension.sol": {
+        version: "0.8.24",
+        settings: { ...compilerSettings, optimizer: { enabled: true, runs: 1 }, viaIR: true },
       },
-      evmVersion: "cancun",
     },
   },
   typechain: {
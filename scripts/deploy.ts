@@ -1,37 +1,22 @@
-import { ethers } from "hardhat";
-import { PrivateTokenDistributor, MockERC20 } from "../types";
+import hre from "hardhat";
 
-async function main() {
-  // Get signers
-  const [deployer] = await ethers.getSigners();
+import { resolveDeployedAddress } from "../src/addresses";
 
-  // Deploy contracts first
+async function main() {
+  // Runs the same pipeline as `npx hardhat deploy`, driven by the network's entry in deploy.config.ts
   console.log("=== Deploying Contracts ===");
+  await hre.run("deploy", { tags: "PrivateTokenDistributor" });
 
-  // Deploy MockERC20
-  const MockTokenFactory = await ethers.getContractFactory("MockERC20");
-  const mockToken = (await MockTokenFactory.deploy("Private Token", "PRIV")) as MockERC20;
-  await mockToken.waitForDeployment();
-  const mockTokenAddress = await mockToken.getAddress();
-  console.log(`MockERC20 deployed to: ${mockTokenAddress}`);
-
-  // Deploy PrivateTokenDistributor
-  const DistributorFactory = await ethers.getContractFactory("PrivateTokenDistributor");
-  const distributor = (await DistributorFactory.deploy(mockTokenAddress)) as PrivateTokenDistributor;
-  await distributor.waitForDeployment();
-  const distributorAddress = await distributor.getAddress();
-  console.log(`PrivateTokenDistributor deployed to: ${distributorAddress}`);
+  const addresses = {
+    token: await resolveDeployedAddress(hre, "MockERC20"),
+    distributor: await resolveDeployedAddress(hre, "PrivateTokenDistributor"),
+  };
 
   console.log("\n=== Setup Complete ===");
-  console.log(`To interact with your contracts, update the addresses in scripts/interact.ts:`);
-  console.log(`MOCK_TOKEN_ADDRESS = "${mockTokenAddress}"`);
-  console.log(`DISTRIBUTOR_ADDRESS = "${distributorAddress}"`);
-  console.log(`\nThen run: npx hardhat run scripts/interact.ts --network localhost`);
+  console.log("Addresses are recorded in addresses.json, where the tasks and scripts/interact.ts read them.");
+  console.log(`\nNext run: npx hardhat run scripts/interact.ts --network ${hre.network.name}`);
 
-  return {
-    mockToken: mockTokenAddress,
-    distributor: distributorAddress,
-  };
+  return addresses;
 }
 
 main()
@@ -1,23 +1,28 @@
-import { ethers, fhevm } from "hardhat";
-import { PrivateTokenDistributor, MockERC20 } from "../types";
+import hre, { ethers, fhevm } from "hardhat";
+
+import { resolveDeployedAddress } from "../src/addresses";
+import { PrivateTokenDistributorClient } from "../src/client";
 
 async function main() {
+  if (hre.network.name !== "hardhat") {
+    await fhevm.initializeCLIApi();
+  }
+
   // Get signers
   const [deployer, alice, bob] = await ethers.getSigners();
 
-  console.log("=== Deploying Contracts ===");
+  // Use the contracts recorded by the deploy pipeline, deploying them first on a fresh chain
+  let distributorAddress = await resolveDeployedAddress(hre, "PrivateTokenDistributor");
+  if (distributorAddress === undefined) {
+    console.log("=== Deploying Contracts ===");
+    await hre.run("deploy", { tags: "PrivateTokenDistributor" });
+    distributorAddress = (await resolveDeployedAddress(hre, "PrivateTokenDistributor"))!;
+  }
+  const distributor = await ethers.getContractAt("PrivateTokenDistributor", distributorAddress);
 
-  // Deploy MockERC20
-  const MockTokenFactory = await ethers.getContractFactory("MockERC20");
-  const mockToken = (await MockTokenFactory.deploy("Mock Token", "MTK")) as unknown as MockERC20;
-  const mockTokenAddress = await mockToken.getAddress();
-  console.log(`MockToken deployed at: ${mockTokenAddress}`);
-
-  // Deploy PrivateTokenDistributor
-  const DistributorFactory = await ethers.getContractFactory("PrivateTokenDistributor");
-  const distributor = (await DistributorFactory.deploy(mockTokenAddress)) as unknown as PrivateTokenDistributor;
-  const distributorAddress = await distributor.getAddress();
-  console.log(`PrivateTokenDistributor deployed at: ${distributorAddress}`);
+  // The demo mints, so it needs the mock token that local deployments distribute
+  const mockTokenAddress = (await distributor.getTokens())[0];
+  const mockToken = await ethers.getContractAt("MockERC20", mockTokenAddress);
 
   console.log("=== Contract Interaction Demo ===");
   console.log(`MockToken: ${mockTokenAddress}`);
@@ -40,81 +45,57 @@ async function main() {
 
   // 3. Deposit tokens into distributor
   console.log("\n3. Depositing tokens...");
-  await distributor.depositTokens(ethers.parseEther("200"));
+  await distributor.depositTokens(mockTokenAddress, ethers.parseEther("200"));
   const contractBalance = await mockToken.balanceOf(distributorAddress);
   console.log(`Distributor contract balance: ${ethers.formatEther(contractBalance)} tokens`);
 
   // 4. Distribute encrypted tokens to Alice
   console.log("\n4. Distributing encrypted tokens to Alice...");
-  const aliceAmount = 50; // 50 tokens for Alice
-
-  const encryptedAliceAmount = await fhevm
-    .createEncryptedInput(distributorAddress, deployer.address)
-    .add32(aliceAmount)
-    .encrypt();
+  // Amounts are human-readable token amounts; the client converts them to encrypted units
+  const client = new PrivateTokenDistributorClient(distributor, deployer, fhevm);
+  const aliceClient = client.connect(alice);
+  const bobClient = client.connect(bob);
 
-  await distributor.distributeTokens(alice.address, encryptedAliceAmount.handles[0], encryptedAliceAmount.inputProof);
-  console.log(`Distributed ${aliceAmount} encrypted tokens to Alice`);
+  const { amount: aliceAmount } = await client.distribute(mockTokenAddress, alice.address, "50");
+  console.log(`Distributed ${await client.formatAmount(mockTokenAddress, aliceAmount)} encrypted to Alice`);
 
   // 5. Alice checks her encrypted balance
   console.log("\n5. Alice checking her encrypted balance...");
-  const aliceEncryptedBalance = await distributor.connect(alice).getMyBalance();
+  const aliceEncryptedBalance = await aliceClient.distributor.getMyBalance(mockTokenAddress);
   console.log(`Alice's encrypted balance handle: ${aliceEncryptedBalance}`);
 
   // 6. Alice decrypts her balance
   console.log("\n6. Alice decrypting her balance...");
-  const { FhevmType } = await import("@fhevm/hardhat-plugin");
-  const aliceDecryptedBalance = await fhevm.userDecryptEuint(
-    FhevmType.euint32,
-    aliceEncryptedBalance,
-    distributorAddress,
-    alice as any,
-  );
-  console.log(`Alice's decrypted balance: ${aliceDecryptedBalance} tokens`);
+  const aliceBalance = await aliceClient.getDecryptedBalance(mockTokenAddress);
+  console.log(`Alice's decrypted balance: ${await client.formatAmount(mockTokenAddress, aliceBalance)}`);
 
   // 7. Batch distribute to multiple recipients
   console.log("\n7. Batch distributing to Bob and Charlie...");
-  const bobAmount = 30;
-  const charlieAmount = 20;
-
-  const encryptedBobAmount = await fhevm
-    .createEncryptedInput(distributorAddress, deployer.address)
-    .add32(bobAmount)
-    .encrypt();
-
-  const encryptedCharlieAmount = await fhevm
-    .createEncryptedInput(distributorAddress, deployer.address)
-    .add32(charlieAmount)
-    .encrypt();
-
   // For this example, we'll use bob's address for charlie too (you can create another signer)
-  await distributor.batchDistributeTokens(
-    [bob.address, bob.address], // Using bob twice for simplicity
-    [encryptedBobAmount.handles[0], encryptedCharlieAmount.handles[0]],
-    [encryptedBobAmount.inputProof, encryptedCharlieAmount.inputProof],
-  );
-  console.log(`Batch distributed ${bobAmount} and ${charlieAmount} tokens`);
+  await client.batchDistribute(mockTokenAddress, [
+    { recipient: bob.address, amount: "30" },
+    { recipient: bob.address, amount: "20" },
+  ]);
+  console.log("Batch distributed 30 and 20 tokens");
 
   // 8. Bob checks and decrypts his balance
   console.log("\n8. Bob checking his balance...");
-  const bobEncryptedBalance = await distributor.connect(bob).getMyBalance();
-  const bobDecryptedBalance = await fhevm.userDecryptEuint(
-    FhevmType.euint32,
-    bobEncryptedBalance,
-    distributorAddress,
-    bob as any,
-  );
-  console.log(`Bob's decrypted balance: ${bobDecryptedBalance} tokens`);
+  const bobBalance = await bobClient.getDecryptedBalance(mockTokenAddress);
+  console.log(`Bob's decrypted balance: ${await client.formatAmount(mockTokenAddress, bobBalance)}`);
 
   // 9. Alice requests withdrawal
   console.log("\n9. Alice requesting withdrawal...");
-  await distributor.connect(alice).requestWithdrawal(aliceAmount);
-
-  const [requestAmount, requestTime] = await distributor.getWithdrawalRequest(alice.address);
-  console.log(`Alice's withdrawal request: ${requestAmount} tokens at timestamp ${requestTime}`);
+  const { withdrawalId, amount, unlockTime } = await aliceClient.requestWithdrawal(mockTokenAddress, aliceAmount);
+  console.log(
+    `Alice's withdrawal request #${withdrawalId}: ${await client.formatAmount(mockTokenAddress, amount)}, ` +
+      `unlocks at timestamp ${unlockTime}`,
+  );
 
   console.log("\n=== Demo Complete ===");
-  console.log("To complete the withdrawal, wait for the delay period and call completeWithdrawal()");
+  console.log(
+    `To complete the withdrawal once it unlocks, run: ` +
+      `npx hardhat complete-withdrawal --id ${withdrawalId} --signer 1 --wait --network ${hre.network.name}`,
+  );
 }
 
 main()
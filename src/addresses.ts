@@ -0,0 +1,62 @@
+import fs from "fs";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import path from "path";
+
+// Written by the deploy scripts and read by the tasks and scripts; commit the entries of live networks
+export const ADDRESSES_PATH = path.join(__dirname, "..", "addresses.json");
+
+export type NetworkAddresses = {
+  chainId: number;
+  // Deployed contract addresses by contract name, e.g. `PrivateTokenDistributor`
+  contracts: Record<string, string>;
+};
+
+export type AddressBook = Record<string, NetworkAddresses>;
+
+export function loadAddresses(addressesPath = ADDRESSES_PATH): AddressBook {
+  if (!fs.existsSync(addressesPath)) {
+    return {};
+  }
+  return JSON.parse(fs.readFileSync(addressesPath, "utf8"));
+}
+
+/**
+ * Returns the recorded address of a contract on a network, or undefined if it was never deployed there.
+ */
+export function getDeployedAddress(network: string, contract: string, addressesPath = ADDRESSES_PATH) {
+  return loadAddresses(addressesPath)[network]?.contracts[contract];
+}
+
+/**
+ * Records a deployed contract address, replacing the network's entry if the chain id changed (e.g. a different
+ * node behind the same network name).
+ */
+export function recordDeployment(
+  network: string,
+  chainId: number,
+  contract: string,
+  address: string,
+  addressesPath = ADDRESSES_PATH,
+) {
+  const addresses = loadAddresses(addressesPath);
+  if (addresses[network]?.chainId !== chainId) {
+    addresses[network] = { chainId, contracts: {} };
+  }
+  addresses[network].contracts[contract] = address;
+  // Write to a temporary file first so an interrupted run never leaves a truncated file
+  fs.writeFileSync(`${addressesPath}.tmp`, JSON.stringify(addresses, null, 2) + "\n");
+  fs.renameSync(`${addressesPath}.tmp`, addressesPath);
+}
+
+/**
+ * Resolves a contract deployed on the current network, preferring the local hardhat-deploy deployment and falling
+ * back to the address book, which also covers fresh clones without a `deployments/` folder.
+ */
+export async function resolveDeployedAddress(
+  hre: HardhatRuntimeEnvironment,
+  contract: string,
+  addressesPath = ADDRESSES_PATH,
+): Promise<string | undefined> {
+  const deployment = await hre.deployments.getOrNull(contract);
+  return deployment?.address ?? getDeployedAddress(hre.network.name, contract, addressesPath);
+}
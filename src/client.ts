@@ -0,0 +1,759 @@
+import type { HardhatFhevmRuntimeEnvironment } from "@fhevm/hardhat-plugin";
+import {
+  type ContractTransaction,
+  type ContractTransactionReceipt,
+  type EventLog,
+  type Signer,
+  Contract,
+  ZeroAddress,
+  ZeroHash,
+  formatUnits,
+  getAddress,
+  isAddress,
+  parseUnits,
+} from "ethers";
+
+import type { PrivateTokenDistributor } from "../types";
+
+export const MAX_UINT64 = 2n ** 64n - 1n;
+// An encrypted input can pack at most 2048 bits, i.e. 32 euint64 amounts behind one proof
+export const MAX_PACKED_AMOUNTS = 2048 / 64;
+
+export type TokenUnits = {
+  symbol: string;
+  decimals: number;
+  // Token base units per encrypted unit
+  rate: bigint;
+};
+
+// The functions of the bundled ConfidentialToken the client uses; encrypted values are bytes32 handles in the ABI
+const CONFIDENTIAL_TOKEN_ABI = [
+  "function confidentialBalanceOf(address account) view returns (bytes32)",
+  "function wrap(address to, uint256 amount)",
+  "function unwrap(address from, address to, bytes32 encryptedAmount, bytes inputProof)",
+  "event UnwrapRequested(address indexed receiver, uint256 indexed requestId, bytes32 amount)",
+  "event UnwrapFinalized(address indexed receiver, uint256 indexed requestId, uint64 amount)",
+];
+
+// A human-readable token amount such as "12.5", or a bigint already in encrypted units
+export type Amount = string | bigint;
+
+export type Allocation = {
+  recipient: string;
+  amount: Amount;
+};
+
+// Any signer whose address is known without a round trip, e.g. a Hardhat signer or an ethers `Wallet`
+export type DistributorSigner = Signer & { address: string };
+
+export type WithdrawalRequest = {
+  withdrawalId: bigint;
+  token: string;
+  recipient: string;
+  // Requested amount in encrypted units; the payout is zero if the balance did not cover it
+  amount: bigint;
+  requestTime: bigint;
+  unlockTime: bigint;
+  // Whether the payout is waiting on the decryption oracle
+  decrypting: boolean;
+};
+
+export type ScheduledDistribution = {
+  scheduleId: bigint;
+  token: string;
+  recipient: string;
+  // Timestamp from which anyone can execute the distribution
+  executeAfter: bigint;
+  executed: boolean;
+};
+
+export type WithdrawalAction = "request" | "complete" | "cancel";
+
+/**
+ * A withdrawal action a recipient signed for a relayer to submit. Requests carry the token and amount in encrypted
+ * units; completions and cancellations the ID of the recipient's pending request.
+ */
+export type SignedWithdrawalAction = {
+  action: WithdrawalAction;
+  recipient: string;
+  token?: string;
+  amount?: bigint;
+  withdrawalId?: bigint;
+  nonce: bigint;
+  // Timestamp after which the signature can no longer be used
+  deadline: bigint;
+  signature: string;
+};
+
+export type SignOptions = {
+  // Defaults to the signer's next withdrawal nonce; set it to sign several actions ahead
+  nonce?: bigint;
+  // Defaults to `DEFAULT_SIGNATURE_LIFETIME` seconds after the latest block
+  deadline?: bigint | number;
+};
+
+// Seconds a withdrawal signature stays valid unless a deadline is given
+export const DEFAULT_SIGNATURE_LIFETIME = 3600;
+
+// EIP-712 types of the withdrawal actions, matching the type hashes of `PrivateTokenDistributor`
+export const WITHDRAWAL_ACTION_TYPES = {
+  request: {
+    RequestWithdrawal: [
+      { name: "token", type: "address" },
+      { name: "recipient", type: "address" },
+      { name: "amount", type: "uint64" },
+      { name: "nonce", type: "uint256" },
+      { name: "deadline", type: "uint256" },
+    ],
+  },
+  complete: {
+    CompleteWithdrawal: [
+      { name: "recipient", type: "address" },
+      { name: "withdrawalId", type: "uint256" },
+      { name: "nonce", type: "uint256" },
+      { name: "deadline", type: "uint256" },
+    ],
+  },
+  cancel: {
+    CancelWithdrawal: [
+      { name: "recipient", type: "address" },
+      { name: "withdrawalId", type: "uint256" },
+      { name: "nonce", type: "uint256" },
+      { name: "deadline", type: "uint256" },
+    ],
+  },
+};
+
+export type WaitOptions = {
+  // Milliseconds between two reads of the latest block (defaults to 5 seconds)
+  pollInterval?: number;
+  // Milliseconds after which to give up (defaults to waiting as long as it takes)
+  timeout?: number;
+};
+
+/**
+ * Base class of the errors thrown by the client, so callers can tell them apart from network failures.
+ */
+export class DistributorError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+export class UnsupportedTokenError extends DistributorError {
+  constructor(
+    readonly token: string,
+    distributor: string,
+  ) {
+    super(`Distributor ${distributor} does not support token ${token}`);
+  }
+}
+
+export class InvalidAmountError extends DistributorError {
+  constructor(
+    readonly amount: Amount,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+export class WithdrawalLimitError extends DistributorError {
+  constructor(
+    readonly amount: bigint,
+    readonly minAmount: bigint,
+    readonly maxAmount: bigint,
+    units: TokenUnits,
+  ) {
+    super(
+      `Withdrawals must be between ${formatTokenAmount(minAmount, units)} and ${formatTokenAmount(maxAmount, units)}`,
+    );
+  }
+}
+
+export class WithdrawalNotFoundError extends DistributorError {
+  constructor(
+    readonly withdrawalId: bigint,
+    account: string,
+  ) {
+    super(`Withdrawal ${withdrawalId} is not a pending request of ${account}`);
+  }
+}
+
+export class WithdrawalLockedError extends DistributorError {
+  constructor(
+    readonly withdrawalId: bigint,
+    readonly unlockTime: bigint,
+  ) {
+    super(`Withdrawal ${withdrawalId} is locked until ${new Date(Number(unlockTime) * 1000).toISOString()}`);
+  }
+}
+
+export class DecryptionError extends DistributorError {
+  constructor(
+    readonly handle: string,
+    account: string,
+    options?: ErrorOptions,
+  ) {
+    super(`${account} cannot decrypt handle ${handle}`, options);
+  }
+}
+
+/**
+ * A transaction the contract rejected, with the `require` message it reverted with.
+ */
+export class TransactionRevertedError extends DistributorError {
+  constructor(
+    readonly reason: string,
+    options?: ErrorOptions,
+  ) {
+    super(`Transaction reverted: ${reason}`, options);
+  }
+}
+
+/**
+ * Converts a human-readable amount such as "12.5" into encrypted units. Throws if the amount is not a positive
+ * number, has more decimals than the distributor can represent, or does not fit in a euint64.
+ */
+export function parseTokenAmount(amount: string, units: TokenUnits): bigint {
+  let baseUnits: bigint;
+  try {
+    baseUnits = parseUnits(String(amount).trim(), units.decimals);
+  } catch {
+    throw new InvalidAmountError(amount, `Invalid amount "${amount}"`);
+  }
+  if (baseUnits <= 0n) {
+    throw new InvalidAmountError(amount, `Amount "${amount}" must be greater than 0`);
+  }
+  if (baseUnits % units.rate !== 0n) {
+    throw new InvalidAmountError(amount, `Amount "${amount}" has more decimals than the distributor supports`);
+  }
+  const encryptedUnits = baseUnits / units.rate;
+  if (encryptedUnits > MAX_UINT64) {
+    throw new InvalidAmountError(
+      amount,
+      `Amount "${amount}" exceeds the maximum of ${formatTokenAmount(MAX_UINT64, units)}`,
+    );
+  }
+  return encryptedUnits;
+}
+
+export function formatTokenAmount(encryptedUnits: bigint, units: TokenUnits): string {
+  return `${formatUnits(encryptedUnits * units.rate, units.decimals)} ${units.symbol}`;
+}
+
+/**
+ * Wraps a PrivateTokenDistributor for one signer. It encrypts inputs for the account that sends them, converts
+ * between token amounts and encrypted units, decrypts results and turns reverts into typed errors.
+ *
+ * Amounts are either human-readable strings in the token's units (`"12.5"`) or bigints in encrypted units.
+ */
+export class PrivateTokenDistributorClient {
+  readonly distributor: PrivateTokenDistributor;
+  readonly address: string;
+  readonly account: string;
+  private readonly units = new Map<string, TokenUnits>();
+
+  constructor(
+    distributor: PrivateTokenDistributor,
+    readonly signer: DistributorSigner,
+    private readonly fhevm: HardhatFhevmRuntimeEnvironment,
+  ) {
+    this.distributor = distributor.connect(signer);
+    this.address = getAddress(distributor.target as string);
+    this.account = signer.address;
+  }
+
+  /**
+   * Returns a client for the same distributor that sends from another signer.
+   */
+  connect(signer: DistributorSigner): PrivateTokenDistributorClient {
+    return new PrivateTokenDistributorClient(this.distributor, signer, this.fhevm);
+  }
+
+  /**
+   * Reads a token's symbol, decimals and conversion rate once per client. Throws `UnsupportedTokenError` if the
+   * distributor does not support the token.
+   */
+  async getTokenUnits(token: string): Promise<TokenUnits> {
+    if (!isAddress(token)) {
+      throw new DistributorError(`Invalid token address "${token}"`);
+    }
+    const cached = this.units.get(token.toLowerCase());
+    if (cached !== undefined) {
+      return cached;
+    }
+    const rate = await this.distributor.rate(token);
+    if (rate === 0n) {
+      throw new UnsupportedTokenError(token, this.address);
+    }
+    const metadata = new Contract(
+      token,
+      ["function symbol() view returns (string)", "function decimals() view returns (uint8)"],
+      this.signer,
+    );
+    const [symbol, decimals] = await Promise.all([metadata.symbol(), metadata.decimals()]);
+    const units = { symbol, decimals: Number(decimals), rate };
+    this.units.set(token.toLowerCase(), units);
+    return units;
+  }
+
+  /**
+   * Converts an amount to encrypted units, validating bigints against the euint64 range.
+   */
+  async toEncryptedUnits(token: string, amount: Amount): Promise<bigint> {
+    if (typeof amount === "string") {
+      return parseTokenAmount(amount, await this.getTokenUnits(token));
+    }
+    if (amount <= 0n || amount > MAX_UINT64) {
+      throw new InvalidAmountError(amount, `Amount ${amount} must be between 1 and 2^64 - 1 encrypted units`);
+    }
+    return amount;
+  }
+
+  async formatAmount(token: string, encryptedUnits: bigint): Promise<string> {
+    return formatTokenAmount(encryptedUnits, await this.getTokenUnits(token));
+  }
+
+  /**
+   * Packs amounts into one encrypted input for the distributor. The input can only be used in a transaction sent
+   * by `user`, which defaults to the client's signer.
+   */
+  async encryptAmounts(amounts: bigint[], user = this.account) {
+    if (amounts.length === 0 || amounts.length > MAX_PACKED_AMOUNTS) {
+      throw new DistributorError(`An encrypted input holds 1 to ${MAX_PACKED_AMOUNTS} amounts, got ${amounts.length}`);
+    }
+    const input = this.fhevm.createEncryptedInput(this.address, user);
+    amounts.forEach((amount) => input.add64(amount));
+    return input.encrypt();
+  }
+
+  /**
+   * Allocates an encrypted amount to a recipient. The allocation is clamped to zero when the deposits do not cover
+   * it, which `accepted` reports.
+   */
+  async distribute(token: string, recipient: string, amount: Amount) {
+    const encryptedUnits = await this.toEncryptedUnits(token, amount);
+    const { handles, inputProof } = await this.encryptAmounts([encryptedUnits]);
+    const { transaction } = await this.send(() =>
+      this.distributor.distributeTokens(token, recipient, handles[0], inputProof),
+    );
+
+    const accepted = await this.fhevm.userDecryptEbool(
+      await this.distributor.getAllocationAccepted(token, recipient),
+      this.address,
+      this.signer,
+    );
+    return { token, recipient, amount: encryptedUnits, accepted, transaction };
+  }
+
+  /**
+   * Encrypts up to `MAX_PACKED_AMOUNTS` allocations into one input and returns the unsent batch transaction, so
+   * callers can estimate or journal it before sending it with the client's signer.
+   */
+  async prepareBatchDistribution(token: string, allocations: Allocation[]): Promise<ContractTransaction> {
+    const amounts = await Promise.all(allocations.map(({ amount }) => this.toEncryptedUnits(token, amount)));
+    const { handles, inputProof } = await this.encryptAmounts(amounts);
+    return this.distributor.batchDistributeTokensPacked.populateTransaction(
+      token,
+      allocations.map(({ recipient }) => recipient),
+      handles,
+      inputProof,
+    );
+  }
+
+  /**
+   * Distributes to every allocation in packed transactions of at most `MAX_PACKED_AMOUNTS` amounts. A chunk whose
+   * gas estimate fails without a revert reason, e.g. because it exceeds the per-transaction FHE computation limit,
+   * is halved and retried.
+   */
+  async batchDistribute(token: string, allocations: Allocation[]) {
+    const transactions: string[] = [];
+    let chunkSize = MAX_PACKED_AMOUNTS;
+    for (let start = 0; start < allocations.length; ) {
+      const chunk = allocations.slice(start, start + chunkSize);
+      const transaction = await this.prepareBatchDistribution(token, chunk);
+      try {
+        await this.signer.estimateGas(transaction);
+      } catch (error) {
+        if (chunk.length === 1 || getRevertReason(error) !== undefined) {
+          throw toDistributorError(error);
+        }
+        chunkSize = Math.ceil(chunk.length / 2);
+        continue;
+      }
+      transactions.push((await this.send(() => this.signer.sendTransaction(transaction))).transaction);
+      start += chunk.length;
+    }
+    return { token, recipients: allocations.length, transactions };
+  }
+
+  /**
+   * Queues an encrypted allocation that anyone can execute from `executeAfter` on. The deposits are only checked
+   * when it is executed.
+   */
+  async scheduleDistribution(token: string, recipient: string, amount: Amount, executeAfter: bigint | number) {
+    const encryptedUnits = await this.toEncryptedUnits(token, amount);
+    const { handles, inputProof } = await this.encryptAmounts([encryptedUnits]);
+    const { receipt, transaction } = await this.send(() =>
+      this.distributor.scheduleDistribution(token, recipient, handles[0], inputProof, executeAfter),
+    );
+    const event = receipt.logs
+      .map((entry) => this.distributor.interface.parseLog(entry))
+      .find((parsed) => parsed?.name === "DistributionScheduled");
+    const scheduleId = event!.args.scheduleId as bigint;
+    return { token, recipient, scheduleId, amount: encryptedUnits, executeAfter: BigInt(executeAfter), transaction };
+  }
+
+  /**
+   * Reads a scheduled distribution, or returns null if the ID is unknown or the distribution was cancelled.
+   */
+  async getScheduledDistribution(scheduleId: bigint | number): Promise<ScheduledDistribution | null> {
+    const [token, recipient, executeAfter, executed] = await this.distributor.getScheduledDistribution(scheduleId);
+    if (token === ZeroAddress) {
+      return null;
+    }
+    return { scheduleId: BigInt(scheduleId), token, recipient, executeAfter, executed };
+  }
+
+  /**
+   * Credits a due scheduled distribution to its recipient. Any signer can execute it.
+   */
+  async executeScheduledDistribution(scheduleId: bigint | number) {
+    const { receipt, transaction } = await this.send(() => this.distributor.executeScheduledDistribution(scheduleId));
+    return { scheduleId: BigInt(scheduleId), gasUsed: receipt.gasUsed, transaction };
+  }
+
+  /**
+   * Decrypts an account's balance in encrypted units. Another account's balance is read through the audited view,
+   * so the signer must hold the auditor role and the owner must have shared the balance.
+   */
+  async getDecryptedBalance(token: string, account = this.account): Promise<bigint> {
+    const handle =
+      account.toLowerCase() === this.account.toLowerCase()
+        ? await this.distributor.getMyBalance(token)
+        : await this.distributor.getAuditedBalance(token, account);
+    return this.decrypt(handle);
+  }
+
+  /**
+   * Decrypts a euint64 handle the signer has access to. The zero handle of an untouched value decrypts to 0.
+   * Handles created by another contract, such as the confidential token, are decrypted through that contract.
+   */
+  async decrypt(handle: string, contract = this.address): Promise<bigint> {
+    if (handle === ZeroHash) {
+      return 0n;
+    }
+    const { FhevmType } = await import("@fhevm/hardhat-plugin");
+    try {
+      return await this.fhevm.userDecryptEuint(FhevmType.euint64, handle, contract, this.signer);
+    } catch (error) {
+      throw new DecryptionError(handle, this.account, { cause: error });
+    }
+  }
+
+  /**
+   * Requests a withdrawal and returns its ID. The amount is debited only if the encrypted balance covers it;
+   * otherwise the request pays out nothing. Throws `WithdrawalLimitError` outside the token's withdrawal policy.
+   */
+  async requestWithdrawal(token: string, amount: Amount) {
+    const encryptedUnits = await this.toEncryptedUnits(token, amount);
+    const [, minAmount, maxAmount] = await this.distributor.withdrawalPolicy(token);
+    if (encryptedUnits < minAmount || encryptedUnits > maxAmount) {
+      throw new WithdrawalLimitError(encryptedUnits, minAmount, maxAmount, await this.getTokenUnits(token));
+    }
+
+    const { receipt, transaction } = await this.send(() => this.distributor.requestWithdrawal(token, encryptedUnits));
+    const event = receipt.logs
+      .map((entry) => this.distributor.interface.parseLog(entry))
+      .find((parsed) => parsed?.name === "WithdrawalInitiated");
+    const withdrawalId = event!.args.withdrawalId as bigint;
+    const { unlockTime } = (await this.getWithdrawal(withdrawalId))!;
+    return { token, withdrawalId, amount: encryptedUnits, unlockTime, transaction };
+  }
+
+  /**
+   * Reads a pending withdrawal request, or returns null once it has been completed or cancelled.
+   */
+  async getWithdrawal(withdrawalId: bigint | number): Promise<WithdrawalRequest | null> {
+    const [token, recipient, amount, requestTime, unlockTime, decrypting] =
+      await this.distributor.getWithdrawalRequest(withdrawalId);
+    if (recipient === ZeroAddress) {
+      return null;
+    }
+    return { withdrawalId: BigInt(withdrawalId), token, recipient, amount, requestTime, unlockTime, decrypting };
+  }
+
+  /**
+   * Resolves once the latest block is past the request's unlock time, polling the chain. Throws
+   * `WithdrawalLockedError` if the timeout passes first.
+   */
+  async waitUntilWithdrawable(withdrawalId: bigint | number, options: WaitOptions = {}): Promise<WithdrawalRequest> {
+    const { pollInterval = 5000, timeout = Infinity } = options;
+    const request = await this.getOwnWithdrawal(withdrawalId);
+    const deadline = Date.now() + timeout;
+
+    for (;;) {
+      const latest = await this.signer.provider!.getBlock("latest");
+      if (BigInt(latest!.timestamp) >= request.unlockTime) {
+        return request;
+      }
+      if (Date.now() + pollInterval > deadline) {
+        throw new WithdrawalLockedError(request.withdrawalId, request.unlockTime);
+      }
+      await new Promise((resolve) => setTimeout(resolve, pollInterval));
+    }
+  }
+
+  /**
+   * Hands an unlocked request to the decryption oracle, which pays out the debited amount. On the mock network the
+   * oracle is driven here and `completed` reports whether the payout went through; elsewhere it is null.
+   */
+  async completeWithdrawal(withdrawalId: bigint | number) {
+    const request = await this.getOwnWithdrawal(withdrawalId);
+    let transaction: string;
+    try {
+      ({ transaction } = await this.send(() => this.distributor.completeWithdrawal(withdrawalId)));
+    } catch (error) {
+      if (error instanceof TransactionRevertedError && error.reason === "Withdrawal delay not yet passed") {
+        throw new WithdrawalLockedError(request.withdrawalId, request.unlockTime);
+      }
+      throw error;
+    }
+
+    let completed: boolean | null = null;
+    if (this.fhevm.isMock) {
+      // On the mock network the oracle has to be driven manually
+      await this.fhevm.awaitDecryptionOracle();
+      completed = (await this.getWithdrawal(withdrawalId)) === null;
+    }
+    return { withdrawalId: request.withdrawalId, completed, transaction };
+  }
+
+  /**
+   * Cancels a request that has not been handed to the oracle yet, restoring the debited amount.
+   */
+  async cancelWithdrawal(withdrawalId: bigint | number) {
+    const request = await this.getOwnWithdrawal(withdrawalId);
+    const { transaction } = await this.send(() => this.distributor.cancelWithdrawal(withdrawalId));
+    return { withdrawalId: request.withdrawalId, transaction };
+  }
+
+  /**
+   * Signs a withdrawal request that a relayer can submit, so the signer needs no ETH. Throws
+   * `WithdrawalLimitError` outside the token's withdrawal policy.
+   */
+  async signWithdrawalRequest(token: string, amount: Amount, options: SignOptions = {}) {
+    const encryptedUnits = await this.toEncryptedUnits(token, amount);
+    const [, minAmount, maxAmount] = await this.distributor.withdrawalPolicy(token);
+    if (encryptedUnits < minAmount || encryptedUnits > maxAmount) {
+      throw new WithdrawalLimitError(encryptedUnits, minAmount, maxAmount, await this.getTokenUnits(token));
+    }
+    return this.signWithdrawalAction({ action: "request", token, amount: encryptedUnits }, options);
+  }
+
+  /**
+   * Signs the completion of one of the signer's pending requests for a relayer to submit. The payout still goes to
+   * the signer.
+   */
+  async signCompleteWithdrawal(withdrawalId: bigint | number, options: SignOptions = {}) {
+    const request = await this.getOwnWithdrawal(withdrawalId);
+    return this.signWithdrawalAction({ action: "complete", withdrawalId: request.withdrawalId }, options);
+  }
+
+  /**
+   * Signs the cancellation of one of the signer's pending requests for a relayer to submit.
+   */
+  async signCancelWithdrawal(withdrawalId: bigint | number, options: SignOptions = {}) {
+    const request = await this.getOwnWithdrawal(withdrawalId);
+    return this.signWithdrawalAction({ action: "cancel", withdrawalId: request.withdrawalId }, options);
+  }
+
+  /**
+   * Submits a withdrawal action another account signed, paying its gas. On the mock network a completion also
+   * drives the oracle and `completed` reports whether the payout went through; otherwise it is null.
+   */
+  async relayWithdrawalAction(signed: SignedWithdrawalAction) {
+    const { action, recipient, nonce, deadline, signature } = signed;
+    let withdrawalId = signed.withdrawalId;
+    let completed: boolean | null = null;
+    let transaction: string;
+
+    if (action === "request") {
+      let receipt: ContractTransactionReceipt;
+      ({ receipt, transaction } = await this.send(() =>
+        this.distributor.requestWithdrawalBySig(signed.token!, recipient, signed.amount!, nonce, deadline, signature),
+      ));
+      const event = receipt.logs
+        .map((entry) => this.distributor.interface.parseLog(entry))
+        .find((parsed) => parsed?.name === "WithdrawalInitiated");
+      withdrawalId = event!.args.withdrawalId as bigint;
+    } else if (action === "complete") {
+      ({ transaction } = await this.send(() =>
+        this.distributor.completeWithdrawalBySig(recipient, withdrawalId!, nonce, deadline, signature),
+      ));
+      if (this.fhevm.isMock) {
+        await this.fhevm.awaitDecryptionOracle();
+        completed = (await this.getWithdrawal(withdrawalId!)) === null;
+      }
+    } else {
+      ({ transaction } = await this.send(() =>
+        this.distributor.cancelWithdrawalBySig(recipient, withdrawalId!, nonce, deadline, signature),
+      ));
+    }
+    return { action, recipient, withdrawalId: withdrawalId!, completed, transaction };
+  }
+
+  /**
+   * Returns the confidential token that confidential withdrawals of a token are paid out in. Throws if the owner
+   * has not enabled them.
+   */
+  async getConfidentialToken(token: string): Promise<Contract> {
+    const wrapper = await this.distributor.confidentialToken(token);
+    if (wrapper === ZeroAddress) {
+      throw new DistributorError(`Confidential withdrawals of token ${token} are not enabled`);
+    }
+    return new Contract(wrapper, CONFIDENTIAL_TOKEN_ABI, this.signer);
+  }
+
+  /**
+   * Moves an encrypted amount of the signer's balance into their confidential token balance; nothing is decrypted
+   * on-chain. The amount moved is zero if the balance or the distributor's wrapped reserve does not cover it, and
+   * is decrypted locally as `withdrawn`.
+   */
+  async withdrawConfidential(token: string, amount: Amount) {
+    const wrapper = await this.getConfidentialToken(token);
+    const encryptedUnits = await this.toEncryptedUnits(token, amount);
+    const { handles, inputProof } = await this.encryptAmounts([encryptedUnits]);
+    const { receipt, transaction } = await this.send(() =>
+      this.distributor.withdrawConfidential(token, handles[0], inputProof),
+    );
+    const event = receipt.logs
+      .map((entry) => this.distributor.interface.parseLog(entry))
+      .find((parsed) => parsed?.name === "ConfidentialWithdrawal");
+    const withdrawn = await this.decrypt(event!.args.amount, await wrapper.getAddress());
+    return { token, amount: encryptedUnits, withdrawn, transaction };
+  }
+
+  /**
+   * Decrypts the signer's balance of a token's confidential token, in encrypted units.
+   */
+  async getConfidentialBalance(token: string): Promise<bigint> {
+    const wrapper = await this.getConfidentialToken(token);
+    return this.decrypt(await wrapper.confidentialBalanceOf(this.account), await wrapper.getAddress());
+  }
+
+  /**
+   * Wraps the signer's tokens into the token's confidential token. Wrapping is public: the ERC20 transfer
+   * reveals the amount.
+   */
+  async wrap(token: string, amount: Amount) {
+    const wrapper = await this.getConfidentialToken(token);
+    const encryptedUnits = await this.toEncryptedUnits(token, amount);
+    const baseUnits = encryptedUnits * (await this.getTokenUnits(token)).rate;
+    const erc20 = new Contract(
+      token,
+      ["function approve(address spender, uint256 amount) returns (bool)"],
+      this.signer,
+    );
+    await this.send(() => erc20.approve(wrapper.target, baseUnits));
+    const { transaction } = await this.send(() => wrapper.wrap(this.account, baseUnits));
+    return { token, amount: encryptedUnits, transaction };
+  }
+
+  /**
+   * Burns an encrypted amount of the signer's confidential tokens and releases the underlying tokens to the signer
+   * once the decryption oracle reveals it. On the mock network the oracle is driven here and `unwrapped` reports
+   * the released amount; elsewhere it is null. An amount above the balance releases nothing.
+   */
+  async unwrap(token: string, amount: Amount) {
+    const wrapper = await this.getConfidentialToken(token);
+    const wrapperAddress = await wrapper.getAddress();
+    const encryptedUnits = await this.toEncryptedUnits(token, amount);
+    const { handles, inputProof } = await this.fhevm
+      .createEncryptedInput(wrapperAddress, this.account)
+      .add64(encryptedUnits)
+      .encrypt();
+    const { receipt, transaction } = await this.send(() =>
+      wrapper.unwrap(this.account, this.account, handles[0], inputProof),
+    );
+
+    let unwrapped: bigint | null = null;
+    if (this.fhevm.isMock) {
+      const requested = receipt.logs
+        .map((entry) => wrapper.interface.parseLog(entry))
+        .find((parsed) => parsed?.name === "UnwrapRequested");
+      // On the mock network the oracle has to be driven manually
+      await this.fhevm.awaitDecryptionOracle();
+      const [finalized] = await wrapper.queryFilter(
+        wrapper.filters.UnwrapFinalized(this.account, requested!.args.requestId),
+        receipt.blockNumber,
+      );
+      unwrapped = finalized === undefined ? null : (finalized as EventLog).args.amount;
+    }
+    return { token, amount: encryptedUnits, unwrapped, transaction };
+  }
+
+  private async signWithdrawalAction(
+    fields: { action: WithdrawalAction; token?: string; amount?: bigint; withdrawalId?: bigint },
+    options: SignOptions,
+  ): Promise<SignedWithdrawalAction> {
+    const nonce = options.nonce ?? (await this.distributor.withdrawalNonces(this.account));
+    const deadline =
+      options.deadline === undefined
+        ? BigInt((await this.signer.provider!.getBlock("latest"))!.timestamp + DEFAULT_SIGNATURE_LIFETIME)
+        : BigInt(options.deadline);
+    const [, name, version, chainId, verifyingContract] = await this.distributor.eip712Domain();
+    const { action, ...values } = fields;
+    const message = { ...values, recipient: this.account, nonce, deadline };
+    const signature = await this.signer.signTypedData(
+      { name, version, chainId, verifyingContract },
+      WITHDRAWAL_ACTION_TYPES[action],
+      message,
+    );
+    return { action, ...message, signature };
+  }
+
+  private async getOwnWithdrawal(withdrawalId: bigint | number): Promise<WithdrawalRequest> {
+    const request = await this.getWithdrawal(withdrawalId);
+    if (request === null || request.recipient.toLowerCase() !== this.account.toLowerCase()) {
+      throw new WithdrawalNotFoundError(BigInt(withdrawalId), this.account);
+    }
+    return request;
+  }
+
+  /**
+   * Sends a transaction and waits for it, turning a revert into a `TransactionRevertedError`.
+   */
+  private async send(
+    submit: () => Promise<{ hash: string; wait: () => Promise<unknown> }>,
+  ): Promise<{ receipt: ContractTransactionReceipt; transaction: string }> {
+    try {
+      const tx = await submit();
+      const receipt = (await tx.wait()) as ContractTransactionReceipt;
+      return { receipt, transaction: tx.hash };
+    } catch (error) {
+      throw toDistributorError(error);
+    }
+  }
+}
+
+/**
+ * Turns a revert with a `require` message into a `TransactionRevertedError` and returns other errors unchanged.
+ */
+function toDistributorError(error: unknown): unknown {
+  const reason = getRevertReason(error);
+  return reason === undefined ? error : new TransactionRevertedError(reason, { cause: error });
+}
+
+/**
+ * Extracts the `require` message from a revert, as reported by ethers or in a Hardhat node's error message.
+ */
+function getRevertReason(error: unknown): string | undefined {
+  const { reason, message } = error as { reason?: unknown; message?: unknown };
+  if (typeof reason === "string") {
+    return reason;
+  }
+  return typeof message === "string" ? /reverted with reason string '(.*)'/.exec(message)?.[1] : undefined;
+}
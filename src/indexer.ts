@@ -0,0 +1,271 @@
+import fs from "fs";
+
+import type { PrivateTokenDistributor } from "../types";
+
+// Events that concern a single recipient, keyed by the argument(s) naming that recipient
+const RECIPIENT_ARGS: Record<string, string[]> = {
+  RecipientAdded: ["recipient"],
+  WithdrawalInitiated: ["recipient"],
+  WithdrawalDecryptionRequested: ["recipient"],
+  WithdrawalCompleted: ["recipient"],
+  WithdrawalCanceled: ["recipient"],
+  WithdrawalFailed: ["recipient"],
+  VestingCreated: ["recipient"],
+  VestingReleased: ["recipient"],
+  EncryptedTransfer: ["from", "to"],
+  BalanceAuditSet: ["recipient"],
+  ClawedBack: ["recipient"],
+  DistributionScheduled: ["recipient"],
+  ScheduledDistributionExecuted: ["recipient"],
+  ScheduledDistributionCanceled: ["recipient"],
+};
+
+export type LedgerEvent = {
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  timestamp: number;
+  name: string;
+  // Event arguments by name; integers are stored as decimal strings
+  args: Record<string, string>;
+};
+
+export type Ledger = {
+  contract: string;
+  chainId: string;
+  // Last block whose logs are in the ledger, and its hash to detect a reset chain
+  lastBlock: number;
+  lastBlockHash?: string;
+  events: LedgerEvent[];
+};
+
+export type PendingWithdrawal = {
+  // The `WithdrawalInitiated` event of the request
+  request: LedgerEvent;
+  // Whether the payout is waiting on the decryption oracle
+  decrypting: boolean;
+};
+
+export type RecipientHistory = {
+  token: string;
+  recipient: string;
+  events: LedgerEvent[];
+  // Requests that have not been completed or cancelled yet, oldest first
+  pendingWithdrawals: PendingWithdrawal[];
+};
+
+export type TokenFlows = {
+  token: string;
+  // Token base units moved by each kind of event
+  deposited: bigint;
+  withdrawn: bigint;
+  clawedBack: bigint;
+  refunded: bigint;
+  // Deposits taken back with `emergencyWithdraw`; stray tokens withdrawn that way are not counted
+  emergencyWithdrawn: bigint;
+  wrapped: bigint;
+  // What the distributor should still hold through deposits
+  held: bigint;
+  // Amount of the withdrawal requests that have not been completed or cancelled yet
+  pendingRequested: bigint;
+  // Deposits less refunds and emergency withdrawals, per depositor
+  depositors: Record<string, bigint>;
+};
+
+export type SyncOptions = {
+  fromBlock?: number;
+  toBlock?: number;
+  // Maximum number of blocks fetched per `eth_getLogs` call
+  batchSize?: number;
+};
+
+/**
+ * Loads a ledger from disk, or starts an empty one if the file does not exist. Throws if the file belongs to
+ * another contract or chain.
+ */
+export function loadLedger(ledgerPath: string, contract: string, chainId: bigint): Ledger {
+  if (!fs.existsSync(ledgerPath)) {
+    return { contract, chainId: chainId.toString(), lastBlock: -1, events: [] };
+  }
+  const ledger: Ledger = JSON.parse(fs.readFileSync(ledgerPath, "utf8"));
+  if (ledger.contract.toLowerCase() !== contract.toLowerCase() || ledger.chainId !== chainId.toString()) {
+    throw new Error(`Ledger ${ledgerPath} belongs to a different contract or chain`);
+  }
+  return ledger;
+}
+
+export function saveLedger(ledgerPath: string, ledger: Ledger) {
+  // Write to a temporary file first so an interrupted run never leaves a truncated ledger
+  fs.writeFileSync(`${ledgerPath}.tmp`, JSON.stringify(ledger, null, 2));
+  fs.renameSync(`${ledgerPath}.tmp`, ledgerPath);
+}
+
+/**
+ * Fetches the distributor's logs from the block after the ledger's last block (or `fromBlock`) up to `toBlock`
+ * (default: latest), decodes them and appends them to the ledger. Logs already in the ledger are skipped, so
+ * overlapping ranges are safe. Returns the number of new events.
+ */
+export async function syncLedger(
+  distributor: PrivateTokenDistributor,
+  ledger: Ledger,
+  options: SyncOptions = {},
+): Promise<number> {
+  const provider = distributor.runner!.provider!;
+
+  // A restarted local node reuses block numbers, so make sure the ledger still describes this chain
+  if (ledger.lastBlockHash !== undefined) {
+    const block = await provider.getBlock(ledger.lastBlock);
+    if (block?.hash !== ledger.lastBlockHash) {
+      throw new Error(`Block ${ledger.lastBlock} no longer matches the ledger; the chain was reset or reorganized`);
+    }
+  }
+
+  const fromBlock = options.fromBlock ?? ledger.lastBlock + 1;
+  const toBlock = options.toBlock ?? (await provider.getBlockNumber());
+  const batchSize = options.batchSize ?? 10_000;
+  if (fromBlock > toBlock) {
+    return 0;
+  }
+
+  const known = new Set(ledger.events.map((event) => `${event.transactionHash}:${event.logIndex}`));
+  const timestamps = new Map<number, number>();
+  const address = await distributor.getAddress();
+  let added = 0;
+
+  for (let start = fromBlock; start <= toBlock; start += batchSize) {
+    const end = Math.min(start + batchSize - 1, toBlock);
+    const logs = await provider.getLogs({ address, fromBlock: start, toBlock: end });
+
+    for (const log of logs) {
+      const key = `${log.transactionHash}:${log.index}`;
+      const parsed = distributor.interface.parseLog(log);
+      if (parsed === null || known.has(key)) {
+        continue;
+      }
+      if (!timestamps.has(log.blockNumber)) {
+        timestamps.set(log.blockNumber, (await provider.getBlock(log.blockNumber))!.timestamp);
+      }
+
+      const args: Record<string, string> = {};
+      parsed.fragment.inputs.forEach((input, i) => {
+        args[input.name] = String(parsed.args[i]);
+      });
+      ledger.events.push({
+        blockNumber: log.blockNumber,
+        logIndex: log.index,
+        transactionHash: log.transactionHash,
+        timestamp: timestamps.get(log.blockNumber)!,
+        name: parsed.name,
+        args,
+      });
+      known.add(key);
+      added++;
+    }
+  }
+
+  ledger.events.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  if (toBlock > ledger.lastBlock) {
+    ledger.lastBlock = toBlock;
+    ledger.lastBlockHash = (await provider.getBlock(toBlock))!.hash!;
+  }
+  return added;
+}
+
+/**
+ * Groups the ledger's events into a timeline per (token, recipient) and works out which withdrawals are still
+ * pending. Transfers appear in the timelines of both parties.
+ */
+export function getRecipientHistories(ledger: Ledger): RecipientHistory[] {
+  const histories = new Map<string, RecipientHistory>();
+
+  for (const event of ledger.events) {
+    for (const arg of RECIPIENT_ARGS[event.name] ?? []) {
+      const token = event.args.token;
+      const recipient = event.args[arg];
+      const key = `${token.toLowerCase()}:${recipient.toLowerCase()}`;
+      if (!histories.has(key)) {
+        histories.set(key, { token, recipient, events: [], pendingWithdrawals: [] });
+      }
+      const history = histories.get(key)!;
+      history.events.push(event);
+
+      const pendingIndex = history.pendingWithdrawals.findIndex(
+        ({ request }) => request.args.withdrawalId === event.args.withdrawalId,
+      );
+      if (event.name === "WithdrawalInitiated") {
+        history.pendingWithdrawals.push({ request: event, decrypting: false });
+      } else if (event.name === "WithdrawalDecryptionRequested" && pendingIndex !== -1) {
+        history.pendingWithdrawals[pendingIndex].decrypting = true;
+      } else if (
+        ["WithdrawalCompleted", "WithdrawalCanceled", "WithdrawalFailed"].includes(event.name) &&
+        pendingIndex !== -1
+      ) {
+        history.pendingWithdrawals.splice(pendingIndex, 1);
+      }
+    }
+  }
+
+  return [...histories.values()];
+}
+
+/**
+ * Adds up the ledger's token movements into and out of the distributor for one token. Amounts the events give
+ * in encrypted units are converted with `rate`.
+ */
+export function getTokenFlows(ledger: Ledger, token: string, rate: bigint): TokenFlows {
+  const flows: TokenFlows = {
+    token,
+    deposited: 0n,
+    withdrawn: 0n,
+    clawedBack: 0n,
+    refunded: 0n,
+    emergencyWithdrawn: 0n,
+    wrapped: 0n,
+    held: 0n,
+    pendingRequested: 0n,
+    depositors: {},
+  };
+  const addToDepositor = (depositor: string, amount: bigint) => {
+    flows.depositors[depositor] = (flows.depositors[depositor] ?? 0n) + amount;
+  };
+
+  for (const event of ledger.events) {
+    if (event.args.token?.toLowerCase() !== token.toLowerCase()) {
+      continue;
+    }
+    switch (event.name) {
+      case "Deposit":
+        flows.deposited += BigInt(event.args.amount);
+        addToDepositor(event.args.from, BigInt(event.args.amount));
+        break;
+      case "WithdrawalCompleted":
+        flows.withdrawn += BigInt(event.args.amount) * rate;
+        break;
+      case "ClawbackCompleted":
+        flows.clawedBack += BigInt(event.args.amount) * rate;
+        break;
+      case "Refunded":
+        flows.refunded += BigInt(event.args.amount);
+        addToDepositor(event.args.depositor, -BigInt(event.args.amount));
+        break;
+      case "EmergencyWithdrawal":
+        flows.emergencyWithdrawn += BigInt(event.args.fromDeposits);
+        addToDepositor(event.args.to, -BigInt(event.args.fromDeposits));
+        break;
+      case "DepositsWrapped":
+        flows.wrapped += BigInt(event.args.amount);
+        break;
+    }
+  }
+
+  flows.held =
+    flows.deposited - flows.withdrawn - flows.clawedBack - flows.refunded - flows.emergencyWithdrawn - flows.wrapped;
+  for (const history of getRecipientHistories(ledger)) {
+    if (history.token.toLowerCase() === token.toLowerCase()) {
+      for (const { request } of history.pendingWithdrawals) {
+        flows.pendingRequested += BigInt(request.args.amount) * rate;
+      }
+    }
+  }
+  return flows;
+}
@@ -1,6 +1,9 @@
 import { FhevmType } from "@fhevm/hardhat-plugin";
 import { task } from "hardhat/config";
-import type { TaskArguments } from "hardhat/types";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+import { resolveDeployedAddress } from "../src/addresses";
+import { initializeFhevm, parseAddress, parseInteger, resolveSigner } from "./helpers";
 
 /**
  * Tutorial: Deploy and Interact Locally (--network localhost)
@@ -21,6 +24,9 @@ import type { TaskArguments } from "hardhat/types";
  *   npx hardhat --network localhost task:decrement --value 1
  *   npx hardhat --network localhost task:decrypt-count
  *
+ * Every user has their own counter; pass --signer <index|address|name> to act as another account. The owner can
+ * reset a user's counter with task:reset --user <USER_ADDRESS>.
+ *
  *
  * Tutorial: Deploy and Interact on Sepolia (--network sepolia)
  * ===========================================================
@@ -38,15 +44,21 @@ import type { TaskArguments } from "hardhat/types";
  *
  */
 
+async function getFHECounterDeployment(hre: HardhatRuntimeEnvironment) {
+  const address = await resolveDeployedAddress(hre, "FHECounter");
+  if (address === undefined) {
+    throw new Error(`No FHECounter deployment found on network "${hre.network.name}"; deploy it or pass --address`);
+  }
+  return { address };
+}
+
 /**
  * Example:
  *   - npx hardhat --network localhost task:address
  *   - npx hardhat --network sepolia task:address
  */
 task("task:address", "Prints the FHECounter address").setAction(async function (_taskArguments: TaskArguments, hre) {
-  const { deployments } = hre;
-
-  const fheCounter = await deployments.get("FHECounter");
+  const fheCounter = await getFHECounterDeployment(hre);
 
   console.log("FHECounter address is " + fheCounter.address);
 });
@@ -58,35 +70,37 @@ task("task:address", "Prints the FHECounter address").setAction(async function (
  */
 task("task:decrypt-count", "Calls the getCount() function of Counter Contract")
   .addOptionalParam("address", "Optionally specify the Counter contract address")
+  .addOptionalParam("signer", "Optionally specify the account as a signer index, address or named account")
   .setAction(async function (taskArguments: TaskArguments, hre) {
-    const { ethers, deployments, fhevm } = hre;
+    const { ethers, fhevm } = hre;
 
-    await fhevm.initializeCLIApi();
+    await initializeFhevm(hre);
 
     const FHECounterDeployement = taskArguments.address
       ? { address: taskArguments.address }
-      : await deployments.get("FHECounter");
+      : await getFHECounterDeployment(hre);
     console.log(`FHECounter: ${FHECounterDeployement.address}`);
 
-    const signers = await ethers.getSigners();
+    const signer = await resolveSigner(hre, taskArguments.signer);
 
-    const fheCounterContract = await ethers.getContractAt("FHECounter", FHECounterDeployement.address);
+    const fheCounterContract = await ethers.getContractAt("FHECounter", FHECounterDeployement.address, signer);
 
     const encryptedCount = await fheCounterContract.getCount();
     if (encryptedCount === ethers.ZeroHash) {
       console.log(`encrypted count: ${encryptedCount}`);
       console.log("clear count    : 0");
-      return;
+      return 0n;
     }
 
     const clearCount = await fhevm.userDecryptEuint(
       FhevmType.euint32,
       encryptedCount,
       FHECounterDeployement.address,
-      signers[0],
+      signer,
     );
     console.log(`Encrypted count: ${encryptedCount}`);
     console.log(`Clear count    : ${clearCount}`);
+    return clearCount;
   });
 
 /**
@@ -96,35 +110,31 @@ task("task:decrypt-count", "Calls the getCount() function of Counter Contract")
  */
 task("task:increment", "Calls the increment() function of FHECounter Contract")
   .addOptionalParam("address", "Optionally specify the FHECounter contract address")
+  .addOptionalParam("signer", "Optionally specify the account as a signer index, address or named account")
   .addParam("value", "The increment value")
   .setAction(async function (taskArguments: TaskArguments, hre) {
-    const { ethers, deployments, fhevm } = hre;
+    const { ethers, fhevm } = hre;
 
-    const value = parseInt(taskArguments.value);
-    if (!Number.isInteger(value)) {
-      throw new Error(`Argument --value is not an integer`);
-    }
+    const value = parseInteger("value", taskArguments.value);
 
-    await fhevm.initializeCLIApi();
+    await initializeFhevm(hre);
 
     const FHECounterDeployement = taskArguments.address
       ? { address: taskArguments.address }
-      : await deployments.get("FHECounter");
+      : await getFHECounterDeployment(hre);
     console.log(`FHECounter: ${FHECounterDeployement.address}`);
 
-    const signers = await ethers.getSigners();
+    const signer = await resolveSigner(hre, taskArguments.signer);
 
-    const fheCounterContract = await ethers.getContractAt("FHECounter", FHECounterDeployement.address);
+    const fheCounterContract = await ethers.getContractAt("FHECounter", FHECounterDeployement.address, signer);
 
     // Encrypt the value passed as argument
     const encryptedValue = await fhevm
-      .createEncryptedInput(FHECounterDeployement.address, signers[0].address)
+      .createEncryptedInput(FHECounterDeployement.address, signer.address)
       .add32(value)
       .encrypt();
 
-    const tx = await fheCounterContract
-      .connect(signers[0])
-      .increment(encryptedValue.handles[0], encryptedValue.inputProof);
+    const tx = await fheCounterContract.connect(signer).increment(encryptedValue.handles[0], encryptedValue.inputProof);
     console.log(`Wait for tx:${tx.hash}...`);
 
     const receipt = await tx.wait();
@@ -143,35 +153,31 @@ task("task:increment", "Calls the increment() function of FHECounter Contract")
  */
 task("task:decrement", "Calls the decrement() function of FHECounter Contract")
   .addOptionalParam("address", "Optionally specify the FHECounter contract address")
+  .addOptionalParam("signer", "Optionally specify the account as a signer index, address or named account")
   .addParam("value", "The decrement value")
   .setAction(async function (taskArguments: TaskArguments, hre) {
-    const { ethers, deployments, fhevm } = hre;
+    const { ethers, fhevm } = hre;
 
-    const value = parseInt(taskArguments.value);
-    if (!Number.isInteger(value)) {
-      throw new Error(`Argument --value is not an integer`);
-    }
+    const value = parseInteger("value", taskArguments.value);
 
-    await fhevm.initializeCLIApi();
+    await initializeFhevm(hre);
 
     const FHECounterDeployement = taskArguments.address
       ? { address: taskArguments.address }
-      : await deployments.get("FHECounter");
+      : await getFHECounterDeployment(hre);
     console.log(`FHECounter: ${FHECounterDeployement.address}`);
 
-    const signers = await ethers.getSigners();
+    const signer = await resolveSigner(hre, taskArguments.signer);
 
-    const fheCounterContract = await ethers.getContractAt("FHECounter", FHECounterDeployement.address);
+    const fheCounterContract = await ethers.getContractAt("FHECounter", FHECounterDeployement.address, signer);
 
     // Encrypt the value passed as argument
     const encryptedValue = await fhevm
-      .createEncryptedInput(FHECounterDeployement.address, signers[0].address)
+      .createEncryptedInput(FHECounterDeployement.address, signer.address)
       .add32(value)
       .encrypt();
 
-    const tx = await fheCounterContract
-      .connect(signers[0])
-      .decrement(encryptedValue.handles[0], encryptedValue.inputProof);
+    const tx = await fheCounterContract.connect(signer).decrement(encryptedValue.handles[0], encryptedValue.inputProof);
     console.log(`Wait for tx:${tx.hash}...`);
 
     const receipt = await tx.wait();
@@ -182,3 +188,35 @@ task("task:decrement", "Calls the decrement() function of FHECounter Contract")
 
     console.log(`FHECounter decrement(${value}) succeeded!`);
   });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:reset --user <USER_ADDRESS>
+ *   - npx hardhat --network sepolia task:reset --user <USER_ADDRESS>
+ */
+task("task:reset", "Calls the reset() function of FHECounter Contract (owner only)")
+  .addOptionalParam("address", "Optionally specify the FHECounter contract address")
+  .addOptionalParam("signer", "Optionally specify the account as a signer index, address or named account")
+  .addParam("user", "The user whose counter is reset")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const user = parseAddress("user", taskArguments.user);
+
+    const FHECounterDeployement = taskArguments.address
+      ? { address: taskArguments.address }
+      : await getFHECounterDeployment(hre);
+    console.log(`FHECounter: ${FHECounterDeployement.address}`);
+
+    const signer = await resolveSigner(hre, taskArguments.signer);
+
+    const fheCounterContract = await ethers.getContractAt("FHECounter", FHECounterDeployement.address, signer);
+
+    const tx = await fheCounterContract.reset(user);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`FHECounter reset(${user}) succeeded!`);
+  });
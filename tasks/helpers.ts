@@ -0,0 +1,188 @@
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { getAddress, isAddress } from "ethers";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+import { resolveDeployedAddress } from "../src/addresses";
+import { PrivateTokenDistributorClient, type TokenUnits } from "../src/client";
+import type { PrivateTokenDistributor } from "../types";
+
+export { MAX_UINT64, type TokenUnits, formatTokenAmount, parseTokenAmount } from "../src/client";
+
+export type DistributorTaskContext = {
+  // The client the task sends through; `distributor` is its contract, for calls the client does not wrap
+  client: PrivateTokenDistributorClient;
+  distributor: PrivateTokenDistributor;
+  contract: string;
+  signer: HardhatEthersSigner;
+  // Prints a progress line, unless the task was run with --json
+  log: (...lines: unknown[]) => void;
+  // Prints the task result when the task was run with --json, and returns it so tasks can be chained with `hre.run`
+  output: <T extends object>(result: T) => T;
+};
+
+/**
+ * Declares a distributor task with the parameters every distributor task shares: `--contract` (defaults to the
+ * hardhat-deploy deployment), `--signer` and `--json`.
+ */
+export function distributorTask(name: string, description: string) {
+  return task(name, description)
+    .addOptionalParam("contract", "The distributor contract address (defaults to the network's deployment)")
+    .addOptionalParam(
+      "signer",
+      "The account to send from: a signer index, a signer address or a named account (defaults to the deployer)",
+    )
+    .addFlag("json", "Print the result as JSON instead of progress messages");
+}
+
+/**
+ * Resolves the contract, signer and output mode of a task declared with `distributorTask`, and initializes the
+ * FHEVM CLI API when running against a node.
+ */
+export async function setupDistributorTask(
+  hre: HardhatRuntimeEnvironment,
+  taskArgs: TaskArguments,
+): Promise<DistributorTaskContext> {
+  await initializeFhevm(hre);
+
+  const contract = await resolveDistributorAddress(hre, taskArgs.contract);
+  const signer = await resolveSigner(hre, taskArgs.signer);
+  const distributor = await hre.ethers.getContractAt("PrivateTokenDistributor", contract, signer);
+  const client = new PrivateTokenDistributorClient(distributor, signer, hre.fhevm);
+  const json = Boolean(taskArgs.json);
+
+  return {
+    client,
+    distributor: client.distributor,
+    contract,
+    signer,
+    log: (...lines) => {
+      if (!json) {
+        console.log(...lines);
+      }
+    },
+    output: (result) => {
+      if (json) {
+        console.log(toJson(result));
+      }
+      return result;
+    },
+  };
+}
+
+/**
+ * The in-process Hardhat network is initialized by the plugin itself; a node (`--network localhost`) or Sepolia
+ * needs the CLI API.
+ */
+export async function initializeFhevm(hre: HardhatRuntimeEnvironment) {
+  if (hre.network.name !== "hardhat") {
+    await hre.fhevm.initializeCLIApi();
+  }
+}
+
+async function resolveDistributorAddress(hre: HardhatRuntimeEnvironment, contract?: string): Promise<string> {
+  if (contract !== undefined) {
+    return parseAddress("contract", contract);
+  }
+  const address = await resolveDeployedAddress(hre, "PrivateTokenDistributor");
+  if (address === undefined) {
+    throw new Error(
+      `No PrivateTokenDistributor deployment found on network "${hre.network.name}"; deploy it or pass --contract`,
+    );
+  }
+  return address;
+}
+
+/**
+ * Resolves `--signer` to one of the configured signers. Accepts a signer index, a signer address or a named account
+ * from the config's `namedAccounts`, and defaults to the `deployer` named account.
+ */
+export async function resolveSigner(hre: HardhatRuntimeEnvironment, value = "deployer"): Promise<HardhatEthersSigner> {
+  const signers = await hre.ethers.getSigners();
+
+  if (/^\d+$/.test(value)) {
+    const signer = signers[Number(value)];
+    if (signer === undefined) {
+      throw new Error(`No signer at index ${value}; ${signers.length} signers are configured`);
+    }
+    return signer;
+  }
+
+  let address = value;
+  if (!isAddress(value)) {
+    const namedAccounts = await hre.getNamedAccounts();
+    if (namedAccounts[value] === undefined) {
+      throw new Error(`Unknown signer "${value}": expected a signer index, an address or a named account`);
+    }
+    address = namedAccounts[value];
+  }
+  const signer = signers.find((candidate) => candidate.address.toLowerCase() === address.toLowerCase());
+  if (signer === undefined) {
+    throw new Error(`Signer ${value} is not one of the configured accounts`);
+  }
+  return signer;
+}
+
+/**
+ * Resolves `--token`, defaulting to the distributor's only supported token, and reads its units.
+ */
+export async function resolveToken(
+  client: PrivateTokenDistributorClient,
+  token?: string,
+): Promise<{ token: string; units: TokenUnits }> {
+  if (token === undefined) {
+    const tokens = await client.distributor.getTokens();
+    if (tokens.length !== 1) {
+      throw new Error(`The distributor supports ${tokens.length} tokens; pass --token`);
+    }
+    token = tokens[0];
+  }
+  const address = parseAddress("token", token);
+  return { token: address, units: await client.getTokenUnits(address) };
+}
+
+/**
+ * Validates an address argument and returns it checksummed.
+ */
+export function parseAddress(name: string, value: string): string {
+  if (typeof value !== "string" || !isAddress(value)) {
+    throw new Error(`Argument --${name} must be an address, got "${value}"`);
+  }
+  return getAddress(value);
+}
+
+export function parseAddressList(name: string, value: string): string[] {
+  const values = String(value)
+    .split(",")
+    .map((item) => item.trim());
+  const invalid = values.filter((item) => !isAddress(item));
+  if (invalid.length > 0) {
+    throw new Error(`Argument --${name} contains invalid addresses: ${invalid.join(", ")}`);
+  }
+  return values.map((item) => getAddress(item));
+}
+
+/**
+ * Parses a non-negative integer argument, rejecting anything `parseInt` would silently truncate such as "12abc".
+ */
+export function parseInteger(name: string, value: string, min = 0): number {
+  if (!/^\d+$/.test(String(value).trim()) || !Number.isSafeInteger(Number(value))) {
+    throw new Error(`Argument --${name} must be a non-negative integer, got "${value}"`);
+  }
+  const parsed = Number(value);
+  if (parsed < min) {
+    throw new Error(`Argument --${name} must be at least ${min}`);
+  }
+  return parsed;
+}
+
+export function parseBoolean(name: string, value: string): boolean {
+  if (value !== "true" && value !== "false") {
+    throw new Error(`Argument --${name} must be true or false, got "${value}"`);
+  }
+  return value === "true";
+}
+
+export function toJson(value: unknown): string {
+  return JSON.stringify(value, (_key, item) => (typeof item === "bigint" ? item.toString() : item), 2);
+}
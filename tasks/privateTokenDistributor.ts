@@ -1,102 +1,1688 @@
+import { createHash } from "crypto";
+import { type ContractTransaction, type Provider, formatUnits, hexlify, keccak256, randomBytes } from "ethers";
+import fs from "fs";
+import path from "path";
 import { task } from "hardhat/config";
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 
-task("distribute-tokens", "Distribute encrypted tokens to recipients")
-  .addParam("contract", "The distributor contract address")
-  .addParam("token", "The token contract address")
+import {
+  type Ledger,
+  type LedgerEvent,
+  getRecipientHistories,
+  getTokenFlows,
+  loadLedger,
+  saveLedger,
+  syncLedger,
+} from "../src/indexer";
+import { resolveDeployedAddress } from "../src/addresses";
+import { DecryptionError, MAX_PACKED_AMOUNTS, TransactionRevertedError } from "../src/client";
+import type { PrivateTokenDistributor } from "../types";
+import {
+  MAX_UINT64,
+  type TokenUnits,
+  distributorTask,
+  formatTokenAmount,
+  parseAddress,
+  parseAddressList,
+  parseBoolean,
+  parseInteger,
+  parseTokenAmount,
+  resolveToken,
+  setupDistributorTask,
+} from "./helpers";
+
+// Role names accepted by the role tasks, mapped to the contract's role constants
+const ROLES = ["distributor", "treasurer", "pauser", "auditor"] as const;
+
+type BatchRow = {
+  // 1-based line (CSV) or entry (JSON) number, used in error messages and as the journal key
+  line: number;
+  recipient: string;
+  amount: bigint;
+};
+
+type BatchJournal = {
+  contract: string;
+  token: string;
+  fileHash: string;
+  completed: number[];
+  // Journaled before the chunk is broadcast, so `txHash` is missing if the run died while sending it
+  pending?: { lines: number[]; nonce: number; fromBlock: number; txHash?: string };
+  chunks: { lines: number[]; txHash: string }[];
+};
+
+type Voucher = {
+  recipient: string;
+  handle: string;
+  inputProof: string;
+  expiry: number;
+  // Decimal string, since nonces are random 256-bit numbers
+  nonce: string;
+  signature: string;
+};
+
+type VoucherFile = {
+  contract: string;
+  chainId: string;
+  token: string;
+  vouchers: Voucher[];
+};
+
+// EIP-712 type of a claim voucher, matching `CLAIM_TYPEHASH` in the contract
+const CLAIM_TYPES = {
+  Claim: [
+    { name: "token", type: "address" },
+    { name: "recipient", type: "address" },
+    { name: "handle", type: "bytes32" },
+    { name: "proofHash", type: "bytes32" },
+    { name: "expiry", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+  ],
+};
+
+/**
+ * Parses a recipients file. CSV files hold one `address,amount` pair per line and may start with a header;
+ * JSON files hold an array of `{ "address": ..., "amount": ... }` objects.
+ */
+function parseRecipientsFile(
+  filePath: string,
+  isAddress: (value: string) => boolean,
+  parseAmount: (amount: string) => bigint,
+): BatchRow[] {
+  const content = fs.readFileSync(filePath, "utf8");
+  let entries: { line: number; address: string; amount: string }[];
+
+  if (path.extname(filePath).toLowerCase() === ".json") {
+    const parsed = JSON.parse(content);
+    if (!Array.isArray(parsed)) {
+      throw new Error(`${filePath} must contain a JSON array`);
+    }
+    entries = parsed.map((entry, i) => ({
+      line: i + 1,
+      address: String(entry?.address ?? entry?.recipient ?? ""),
+      amount: String(entry?.amount ?? ""),
+    }));
+  } else {
+    entries = content
+      .split(/\r?\n/)
+      .map((raw, i) => ({ line: i + 1, cells: raw.split(",").map((cell) => cell.trim()) }))
+      .filter(({ cells }) => cells.some((cell) => cell !== "") && !cells[0].startsWith("#"))
+      .map(({ line, cells }) => ({ line, address: cells[0], amount: cells[1] ?? "" }));
+    // Skip a header row such as "address,amount"
+    if (entries.length > 0 && !isAddress(entries[0].address) && !/^[\d.]+$/.test(entries[0].amount)) {
+      entries.shift();
+    }
+  }
+
+  const errors: string[] = [];
+  const rows: BatchRow[] = [];
+  for (const { line, address, amount } of entries) {
+    if (!isAddress(address)) {
+      errors.push(`line ${line}: invalid address "${address}"`);
+      continue;
+    }
+    try {
+      rows.push({ line, recipient: address, amount: parseAmount(amount) });
+    } catch (error) {
+      errors.push(`line ${line}: ${(error as Error).message}`);
+    }
+  }
+  if (errors.length > 0) {
+    throw new Error(`Invalid recipients file ${filePath}:\n  ${errors.join("\n  ")}`);
+  }
+  if (rows.length === 0) {
+    throw new Error(`No recipients found in ${filePath}`);
+  }
+  return rows;
+}
+
+/**
+ * Resolves a role name such as "treasurer" to the role identifier the contract uses.
+ */
+async function getRoleId(distributor: PrivateTokenDistributor, role: string): Promise<string> {
+  switch (role.toLowerCase()) {
+    case "distributor":
+      return distributor.DISTRIBUTOR_ROLE();
+    case "treasurer":
+      return distributor.TREASURER_ROLE();
+    case "pauser":
+      return distributor.PAUSER_ROLE();
+    case "auditor":
+      return distributor.AUDITOR_ROLE();
+    default:
+      throw new Error(`Unknown role "${role}", expected one of: ${ROLES.join(", ")}`);
+  }
+}
+
+function loadJournal(journalPath: string, contract: string, token: string, fileHash: string): BatchJournal {
+  if (!fs.existsSync(journalPath)) {
+    return { contract, token, fileHash, completed: [], chunks: [] };
+  }
+  const journal: BatchJournal = JSON.parse(fs.readFileSync(journalPath, "utf8"));
+  if (
+    journal.contract.toLowerCase() !== contract.toLowerCase() ||
+    journal.token?.toLowerCase() !== token.toLowerCase() ||
+    journal.fileHash !== fileHash
+  ) {
+    throw new Error(`Journal ${journalPath} belongs to a different contract, token or recipients file`);
+  }
+  return journal;
+}
+
+function saveJournal(journalPath: string, journal: BatchJournal) {
+  // Write to a temporary file first so an interrupted run never leaves a truncated journal
+  fs.writeFileSync(`${journalPath}.tmp`, JSON.stringify(journal, null, 2));
+  fs.renameSync(`${journalPath}.tmp`, journalPath);
+}
+
+/**
+ * Finds the transaction a previous run sent for its pending chunk, or returns null if the chunk was never mined.
+ * Without a hash, the chunk is looked up by the nonce it was journaled with; a nonce taken by a transaction that is
+ * still in the mempool cannot be matched, so the run is refused until it is mined.
+ */
+async function findPendingChunk(
+  provider: Provider,
+  from: string,
+  to: string,
+  pending: NonNullable<BatchJournal["pending"]>,
+): Promise<string | null> {
+  if (pending.txHash !== undefined) {
+    return pending.txHash;
+  }
+  if ((await provider.getTransactionCount(from, "latest")) <= pending.nonce) {
+    if ((await provider.getTransactionCount(from, "pending")) > pending.nonce) {
+      throw new Error(
+        `Transaction with nonce ${pending.nonce} from a previous run is still pending; re-run once mined`,
+      );
+    }
+    return null;
+  }
+  const latest = await provider.getBlockNumber();
+  for (let number = pending.fromBlock; number <= latest; number++) {
+    const block = await provider.getBlock(number, true);
+    const tx = block?.prefetchedTransactions.find(
+      (tx) => tx.from.toLowerCase() === from.toLowerCase() && tx.nonce === pending.nonce,
+    );
+    if (tx !== undefined) {
+      // The nonce may have been used by another transaction, in which case the chunk was never sent
+      return tx.to?.toLowerCase() === to.toLowerCase() ? tx.hash : null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Every task below accepts:
+ *   --contract  the distributor address, defaulting to the `PrivateTokenDistributor` deployment of the network
+ *   --signer    the sending account as a signer index, address or named account, defaulting to `deployer`
+ *   --json      print the result as a single JSON document instead of progress messages
+ * and `--token` defaults to the distributor's token when it supports exactly one.
+ *
+ * Example:
+ *   - npx hardhat distribute-tokens --recipient <RECIPIENT_ADDRESS> --amount 50 --network localhost
+ */
+distributorTask("distribute-tokens", "Distribute encrypted tokens to recipients")
+  .addOptionalParam("token", "The token contract address")
   .addParam("recipient", "The recipient address")
   .addParam("amount", "The amount to distribute")
   .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
-    const { ethers, fhevm } = hre;
-    const [deployer] = await ethers.getSigners();
+    const { client, log, output } = await setupDistributorTask(hre, taskArgs);
+    const { token, units } = await resolveToken(client, taskArgs.token);
+    const recipient = parseAddress("recipient", taskArgs.recipient);
+    const amount = parseTokenAmount(taskArgs.amount, units);
+
+    log(`Distributing ${formatTokenAmount(amount, units)} to ${recipient}`);
+
+    // The allocation is clamped to zero if the deposited funds do not cover it
+    const { accepted, transaction } = await client.distribute(token, recipient, amount);
+    log(`Distribution complete. Transaction: ${transaction}`);
+    log(accepted ? "Allocation accepted." : "Allocation rejected: deposits do not cover it.");
+
+    return output({ token, recipient, amount: formatTokenAmount(amount, units), accepted, transaction });
+  });
+
+/**
+ * Example:
+ *   - npx hardhat distribute-batch --file recipients.csv --network localhost
+ *
+ * Amounts are human-readable token amounts (e.g. `12.5`).
+ * Each chunk is sent as one packed encrypted input (at most 32 amounts) sharing a single proof.
+ * Progress is journaled to `<file>.journal.json` before and after every chunk, so re-running the same command
+ * after a failure only distributes to the recipients that have not been paid yet. A chunk is journaled with its
+ * nonce before it is sent, so a chunk whose run died mid-send is found on chain rather than paid again.
+ */
+distributorTask("distribute-batch", "Distribute encrypted tokens to every recipient in a CSV or JSON file")
+  .addOptionalParam("token", "The token contract address")
+  .addParam("file", "Path to a CSV (address,amount) or JSON recipients file with human-readable amounts")
+  .addOptionalParam("journal", "Path to the journal file (defaults to <file>.journal.json)")
+  .addOptionalParam("gasFraction", "Fraction of the block gas limit a single chunk may use", "0.5")
+  .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
+    const { ethers } = hre;
+
+    const gasFraction = Number(taskArgs.gasFraction);
+    if (!(gasFraction > 0 && gasFraction <= 1)) {
+      throw new Error(`Argument --gas-fraction must be in (0, 1]`);
+    }
+
+    const { client, contract, signer, log, output } = await setupDistributorTask(hre, taskArgs);
+    const { token, units } = await resolveToken(client, taskArgs.token);
+
+    const rows = parseRecipientsFile(taskArgs.file, ethers.isAddress, (amount) => parseTokenAmount(amount, units));
+    const fileHash = createHash("sha256").update(fs.readFileSync(taskArgs.file)).digest("hex");
+    const journalPath = taskArgs.journal ?? `${taskArgs.file}.journal.json`;
+    const journal = loadJournal(journalPath, contract, token, fileHash);
+
+    // A chunk sent by a previous run may have been mined after that run died
+    if (journal.pending) {
+      const txHash = await findPendingChunk(ethers.provider, signer.address, contract, journal.pending);
+      if (txHash !== null) {
+        const receipt = await ethers.provider.getTransactionReceipt(txHash);
+        const inMempool = receipt === null && (await ethers.provider.getTransaction(txHash)) !== null;
+        if (inMempool) {
+          log(`Waiting for chunk transaction ${txHash} from a previous run...`);
+          await ethers.provider.waitForTransaction(txHash);
+        }
+        const finalReceipt = await ethers.provider.getTransactionReceipt(txHash);
+        if (finalReceipt?.status === 1) {
+          journal.completed.push(...journal.pending.lines);
+          journal.chunks.push({ lines: journal.pending.lines, txHash });
+        }
+      }
+      delete journal.pending;
+      saveJournal(journalPath, journal);
+    }
+
+    const done = new Set(journal.completed);
+    let remaining = rows.filter((row) => !done.has(row.line));
+    log(`${rows.length} recipients in ${taskArgs.file}, ${remaining.length} left to distribute`);
+
+    const block = await ethers.provider.getBlock("latest");
+    const gasBudget = BigInt(Math.floor(Number(block!.gasLimit) * gasFraction));
+
+    // Each chunk is packed into a single encrypted input, reused if the chunk is estimated more than once
+    const prepared = new Map<string, ContractTransaction>();
+    const prepare = async (chunk: BatchRow[]) => {
+      const key = chunk.map((row) => row.line).join(",");
+      if (!prepared.has(key)) {
+        prepared.set(key, await client.prepareBatchDistribution(token, chunk));
+      }
+      return prepared.get(key)!;
+    };
+
+    // Estimates a chunk's gas, treating a failed estimate (e.g. above the block gas limit) as over budget
+    const estimate = async (chunk: BatchRow[]) => {
+      try {
+        return await signer.estimateGas(await prepare(chunk));
+      } catch (error) {
+        if (chunk.length === 1) {
+          throw error;
+        }
+        return undefined;
+      }
+    };
 
-    const distributor = await ethers.getContractAt("PrivateTokenDistributor", taskArgs.contract);
-    const token = await ethers.getContractAt("MockERC20", taskArgs.token);
+    const transactions: string[] = [];
+    let chunkSize = MAX_PACKED_AMOUNTS;
+    while (remaining.length > 0) {
+      chunkSize = Math.min(chunkSize, remaining.length);
+      let chunk = remaining.slice(0, chunkSize);
+      let gas = await estimate(chunk);
+      while (gas === undefined || gas > gasBudget) {
+        if (chunk.length === 1) {
+          throw new Error(`A single distribution needs ${gas} gas, above the budget of ${gasBudget}`);
+        }
+        // Scale the chunk down proportionally (or halve it if it could not be estimated), dropping at least one row
+        const scaled = gas === undefined ? chunk.length / 2 : (chunk.length * Number(gasBudget)) / Number(gas);
+        chunkSize = Math.max(1, Math.min(chunk.length - 1, Math.floor(scaled)));
+        chunk = remaining.slice(0, chunkSize);
+        gas = await estimate(chunk);
+      }
 
-    console.log(`Distributing ${taskArgs.amount} tokens to ${taskArgs.recipient}`);
+      const lines = chunk.map((row) => row.line);
+      const request = await prepare(chunk);
+      const nonce = await signer.getNonce("pending");
+      journal.pending = { lines, nonce, fromBlock: await ethers.provider.getBlockNumber() };
+      saveJournal(journalPath, journal);
+      const tx = await signer.sendTransaction({ ...request, nonce });
+      journal.pending.txHash = tx.hash;
+      saveJournal(journalPath, journal);
 
-    // Create encrypted input
-    const encryptedAmount = await fhevm
-      .createEncryptedInput(taskArgs.contract, deployer.address)
-      .add32(parseInt(taskArgs.amount))
-      .encrypt();
+      const receipt = await tx.wait();
+      if (receipt?.status !== 1) {
+        throw new Error(`Chunk transaction ${tx.hash} failed; re-run the task to retry`);
+      }
+      journal.completed.push(...lines);
+      journal.chunks.push({ lines, txHash: tx.hash });
+      delete journal.pending;
+      saveJournal(journalPath, journal);
+      transactions.push(tx.hash);
 
-    // Distribute tokens
-    const tx = await distributor.distributeTokens(
-      taskArgs.recipient,
+      remaining = remaining.slice(chunk.length);
+      log(`Distributed to ${chunk.length} recipients (gas ${receipt.gasUsed}). Transaction: ${tx.hash}`);
+    }
+
+    log(`Batch distribution complete. Journal: ${journalPath}`);
+    return output({ token, recipients: rows.length, journal: journalPath, transactions });
+  });
+
+/**
+ * Example:
+ *   - npx hardhat create-vouchers --file recipients.csv --out vouchers.json --network localhost
+ *
+ * Encrypts every amount for its recipient and signs an EIP-712 claim voucher with the signer, who must hold the
+ * distributor role. Nothing is sent on-chain: recipients redeem their own voucher with `claim-voucher` and pay
+ * the gas. The file holds no cleartext amounts and each voucher can only be claimed by its recipient, so it can
+ * be shared as a whole.
+ */
+distributorTask("create-vouchers", "Sign a claim voucher for every recipient in a CSV or JSON file")
+  .addOptionalParam("token", "The token contract address")
+  .addParam("file", "Path to a CSV (address,amount) or JSON recipients file with human-readable amounts")
+  .addOptionalParam("out", "Path of the voucher file", "vouchers.json")
+  .addOptionalParam("expiresIn", "Seconds from the latest block until the vouchers expire", "2592000")
+  .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
+    const { ethers } = hre;
+    const expiresIn = parseInteger("expires-in", taskArgs.expiresIn, 1);
+
+    const { client, distributor, contract, signer, log, output } = await setupDistributorTask(hre, taskArgs);
+    const { token, units } = await resolveToken(client, taskArgs.token);
+    if (!(await distributor.hasRole(await distributor.DISTRIBUTOR_ROLE(), signer.address))) {
+      throw new Error(`${signer.address} does not hold the distributor role, so its vouchers could not be claimed`);
+    }
+
+    const rows = parseRecipientsFile(taskArgs.file, ethers.isAddress, (amount) => parseTokenAmount(amount, units));
+    const expiry = (await ethers.provider.getBlock("latest"))!.timestamp + expiresIn;
+    const [, name, version, chainId, verifyingContract] = await distributor.eip712Domain();
+    const domain = { name, version, chainId, verifyingContract };
+
+    const vouchers: Voucher[] = [];
+    for (const row of rows) {
+      // The recipient submits the claim, so the input is encrypted with the recipient as its user
+      const encrypted = await client.encryptAmounts([row.amount], row.recipient);
+      const voucher = {
+        recipient: row.recipient,
+        handle: hexlify(encrypted.handles[0]),
+        inputProof: hexlify(encrypted.inputProof),
+        expiry,
+        nonce: BigInt(hexlify(randomBytes(32))).toString(),
+      };
+      const signature = await signer.signTypedData(domain, CLAIM_TYPES, {
+        token,
+        recipient: voucher.recipient,
+        handle: voucher.handle,
+        proofHash: keccak256(voucher.inputProof),
+        expiry: voucher.expiry,
+        nonce: voucher.nonce,
+      });
+      vouchers.push({ ...voucher, signature });
+    }
+
+    const file: VoucherFile = { contract, chainId: chainId.toString(), token, vouchers };
+    fs.writeFileSync(taskArgs.out, JSON.stringify(file, null, 2));
+    log(`Signed ${vouchers.length} vouchers expiring at ${new Date(expiry * 1000).toISOString()}: ${taskArgs.out}`);
+
+    return output({ token, out: taskArgs.out, vouchers: vouchers.length, expiry });
+  });
+
+/**
+ * Example:
+ *   - npx hardhat claim-voucher --file vouchers.json --signer 1 --network localhost
+ *
+ * Redeems the signer's voucher from a file written by `create-vouchers`. The distributor defaults to the one the
+ * vouchers were signed for.
+ */
+distributorTask("claim-voucher", "Claim your allocation from a signed voucher")
+  .addParam("file", "Path to the voucher file")
+  .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
+    const { ethers } = hre;
+    const file: VoucherFile = JSON.parse(fs.readFileSync(taskArgs.file, "utf8"));
+
+    const { client, distributor, contract, signer, log, output } = await setupDistributorTask(hre, {
+      ...taskArgs,
+      contract: taskArgs.contract ?? file.contract,
+    });
+    const { chainId } = await ethers.provider.getNetwork();
+    if (contract.toLowerCase() !== file.contract.toLowerCase() || chainId.toString() !== file.chainId) {
+      throw new Error(`Vouchers in ${taskArgs.file} were signed for ${file.contract} on chain ${file.chainId}`);
+    }
+    const { token, units } = await resolveToken(client, file.token);
+
+    const voucher = file.vouchers.find((entry) => entry.recipient.toLowerCase() === signer.address.toLowerCase());
+    if (voucher === undefined) {
+      throw new Error(`${taskArgs.file} has no voucher for ${signer.address}`);
+    }
+    if (await distributor.isVoucherClaimed(signer.address, voucher.nonce)) {
+      throw new Error(`The voucher for ${signer.address} has already been claimed`);
+    }
+
+    const tx = await distributor.claim(
+      token,
+      voucher.handle,
+      voucher.inputProof,
+      voucher.expiry,
+      voucher.nonce,
+      voucher.signature,
+    );
+    await tx.wait();
+    log(`Voucher claimed. Transaction: ${tx.hash}`);
+
+    // The claim is clamped to zero if deposits do not cover it, so show the resulting balance
+    const balance = await client.getDecryptedBalance(token);
+    log(`Balance: ${formatTokenAmount(balance, units)}`);
+
+    return output({
+      token,
+      recipient: signer.address,
+      nonce: voucher.nonce,
+      balance: formatTokenAmount(balance, units),
+      transaction: tx.hash,
+    });
+  });
+
+/**
+ * Examples:
+ *   - npx hardhat check-balance --signer 1 --network localhost
+ *   - npx hardhat check-balance --signer <AUDITOR> --address <RECIPIENT_ADDRESS> --network localhost
+ *
+ * Checking another address reads its audited balance, so the signer must hold the auditor role.
+ */
+distributorTask("check-balance", "Check encrypted balance of a recipient")
+  .addOptionalParam("token", "The token contract address")
+  .addOptionalParam("address", "The address to check (defaults to the signer)")
+  .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
+    const { client, distributor, signer, log, output } = await setupDistributorTask(hre, taskArgs);
+    const { token, units } = await resolveToken(client, taskArgs.token);
+    const account = taskArgs.address === undefined ? signer.address : parseAddress("address", taskArgs.address);
+
+    // Get encrypted balance
+    const encryptedBalance =
+      account === signer.address
+        ? await distributor.getMyBalance(token)
+        : await distributor.getAuditedBalance(token, account);
+    log(`Encrypted balance handle: ${encryptedBalance}`);
+
+    let balance: bigint | undefined;
+    try {
+      balance = await client.decrypt(encryptedBalance);
+    } catch (error) {
+      if (!(error instanceof DecryptionError)) {
+        throw error;
+      }
+      log("Cannot decrypt balance (not authorized)");
+    }
+    if (balance !== undefined) {
+      log(`Decrypted balance: ${formatTokenAmount(balance, units)}`);
+    }
+
+    return output({
+      token,
+      account,
+      handle: encryptedBalance,
+      balance: balance === undefined ? null : formatTokenAmount(balance, units),
+    });
+  });
+
+/**
+ * Example:
+ *   - npx hardhat transfer-private --signer 1 --to <RECEIVER_ADDRESS> --amount 10 --network localhost
+ *
+ * An amount above your balance transfers nothing rather than reverting; the task decrypts and prints what was
+ * actually moved.
+ */
+distributorTask("transfer-private", "Transfer part of your encrypted balance to another address")
+  .addOptionalParam("token", "The token contract address")
+  .addParam("to", "The receiver address")
+  .addParam("amount", "The amount to transfer")
+  .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
+    const { client, distributor, signer, log, output } = await setupDistributorTask(hre, taskArgs);
+    const { token, units } = await resolveToken(client, taskArgs.token);
+    const to = parseAddress("to", taskArgs.to);
+    const amount = parseTokenAmount(taskArgs.amount, units);
+
+    log(`Transferring ${formatTokenAmount(amount, units)} to ${to}`);
+
+    const encryptedAmount = await client.encryptAmounts([amount]);
+    const tx = await distributor.transferEncrypted(token, to, encryptedAmount.handles[0], encryptedAmount.inputProof);
+    const receipt = await tx.wait();
+    log(`Transfer submitted. Transaction: ${tx.hash}`);
+
+    const event = receipt!.logs
+      .map((entry) => distributor.interface.parseLog(entry))
+      .find((parsed) => parsed?.name === "EncryptedTransfer");
+    const transferred = await client.decrypt(event!.args.amount);
+    if (transferred === 0n) {
+      log("Nothing was transferred: your balance does not cover the amount.");
+    } else {
+      log(`Transferred ${formatTokenAmount(transferred, units)}.`);
+    }
+
+    return output({
+      token,
+      from: signer.address,
+      to,
+      requested: formatTokenAmount(amount, units),
+      transferred: formatTokenAmount(transferred, units),
+      transaction: tx.hash,
+    });
+  });
+
+/**
+ * Example:
+ *   - npx hardhat create-vesting --recipient <RECIPIENT_ADDRESS> --amount 1000 --cliff 2592000 --duration 31536000
+ *       --network localhost
+ */
+distributorTask("create-vesting", "Grant an encrypted amount that vests over time")
+  .addOptionalParam("token", "The token contract address")
+  .addParam("recipient", "The recipient address")
+  .addParam("amount", "The amount to grant")
+  .addOptionalParam("start", "Unix timestamp at which vesting starts (defaults to the latest block)")
+  .addParam("cliff", "Seconds after the start before anything vests")
+  .addParam("duration", "Seconds after the start until the grant has fully vested")
+  .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
+    const { ethers } = hre;
+    const { client, distributor, log, output } = await setupDistributorTask(hre, taskArgs);
+    const { token, units } = await resolveToken(client, taskArgs.token);
+    const recipient = parseAddress("recipient", taskArgs.recipient);
+    const amount = parseTokenAmount(taskArgs.amount, units);
+
+    const start =
+      taskArgs.start === undefined
+        ? (await ethers.provider.getBlock("latest"))!.timestamp
+        : parseInteger("start", taskArgs.start);
+    const cliff = parseInteger("cliff", taskArgs.cliff);
+    const duration = parseInteger("duration", taskArgs.duration, 1);
+
+    log(
+      `Granting ${formatTokenAmount(amount, units)} to ${recipient}, vesting from ${start} ` +
+        `(cliff ${cliff}s, duration ${duration}s)`,
+    );
+
+    const encryptedAmount = await client.encryptAmounts([amount]);
+
+    const tx = await distributor.createVesting(
+      token,
+      recipient,
       encryptedAmount.handles[0],
       encryptedAmount.inputProof,
+      start,
+      cliff,
+      duration,
     );
+    await tx.wait();
+    log(`Vesting created. Transaction: ${tx.hash}`);
 
+    return output({
+      token,
+      recipient,
+      amount: formatTokenAmount(amount, units),
+      start,
+      cliff,
+      duration,
+      transaction: tx.hash,
+    });
+  });
+
+distributorTask("vested-balance", "Release and decrypt the vested part of your grant")
+  .addOptionalParam("token", "The token contract address")
+  .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
+    const { client, distributor, signer, log, output } = await setupDistributorTask(hre, taskArgs);
+    const { token, units } = await resolveToken(client, taskArgs.token);
+
+    // The vested amount is computed under FHE, so it has to be refreshed in a transaction
+    const tx = await distributor.releaseVested(token);
     await tx.wait();
-    console.log(`Distribution complete. Transaction: ${tx.hash}`);
+    log(`Vested tokens released to your balance. Transaction: ${tx.hash}`);
+
+    const [encryptedTotal, encryptedReleased, start, cliff, duration] = await distributor.getMyVesting(token);
+    const total = await client.decrypt(encryptedTotal);
+    const released = await client.decrypt(encryptedReleased);
+
+    log(`Schedule: start ${start}, cliff ${cliff}s, duration ${duration}s`);
+    log(`Granted : ${formatTokenAmount(total, units)}`);
+    log(`Vested  : ${formatTokenAmount(released, units)}`);
+    log(`Unvested: ${formatTokenAmount(total - released, units)}`);
+
+    return output({
+      token,
+      account: signer.address,
+      start,
+      cliff,
+      duration,
+      granted: formatTokenAmount(total, units),
+      vested: formatTokenAmount(released, units),
+      unvested: formatTokenAmount(total - released, units),
+      transaction: tx.hash,
+    });
   });
 
-task("check-balance", "Check encrypted balance of a recipient")
-  .addParam("contract", "The distributor contract address")
-  .addParam("address", "The address to check")
+/**
+ * Examples:
+ *   - npx hardhat request-withdrawal --amount 50 --network localhost
+ *   - npx hardhat list-withdrawals --network localhost
+ *   - npx hardhat complete-withdrawal --id 1 --network localhost
+ *   - npx hardhat cancel-withdrawal --id 1 --network localhost
+ */
+distributorTask("request-withdrawal", "Request withdrawal of tokens")
+  .addOptionalParam("token", "The token contract address")
+  .addParam("amount", "The amount to withdraw")
   .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
-    const { ethers, fhevm } = hre;
-    const [, , recipient] = await ethers.getSigners(); // Use third signer as recipient
+    const { client, signer, log, output } = await setupDistributorTask(hre, taskArgs);
+    const { token, units } = await resolveToken(client, taskArgs.token);
+    const amount = parseTokenAmount(taskArgs.amount, units);
 
-    const distributor = await ethers.getContractAt("PrivateTokenDistributor", taskArgs.contract);
+    log(`Requesting withdrawal of ${formatTokenAmount(amount, units)}`);
 
-    // Get encrypted balance
-    const encryptedBalance = await distributor.connect(recipient).getMyBalance();
-    console.log(`Encrypted balance handle: ${encryptedBalance}`);
+    const { withdrawalId, unlockTime, transaction } = await client.requestWithdrawal(token, amount);
 
-    try {
-      // Try to decrypt (only works if the address matches the signer)
-      const { FhevmType } = await import("@fhevm/hardhat-plugin");
-      const decryptedBalance = await fhevm.userDecryptEuint(
-        FhevmType.euint32,
-        encryptedBalance,
-        taskArgs.contract,
-        recipient,
+    log(`Withdrawal request ${withdrawalId} submitted. Transaction: ${transaction}`);
+    log("The amount has been debited if your encrypted balance covers it; otherwise nothing is paid out.");
+    log(`Complete it with --id ${withdrawalId} after ${new Date(Number(unlockTime) * 1000).toISOString()}.`);
+
+    return output({
+      token,
+      account: signer.address,
+      withdrawalId,
+      amount: formatTokenAmount(amount, units),
+      unlockTime,
+      transaction,
+    });
+  });
+
+distributorTask("list-withdrawals", "List pending withdrawal requests")
+  .addOptionalParam("token", "The token contract address")
+  .addOptionalParam("address", "The address whose requests to list (defaults to the signer)")
+  .addOptionalParam("offset", "Number of requests to skip", "0")
+  .addOptionalParam("limit", "Maximum number of requests to list", "50")
+  .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
+    const offset = parseInteger("offset", taskArgs.offset);
+    const limit = parseInteger("limit", taskArgs.limit, 1);
+    const { client, distributor, signer, log, output } = await setupDistributorTask(hre, taskArgs);
+    const { token, units } = await resolveToken(client, taskArgs.token);
+    const account = taskArgs.address === undefined ? signer.address : parseAddress("address", taskArgs.address);
+
+    const [ids, total] = await distributor.getWithdrawalRequests(token, account, offset, limit);
+    const requests = [];
+    for (const withdrawalId of ids) {
+      const { amount, requestTime, unlockTime, decrypting } = (await client.getWithdrawal(withdrawalId))!;
+      requests.push({ withdrawalId, amount: formatTokenAmount(amount, units), requestTime, unlockTime, decrypting });
+      const status = decrypting ? "waiting on the decryption oracle" : "awaiting completion";
+      log(
+        `  #${withdrawalId}: ${formatTokenAmount(amount, units)}, unlocks ` +
+          `${new Date(Number(unlockTime) * 1000).toISOString()}, ${status}`,
       );
-      console.log(`Decrypted balance: ${decryptedBalance} tokens`);
-    } catch (error) {
-      console.log("Cannot decrypt balance (not authorized or balance not set)");
     }
+    log(`${account} has ${total} pending withdrawal(s); showing ${ids.length} from offset ${offset}.`);
+
+    return output({ token, account, total, offset, requests });
+  });
+
+distributorTask("complete-withdrawal", "Complete a withdrawal after its delay")
+  .addParam("id", "The withdrawal request ID")
+  .addFlag("wait", "Wait until the withdrawal unlocks instead of failing while it is locked")
+  .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
+    const withdrawalId = parseInteger("id", taskArgs.id, 1);
+    const { client, signer, log, output } = await setupDistributorTask(hre, taskArgs);
+
+    if (taskArgs.wait) {
+      const { unlockTime } = await client.waitUntilWithdrawable(withdrawalId);
+      log(`Withdrawal ${withdrawalId} unlocked at ${new Date(Number(unlockTime) * 1000).toISOString()}.`);
+    }
+    log(`Attempting to complete withdrawal ${withdrawalId}...`);
+
+    const { completed, transaction } = await client.completeWithdrawal(withdrawalId);
+    log(`Decryption of the debited amount requested. Transaction: ${transaction}`);
+    if (completed === null) {
+      log("Tokens will be transferred once the decryption oracle calls back.");
+    } else {
+      log(completed ? "Withdrawal completed." : "Decryption callback has not been processed yet.");
+    }
+
+    return output({ account: signer.address, withdrawalId, completed, transaction });
+  });
+
+distributorTask("cancel-withdrawal", "Cancel a pending withdrawal and restore the debited amount")
+  .addParam("id", "The withdrawal request ID")
+  .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
+    const withdrawalId = parseInteger("id", taskArgs.id, 1);
+    const { client, signer, log, output } = await setupDistributorTask(hre, taskArgs);
+
+    const { transaction } = await client.cancelWithdrawal(withdrawalId);
+    log(`Withdrawal ${withdrawalId} cancelled. Transaction: ${transaction}`);
+
+    return output({ account: signer.address, withdrawalId, transaction });
   });
 
-task("request-withdrawal", "Request withdrawal of tokens")
-  .addParam("contract", "The distributor contract address")
+/**
+ * Example:
+ *   - npx hardhat set-withdrawal-policy --delay 86400 --min 10 --max 10000 --network localhost
+ */
+distributorTask("set-withdrawal-policy", "Set the withdrawal delay and size limits of a token (owner only)")
+  .addOptionalParam("token", "The token contract address")
+  .addParam("delay", "Seconds between a request and its completion")
+  .addParam("min", "The smallest amount a request can ask for")
+  .addOptionalParam("max", "The largest amount a request can ask for (defaults to no limit)")
+  .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
+    const delay = parseInteger("delay", taskArgs.delay);
+    const { client, distributor, log, output } = await setupDistributorTask(hre, taskArgs);
+    const { token, units } = await resolveToken(client, taskArgs.token);
+    const minAmount = parseTokenAmount(taskArgs.min, units);
+    const maxAmount = taskArgs.max === undefined ? MAX_UINT64 : parseTokenAmount(taskArgs.max, units);
+    if (minAmount > maxAmount) {
+      throw new Error("Argument --min must not exceed --max");
+    }
+
+    const tx = await distributor.setWithdrawalPolicy(token, delay, minAmount, maxAmount);
+    await tx.wait();
+    log(
+      `Withdrawals of ${formatTokenAmount(minAmount, units)} to ${formatTokenAmount(maxAmount, units)} now wait ` +
+        `${delay}s. Transaction: ${tx.hash}`,
+    );
+
+    return output({
+      token,
+      delay,
+      min: formatTokenAmount(minAmount, units),
+      max: formatTokenAmount(maxAmount, units),
+      transaction: tx.hash,
+    });
+  });
+
+/**
+ * Examples:
+ *   - npx hardhat set-confidential-token --network localhost
+ *   - npx hardhat wrap-deposits --amount 500 --network localhost
+ *   - npx hardhat withdraw-confidential --signer 1 --amount 10 --network localhost
+ *   - npx hardhat confidential-balance --signer 1 --network localhost
+ *   - npx hardhat unwrap --signer 1 --amount 10 --network localhost
+ *   - npx hardhat wrap --signer 1 --amount 10 --network localhost
+ *
+ * Confidential withdrawals pay out in a confidential token wrapping the distributed ERC20, from a reserve the
+ * treasurer wraps with `wrap-deposits`. The amount withdrawn is never decrypted on-chain; only unwrapping back to
+ * the ERC20 reveals it.
+ */
+distributorTask("set-confidential-token", "Enable confidential withdrawals of a token (owner only)")
+  .addOptionalParam("token", "The token contract address")
+  .addOptionalParam(
+    "wrapper",
+    "The confidential token wrapping --token, or the zero address to disable (defaults to the ConfidentialToken deployment)",
+  )
+  .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
+    const { client, distributor, log, output } = await setupDistributorTask(hre, taskArgs);
+    const { token } = await resolveToken(client, taskArgs.token);
+    const wrapper =
+      taskArgs.wrapper === undefined
+        ? await resolveDeployedAddress(hre, "ConfidentialToken")
+        : parseAddress("wrapper", taskArgs.wrapper);
+    if (wrapper === undefined) {
+      throw new Error(`No ConfidentialToken deployment found on network "${hre.network.name}"; pass --wrapper`);
+    }
+
+    const tx = await distributor.setConfidentialToken(token, wrapper);
+    await tx.wait();
+    log(
+      wrapper === hre.ethers.ZeroAddress
+        ? `Confidential withdrawals disabled. Transaction: ${tx.hash}`
+        : `Confidential withdrawals pay out in ${wrapper}. Transaction: ${tx.hash}`,
+    );
+
+    return output({ token, wrapper, transaction: tx.hash });
+  });
+
+distributorTask("wrap-deposits", "Wrap deposited tokens into the reserve confidential withdrawals are paid from")
+  .addOptionalParam("token", "The token contract address")
+  .addParam("amount", "The amount of deposits to wrap")
+  .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
+    const { client, distributor, log, output } = await setupDistributorTask(hre, taskArgs);
+    const { token, units } = await resolveToken(client, taskArgs.token);
+    const amount = parseTokenAmount(taskArgs.amount, units);
+
+    const tx = await distributor.wrapDeposits(token, amount * units.rate);
+    await tx.wait();
+    log(`Wrapped ${formatTokenAmount(amount, units)} of deposits. Transaction: ${tx.hash}`);
+
+    return output({ token, amount: formatTokenAmount(amount, units), transaction: tx.hash });
+  });
+
+distributorTask("withdraw-confidential", "Withdraw into the confidential token without revealing the amount")
+  .addOptionalParam("token", "The token contract address")
   .addParam("amount", "The amount to withdraw")
+  .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
+    const { client, signer, log, output } = await setupDistributorTask(hre, taskArgs);
+    const { token, units } = await resolveToken(client, taskArgs.token);
+    const amount = parseTokenAmount(taskArgs.amount, units);
+
+    const { withdrawn, transaction } = await client.withdrawConfidential(token, amount);
+    log(`Confidential withdrawal submitted. Transaction: ${transaction}`);
+    if (withdrawn === 0n) {
+      log("Nothing was withdrawn: your balance or the wrapped reserve does not cover the amount.");
+    } else {
+      log(`Withdrew ${formatTokenAmount(withdrawn, units)} into your confidential token balance.`);
+    }
+
+    return output({
+      token,
+      account: signer.address,
+      requested: formatTokenAmount(amount, units),
+      withdrawn: formatTokenAmount(withdrawn, units),
+      transaction,
+    });
+  });
+
+distributorTask("confidential-balance", "Decrypt your balance of a token's confidential token")
+  .addOptionalParam("token", "The token contract address")
+  .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
+    const { client, signer, log, output } = await setupDistributorTask(hre, taskArgs);
+    const { token, units } = await resolveToken(client, taskArgs.token);
+
+    const balance = await client.getConfidentialBalance(token);
+    log(`Confidential balance: ${formatTokenAmount(balance, units)}`);
+
+    return output({ token, account: signer.address, balance: formatTokenAmount(balance, units) });
+  });
+
+distributorTask("wrap", "Wrap your tokens into the token's confidential token")
+  .addOptionalParam("token", "The token contract address")
+  .addParam("amount", "The amount to wrap")
+  .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
+    const { client, signer, log, output } = await setupDistributorTask(hre, taskArgs);
+    const { token, units } = await resolveToken(client, taskArgs.token);
+    const amount = parseTokenAmount(taskArgs.amount, units);
+
+    const { transaction } = await client.wrap(token, amount);
+    log(`Wrapped ${formatTokenAmount(amount, units)}. Transaction: ${transaction}`);
+
+    return output({ token, account: signer.address, amount: formatTokenAmount(amount, units), transaction });
+  });
+
+distributorTask("unwrap", "Unwrap your confidential tokens back into the token")
+  .addOptionalParam("token", "The token contract address")
+  .addParam("amount", "The amount to unwrap")
+  .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
+    const { client, signer, log, output } = await setupDistributorTask(hre, taskArgs);
+    const { token, units } = await resolveToken(client, taskArgs.token);
+    const amount = parseTokenAmount(taskArgs.amount, units);
+
+    const { unwrapped, transaction } = await client.unwrap(token, amount);
+    log(`Unwrap requested. Transaction: ${transaction}`);
+    if (unwrapped === null) {
+      log("Tokens will be released once the decryption oracle calls back.");
+    } else {
+      log(`Unwrapped ${formatTokenAmount(unwrapped, units)}.`);
+    }
+
+    return output({
+      token,
+      account: signer.address,
+      requested: formatTokenAmount(amount, units),
+      unwrapped: unwrapped === null ? null : formatTokenAmount(unwrapped, units),
+      transaction,
+    });
+  });
+
+/**
+ * Examples:
+ *   - npx hardhat set-expiry --expiry 1767225600 --network localhost
+ *   - npx hardhat clawback --network localhost
+ */
+distributorTask("set-expiry", "Set when a token's distribution expires, or 0 for never (owner only)")
+  .addOptionalParam("token", "The token contract address")
+  .addParam("expiry", "The expiry as a unix timestamp, or 0 for no expiry")
+  .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
+    const expiry = parseInteger("expiry", taskArgs.expiry);
+    const { client, distributor, log, output } = await setupDistributorTask(hre, taskArgs);
+    const { token } = await resolveToken(client, taskArgs.token);
+
+    const tx = await distributor.setDistributionExpiry(token, expiry);
+    await tx.wait();
+    log(
+      expiry === 0
+        ? `The distribution no longer expires. Transaction: ${tx.hash}`
+        : `The distribution expires at ${new Date(expiry * 1000).toISOString()}. Transaction: ${tx.hash}`,
+    );
+
+    return output({ token, expiry, transaction: tx.hash });
+  });
+
+distributorTask("clawback", "Claw back what recipients have not withdrawn from an expired distribution (owner only)")
+  .addOptionalParam("token", "The token contract address")
+  .addOptionalParam(
+    "recipients",
+    "Comma-separated recipient addresses (defaults to every address that received the token, found from the events)",
+  )
+  .addOptionalParam("batchSize", "Maximum number of recipients per transaction", "20")
+  .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
+    const { ethers, fhevm } = hre;
+    const batchSize = parseInteger("batch-size", taskArgs.batchSize, 1);
+    const { client, distributor, contract, signer, log, output } = await setupDistributorTask(hre, taskArgs);
+    const { token, units } = await resolveToken(client, taskArgs.token);
+
+    let recipients: string[];
+    if (taskArgs.recipients !== undefined) {
+      recipients = parseAddressList("recipients", taskArgs.recipients);
+    } else {
+      // Index the events in memory; every address with a timeline in the token may hold a balance or a grant
+      const { chainId } = await ethers.provider.getNetwork();
+      const ledger: Ledger = { contract, chainId: chainId.toString(), lastBlock: -1, events: [] };
+      await syncLedger(distributor, ledger);
+      recipients = getRecipientHistories(ledger)
+        .filter((history) => history.token.toLowerCase() === token.toLowerCase())
+        .map((history) => history.recipient);
+      log(`Found ${recipients.length} recipient(s) in the distributor's events.`);
+    }
+    if (recipients.length === 0) {
+      throw new Error("No recipients to claw back");
+    }
+
+    const expiry = await distributor.distributionExpiry(token);
+    const { timestamp } = (await ethers.provider.getBlock("latest"))!;
+    if (expiry === 0n || BigInt(timestamp) < expiry) {
+      throw new Error("The distribution has not expired; set an expiry with set-expiry");
+    }
+
+    const transactions: string[] = [];
+    for (let start = 0; start < recipients.length; start += batchSize) {
+      const chunk = recipients.slice(start, start + batchSize);
+      const tx = await distributor.clawback(token, chunk);
+      await tx.wait();
+      transactions.push(tx.hash);
+      log(`Clawed back ${chunk.length} recipient(s). Transaction: ${tx.hash}`);
+    }
+
+    let recovered: string | null = null;
+    if (!fhevm.isMock) {
+      log("The recovered tokens will be transferred to you once the decryption oracle calls back.");
+    } else {
+      // On the mock network the oracle has to be driven manually
+      const fromBlock = await ethers.provider.getBlockNumber();
+      await fhevm.awaitDecryptionOracle();
+      const events = await distributor.queryFilter(
+        distributor.filters.ClawbackCompleted(token, signer.address),
+        fromBlock,
+      );
+      recovered = formatTokenAmount(
+        events.reduce((sum, event) => sum + event.args.amount, 0n),
+        units,
+      );
+      log(`Recovered ${recovered}.`);
+      const failed = await distributor.queryFilter(
+        distributor.filters.ClawbackFailed(token, signer.address),
+        fromBlock,
+      );
+      for (const event of failed) {
+        log(`The token refused to transfer ${formatTokenAmount(event.args.amount, units)}; it stays unallocated.`);
+      }
+    }
+
+    return output({ token, recipients, recovered, transactions });
+  });
+
+/**
+ * Example:
+ *   - npx hardhat close-distribution --network localhost
+ *
+ * Balances recipients have not withdrawn stay allocated; run clawback first to return them to the owner instead.
+ */
+distributorTask(
+  "close-distribution",
+  "Close a distribution and refund the unallocated funds to its depositors (owner only)",
+)
+  .addOptionalParam("token", "The token contract address")
+  .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
+    const { ethers, fhevm } = hre;
+    const { client, distributor, log, output } = await setupDistributorTask(hre, taskArgs);
+    const { token, units } = await resolveToken(client, taskArgs.token);
+    if (await distributor.distributionClosed(token)) {
+      throw new Error("The distribution is already closed");
+    }
+
+    const fromBlock = await ethers.provider.getBlockNumber();
+    const tx = await distributor.closeDistribution(token);
+    await tx.wait();
+    log(`Closed the distribution. Transaction: ${tx.hash}`);
+
+    let refunds: { depositor: string; amount: string }[] | null = null;
+    if (!fhevm.isMock) {
+      log("The unallocated funds will be refunded once the decryption oracle calls back.");
+    } else {
+      // On the mock network the oracle has to be driven manually
+      await fhevm.awaitDecryptionOracle();
+      const events = await distributor.queryFilter(distributor.filters.Refunded(token), fromBlock);
+      refunds = events.map((event) => ({
+        depositor: event.args.depositor,
+        amount: `${formatUnits(event.args.amount, units.decimals)} ${units.symbol}`,
+      }));
+      for (const refund of refunds) {
+        log(`Refunded ${refund.amount} to ${refund.depositor}`);
+      }
+      if (refunds.length === 0) {
+        log("Nothing was left to refund.");
+      }
+    }
+
+    return output({ token, refunds, transaction: tx.hash });
+  });
+
+/**
+ * Examples:
+ *   - npx hardhat open-round --network localhost
+ *   - npx hardhat close-round --network localhost
+ *   - npx hardhat list-rounds --network localhost
+ */
+distributorTask("open-round", "Open the next numbered distribution round (owner only)")
+  .addOptionalParam("token", "The token contract address")
+  .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
+    const { client, distributor, log, output } = await setupDistributorTask(hre, taskArgs);
+    const { token } = await resolveToken(client, taskArgs.token);
+    const open = await distributor.currentRound(token);
+    if (open !== 0n) {
+      throw new Error(`Round ${open} is still open; close it with close-round first`);
+    }
+
+    const tx = await distributor.openRound(token);
+    await tx.wait();
+    const round = await distributor.currentRound(token);
+    log(`Opened round ${round}; allocations now count towards it. Transaction: ${tx.hash}`);
+
+    return output({ token, round, transaction: tx.hash });
+  });
+
+distributorTask("close-round", "Close the open distribution round, freezing its total (owner only)")
+  .addOptionalParam("token", "The token contract address")
+  .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
+    const { client, distributor, log, output } = await setupDistributorTask(hre, taskArgs);
+    const { token } = await resolveToken(client, taskArgs.token);
+    const round = await distributor.currentRound(token);
+    if (round === 0n) {
+      throw new Error("No round is open");
+    }
+
+    const tx = await distributor.closeRound(token);
+    await tx.wait();
+    log(`Closed round ${round}. Transaction: ${tx.hash}`);
+
+    return output({ token, round, transaction: tx.hash });
+  });
+
+/**
+ * Round totals are decrypted when the signer is the owner or an auditor, and each round also shows the signer's own
+ * contribution, so recipients can run it too.
+ */
+distributorTask("list-rounds", "List a token's distribution rounds with their decrypted totals")
+  .addOptionalParam("token", "The token contract address")
+  .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
+    const { client, distributor, signer, log, output } = await setupDistributorTask(hre, taskArgs);
+    const { token, units } = await resolveToken(client, taskArgs.token);
+    const count = await distributor.getRoundCount(token);
+    if (count === 0n) {
+      log("No rounds yet; open one with open-round.");
+    }
+
+    const rounds = [];
+    for (let round = 1n; round <= count; round++) {
+      const [openedAt, closedAt, totalHandle] = await distributor.getRound(token, round);
+      let total: string | null = null;
+      try {
+        total = formatTokenAmount(await client.decrypt(totalHandle), units);
+      } catch (error) {
+        if (!(error instanceof DecryptionError)) {
+          throw error;
+        }
+      }
+      const contribution = formatTokenAmount(
+        await client.decrypt(await distributor.getMyRoundContribution(token, round)),
+        units,
+      );
+      const opened = new Date(Number(openedAt) * 1000).toISOString();
+      const closed = closedAt === 0n ? null : new Date(Number(closedAt) * 1000).toISOString();
+      rounds.push({ round, openedAt: opened, closedAt: closed, total, contribution });
+
+      log(
+        `Round ${round}: opened ${opened}, ${closed === null ? "open" : `closed ${closed}`}, ` +
+          `total ${total ?? "(owner and auditors only)"}, ${signer.address} received ${contribution}`,
+      );
+    }
+
+    return output({ token, rounds });
+  });
+
+/**
+ * Examples:
+ *   - npx hardhat schedule-distribution --recipient <RECIPIENT_ADDRESS> --amount 50 --in 3600 --network localhost
+ *   - npx hardhat cancel-scheduled --id 1 --network localhost
+ *   - npx hardhat keeper --network localhost
+ */
+distributorTask("schedule-distribution", "Queue an encrypted distribution that anyone can execute once it is due")
+  .addOptionalParam("token", "The token contract address")
+  .addParam("recipient", "The recipient address")
+  .addParam("amount", "The amount to distribute")
+  .addOptionalParam("at", "Unix timestamp from which the distribution can be executed")
+  .addOptionalParam("in", "Seconds after the latest block from which the distribution can be executed")
   .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
     const { ethers } = hre;
-    const [, , recipient] = await ethers.getSigners();
+    if ((taskArgs.at === undefined) === (taskArgs.in === undefined)) {
+      throw new Error("Pass exactly one of --at and --in");
+    }
+    const { client, log, output } = await setupDistributorTask(hre, taskArgs);
+    const { token, units } = await resolveToken(client, taskArgs.token);
+    const recipient = parseAddress("recipient", taskArgs.recipient);
+    const amount = parseTokenAmount(taskArgs.amount, units);
+    const executeAfter =
+      taskArgs.at === undefined
+        ? (await ethers.provider.getBlock("latest"))!.timestamp + parseInteger("in", taskArgs.in, 1)
+        : parseInteger("at", taskArgs.at, 1);
+
+    const { scheduleId, transaction } = await client.scheduleDistribution(token, recipient, amount, executeAfter);
+    log(
+      `Scheduled distribution ${scheduleId} of ${formatTokenAmount(amount, units)} to ${recipient}, due ` +
+        `${new Date(executeAfter * 1000).toISOString()}. Transaction: ${transaction}`,
+    );
 
-    const distributor = await ethers.getContractAt("PrivateTokenDistributor", taskArgs.contract);
+    return output({
+      token,
+      recipient,
+      scheduleId,
+      amount: formatTokenAmount(amount, units),
+      executeAfter,
+      transaction,
+    });
+  });
 
-    console.log(`Requesting withdrawal of ${taskArgs.amount} tokens`);
+distributorTask("cancel-scheduled", "Cancel a scheduled distribution that has not been executed yet")
+  .addParam("id", "The scheduled distribution ID")
+  .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
+    const scheduleId = parseInteger("id", taskArgs.id, 1);
+    const { distributor, log, output } = await setupDistributorTask(hre, taskArgs);
 
-    const tx = await distributor.connect(recipient).requestWithdrawal(parseInt(taskArgs.amount));
+    const tx = await distributor.cancelScheduledDistribution(scheduleId);
     await tx.wait();
+    log(`Scheduled distribution ${scheduleId} cancelled. Transaction: ${tx.hash}`);
 
-    console.log(`Withdrawal request submitted. Transaction: ${tx.hash}`);
-    console.log("Wait for the delay period before completing withdrawal.");
+    return output({ scheduleId, transaction: tx.hash });
   });
 
-task("complete-withdrawal", "Complete withdrawal after delay")
-  .addParam("contract", "The distributor contract address")
+type KeeperResult = {
+  scheduleId: bigint;
+  recipient: string;
+  transaction?: string;
+  gasUsed?: bigint;
+  error?: string;
+};
+
+/**
+ * Polls the distributor and executes every scheduled distribution that is due. Any account can run it; with
+ * `--once` it makes a single pass and returns what it executed.
+ */
+distributorTask("keeper", "Execute scheduled distributions as they become due")
+  .addOptionalParam("interval", "Seconds between two polls", "15")
+  .addFlag("once", "Make a single pass instead of polling until stopped")
   .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
     const { ethers } = hre;
-    const [, , recipient] = await ethers.getSigners();
+    const interval = parseInteger("interval", taskArgs.interval, 1);
+    const { client, distributor, signer, log, output } = await setupDistributorTask(hre, taskArgs);
 
-    const distributor = await ethers.getContractAt("PrivateTokenDistributor", taskArgs.contract);
+    // IDs that were neither executed nor cancelled when last seen
+    const pending = new Set<bigint>();
+    let scheduled = 0n;
+    log(`Keeper running as ${signer.address}${taskArgs.once ? "" : `, polling every ${interval}s`}.`);
 
-    console.log("Attempting to complete withdrawal...");
+    for (;;) {
+      const count = await distributor.scheduledDistributionCount();
+      for (let id = scheduled + 1n; id <= count; id++) {
+        pending.add(id);
+      }
+      scheduled = count;
 
-    try {
-      const tx = await distributor.connect(recipient).completeWithdrawal();
-      await tx.wait();
-      console.log(`Withdrawal completed. Transaction: ${tx.hash}`);
-    } catch (error) {
-      console.log("Withdrawal failed:", error);
+      // The next transaction is mined after the latest block; on a node that only mines on demand the latest block
+      // can lag behind the wall clock, so whichever is later decides what is due
+      const latest = (await ethers.provider.getBlock("latest"))!.timestamp;
+      const now = BigInt(Math.max(latest + 1, Math.floor(Date.now() / 1000)));
+
+      const results: KeeperResult[] = [];
+      for (const id of pending) {
+        const entry = await client.getScheduledDistribution(id);
+        if (entry === null || entry.executed) {
+          pending.delete(id);
+          continue;
+        }
+        if (entry.executeAfter > now) {
+          continue;
+        }
+
+        try {
+          const { transaction, gasUsed } = await client.executeScheduledDistribution(id);
+          pending.delete(id);
+          results.push({ scheduleId: id, recipient: entry.recipient, transaction, gasUsed });
+          log(
+            `Executed scheduled distribution ${id} to ${entry.recipient}. Transaction: ${transaction}, gas ${gasUsed}`,
+          );
+        } catch (error) {
+          if (!(error instanceof TransactionRevertedError)) {
+            throw error;
+          }
+          // Left pending, so it is retried on the next poll (e.g. while the distributor is paused)
+          results.push({ scheduleId: id, recipient: entry.recipient, error: error.reason });
+          log(`Failed to execute scheduled distribution ${id}: ${error.reason}`);
+        }
+      }
+
+      if (taskArgs.once) {
+        return output({ results, pending: [...pending] });
+      }
+      await new Promise((resolve) => setTimeout(resolve, interval * 1000));
     }
   });
 
+/**
+ * Examples:
+ *   - npx hardhat grant-role --role treasurer --account <ADDRESS> --network localhost
+ *   - npx hardhat revoke-role --role treasurer --account <ADDRESS> --network localhost
+ *   - npx hardhat list-roles --network localhost
+ */
+distributorTask("grant-role", "Grant a distributor, treasurer, pauser or auditor role (owner only)")
+  .addParam("role", `The role to grant (${ROLES.join(", ")})`)
+  .addParam("account", "The account to grant the role to")
+  .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
+    const { distributor, log, output } = await setupDistributorTask(hre, taskArgs);
+    const account = parseAddress("account", taskArgs.account);
+    const role = await getRoleId(distributor, taskArgs.role);
+
+    const tx = await distributor.grantRole(role, account);
+    await tx.wait();
+    log(`Granted ${taskArgs.role} role to ${account}. Transaction: ${tx.hash}`);
+
+    return output({ role: taskArgs.role, account, transaction: tx.hash });
+  });
+
+distributorTask("revoke-role", "Revoke a distributor, treasurer, pauser or auditor role (owner only)")
+  .addParam("role", `The role to revoke (${ROLES.join(", ")})`)
+  .addParam("account", "The account to revoke the role from")
+  .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
+    const { distributor, log, output } = await setupDistributorTask(hre, taskArgs);
+    const account = parseAddress("account", taskArgs.account);
+    const role = await getRoleId(distributor, taskArgs.role);
+
+    const tx = await distributor.revokeRole(role, account);
+    await tx.wait();
+    log(`Revoked ${taskArgs.role} role from ${account}. Transaction: ${tx.hash}`);
+
+    return output({ role: taskArgs.role, account, transaction: tx.hash });
+  });
+
+distributorTask("list-roles", "List the owner, pause state and role members").setAction(
+  async (taskArgs, hre: HardhatRuntimeEnvironment) => {
+    const { ethers } = hre;
+    const { distributor, log, output } = await setupDistributorTask(hre, taskArgs);
+
+    const [owner, pendingOwner, paused] = await Promise.all([
+      distributor.owner(),
+      distributor.pendingOwner(),
+      distributor.paused(),
+    ]);
+    log(`Owner: ${owner}`);
+    if (pendingOwner !== ethers.ZeroAddress) {
+      log(`Pending owner: ${pendingOwner}`);
+    }
+    log(`Paused: ${paused}`);
+
+    const roles: Record<string, string[]> = {};
+    for (const name of ROLES) {
+      roles[name] = [...(await distributor.getRoleMembers(await getRoleId(distributor, name)))];
+      log(`${name}: ${roles[name].length > 0 ? roles[name].join(", ") : "(none)"}`);
+    }
+
+    return output({ owner, pendingOwner: pendingOwner === ethers.ZeroAddress ? null : pendingOwner, paused, roles });
+  },
+);
+
+function defaultLedgerPath(contract: string, chainId: bigint): string {
+  return `${contract}.${chainId}.ledger.json`;
+}
+
+function toCsvRow(cells: (string | number | bigint)[]): string {
+  return cells.map((cell) => (/[",\n]/.test(String(cell)) ? `"${String(cell).replace(/"/g, '""')}"` : cell)).join(",");
+}
+
+/**
+ * Describes a ledger event from the point of view of `recipient`, with amounts in human-readable units.
+ */
+function describeEvent(event: LedgerEvent, recipient: string, units?: TokenUnits): string {
+  const format = (encryptedUnits: string) =>
+    units ? formatTokenAmount(BigInt(encryptedUnits), units) : `${encryptedUnits} encrypted units`;
+  switch (event.name) {
+    case "RecipientAdded":
+      return "allocation received (encrypted)";
+    case "EncryptedTransfer":
+      return event.args.from.toLowerCase() === recipient.toLowerCase()
+        ? `sent an encrypted transfer to ${event.args.to}`
+        : `received an encrypted transfer from ${event.args.from}`;
+    case "VestingCreated":
+      return `vesting grant created (start ${event.args.start}, cliff ${event.args.cliff}s, duration ${event.args.duration}s)`;
+    case "VestingReleased":
+      return "vested tokens released";
+    case "WithdrawalInitiated":
+      return `requested withdrawal #${event.args.withdrawalId} of ${format(event.args.amount)}`;
+    case "WithdrawalDecryptionRequested":
+      return `completion of withdrawal #${event.args.withdrawalId} requested (decryption request ${event.args.requestId})`;
+    case "WithdrawalCompleted":
+      return `withdrew ${format(event.args.amount)} (withdrawal #${event.args.withdrawalId})`;
+    case "WithdrawalCanceled":
+      return `cancelled withdrawal #${event.args.withdrawalId}`;
+    case "WithdrawalFailed":
+      return `payout of withdrawal #${event.args.withdrawalId} failed; ${format(event.args.amount)} credited back`;
+    case "DistributionScheduled":
+      return `distribution #${event.args.scheduleId} scheduled (due ${new Date(Number(event.args.executeAfter) * 1000).toISOString()})`;
+    case "ScheduledDistributionExecuted":
+      return `scheduled distribution #${event.args.scheduleId} executed`;
+    case "ScheduledDistributionCanceled":
+      return `scheduled distribution #${event.args.scheduleId} cancelled`;
+    case "ClawedBack":
+      return "unwithdrawn allocation clawed back after expiry";
+    case "BalanceAuditSet":
+      return event.args.audited === "true" ? "balance shared with auditors" : "balance no longer shared with auditors";
+    default:
+      return event.name;
+  }
+}
+
+/**
+ * Examples:
+ *   - npx hardhat distributor:history --network localhost
+ *   - npx hardhat distributor:history --recipient <RECIPIENT_ADDRESS> --network localhost
+ *
+ * Logs are decoded and appended to a local JSON ledger (`<contract>.<chainId>.ledger.json` by default), so
+ * each run only fetches the blocks mined since the previous one.
+ */
+distributorTask("distributor:history", "Index distributor events into a local ledger and print recipient timelines")
+  .addOptionalParam("ledger", "Path to the ledger file (defaults to <contract>.<chainId>.ledger.json)")
+  .addOptionalParam("fromBlock", "First block to fetch (defaults to the block after the ledger's last block)")
+  .addOptionalParam("toBlock", "Last block to fetch (defaults to the latest block)")
+  .addOptionalParam("batchSize", "Maximum number of blocks per log query", "10000")
+  .addOptionalParam("token", "Only show this token")
+  .addOptionalParam("recipient", "Only show this recipient")
+  .addFlag("reset", "Discard the existing ledger and index from scratch")
+  .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
+    const { ethers } = hre;
+    const options = {
+      fromBlock: taskArgs.fromBlock === undefined ? undefined : parseInteger("from-block", taskArgs.fromBlock),
+      toBlock: taskArgs.toBlock === undefined ? undefined : parseInteger("to-block", taskArgs.toBlock),
+      batchSize: parseInteger("batch-size", taskArgs.batchSize, 1),
+    };
+    const tokenFilter = taskArgs.token === undefined ? undefined : parseAddress("token", taskArgs.token);
+    const recipientFilter =
+      taskArgs.recipient === undefined ? undefined : parseAddress("recipient", taskArgs.recipient);
+
+    const { client, distributor, contract, log, output } = await setupDistributorTask(hre, taskArgs);
+    const { chainId } = await ethers.provider.getNetwork();
+    const ledgerPath = taskArgs.ledger ?? defaultLedgerPath(contract, chainId);
+    if (taskArgs.reset && fs.existsSync(ledgerPath)) {
+      fs.unlinkSync(ledgerPath);
+    }
+
+    const ledger = loadLedger(ledgerPath, contract, chainId);
+    const added = await syncLedger(distributor, ledger, options);
+    saveLedger(ledgerPath, ledger);
+    log(`Indexed ${added} new events up to block ${ledger.lastBlock}. Ledger: ${ledgerPath}`);
+
+    // Amounts are printed in token units for the tokens the distributor still supports
+    const unitsByToken = new Map<string, TokenUnits | undefined>();
+    const unitsFor = async (token: string) => {
+      if (!unitsByToken.has(token)) {
+        unitsByToken.set(token, await client.getTokenUnits(token).catch(() => undefined));
+      }
+      return unitsByToken.get(token);
+    };
+    const matches = (value: string, filter?: string) => !filter || value.toLowerCase() === filter.toLowerCase();
+
+    const deposits = ledger.events.filter(
+      (event) => event.name === "Deposit" && matches(event.args.token, tokenFilter),
+    );
+    for (const event of deposits) {
+      const units = await unitsFor(event.args.token);
+      const amount = units
+        ? `${formatUnits(event.args.amount, units.decimals)} ${units.symbol}`
+        : `${event.args.amount} base units`;
+      log(`Deposit of ${amount} by ${event.args.from} (block ${event.blockNumber})`);
+    }
+
+    const histories = getRecipientHistories(ledger).filter(
+      (history) => matches(history.token, tokenFilter) && matches(history.recipient, recipientFilter),
+    );
+    for (const history of histories) {
+      const units = await unitsFor(history.token);
+      log(`\n${history.recipient} (${units?.symbol ?? history.token})`);
+      for (const event of history.events) {
+        const time = new Date(event.timestamp * 1000).toISOString();
+        log(`  ${time}  block ${event.blockNumber}  ${describeEvent(event, history.recipient, units)}`);
+      }
+    }
+
+    const pending = histories.flatMap((history) =>
+      history.pendingWithdrawals.map((withdrawal) => ({ history, ...withdrawal })),
+    );
+    log("\nPending withdrawals:");
+    if (pending.length === 0) {
+      log("  none");
+    }
+    for (const { history, request, decrypting } of pending) {
+      const units = await unitsFor(history.token);
+      const status = decrypting ? "waiting on the decryption oracle" : "awaiting completion";
+      log(
+        `  ${history.recipient}: ${describeEvent(request, history.recipient, units)} at block ` +
+          `${request.blockNumber}, ${status}`,
+      );
+    }
+
+    return output({ ledger: ledgerPath, added, lastBlock: ledger.lastBlock, deposits, histories });
+  });
+
+/**
+ * Example:
+ *   - npx hardhat set-balance-audited --recipients <ADDRESS_1>,<ADDRESS_2> --network localhost
+ */
+distributorTask(
+  "set-balance-audited",
+  "Share recipients' encrypted balances with auditors, or stop sharing them (owner only)",
+)
+  .addOptionalParam("token", "The token contract address")
+  .addParam("recipients", "Comma-separated recipient addresses")
+  .addOptionalParam("audited", "Whether auditors may decrypt the balances (true or false)", "true")
+  .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
+    const recipients = parseAddressList("recipients", taskArgs.recipients);
+    const audited = parseBoolean("audited", taskArgs.audited);
+
+    const { client, distributor, log, output } = await setupDistributorTask(hre, taskArgs);
+    const { token } = await resolveToken(client, taskArgs.token);
+
+    const tx = await distributor.setBalanceAudited(token, recipients, audited);
+    await tx.wait();
+    log(`${audited ? "Shared" : "Stopped sharing"} ${recipients.length} balances. Transaction: ${tx.hash}`);
+
+    return output({ token, recipients, audited, transaction: tx.hash });
+  });
+
+/**
+ * Example:
+ *   - npx hardhat audit-report --signer <AUDITOR_ADDRESS> --out audit.csv --network localhost
+ *
+ * Run with an account holding the auditor role. Audited recipients are discovered from the `BalanceAuditSet`
+ * events in the local ledger, which is brought up to date first (see `distributor:history`).
+ */
+distributorTask("audit-report", "Decrypt every total and audited balance visible to the auditor into a CSV report")
+  .addOptionalParam("out", "Path of the CSV report", "audit-report.csv")
+  .addOptionalParam("ledger", "Path to the ledger file (defaults to <contract>.<chainId>.ledger.json)")
+  .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
+    const { ethers } = hre;
+    const { client, distributor, contract, signer: auditor, log, output } = await setupDistributorTask(hre, taskArgs);
+    if (!(await distributor.hasRole(await distributor.AUDITOR_ROLE(), auditor.address))) {
+      throw new Error(`${auditor.address} does not hold the auditor role`);
+    }
+
+    const { chainId } = await ethers.provider.getNetwork();
+    const ledgerPath = taskArgs.ledger ?? defaultLedgerPath(contract, chainId);
+    const ledger = loadLedger(ledgerPath, contract, chainId);
+    await syncLedger(distributor, ledger);
+    saveLedger(ledgerPath, ledger);
+
+    const rows = [toCsvRow(["token", "symbol", "kind", "account", "amount", "encrypted_units", "handle"])];
+    for (const token of await distributor.getTokens()) {
+      const units = await client.getTokenUnits(token);
+      const amount = (baseUnits: bigint) => formatUnits(baseUnits, units.decimals);
+
+      const deposited = await distributor.totalDeposited(token);
+      rows.push(toCsvRow([token, units.symbol, "total_deposited", contract, amount(deposited), "", ""]));
+
+      const totalHandle = await distributor.getTotalDistributed(token);
+      const total = await client.decrypt(totalHandle);
+      rows.push(
+        toCsvRow([token, units.symbol, "total_distributed", contract, amount(total * units.rate), total, totalHandle]),
+      );
+
+      const recipients = new Set(
+        ledger.events
+          .filter((event) => event.name === "BalanceAuditSet" && event.args.token === token)
+          .map((event) => event.args.recipient),
+      );
+      for (const recipient of recipients) {
+        if (!(await distributor.isBalanceAudited(token, recipient))) {
+          continue;
+        }
+        const balanceHandle = await distributor.getAuditedBalance(token, recipient);
+        let balance: bigint | undefined;
+        try {
+          balance = await client.decrypt(balanceHandle);
+        } catch (error) {
+          if (!(error instanceof DecryptionError)) {
+            throw error;
+          }
+          // The handle predates this auditor; the owner can re-share it with set-balance-audited
+          log(`Cannot decrypt the balance of ${recipient} in ${units.symbol} yet`);
+        }
+        const balanceAmount = balance === undefined ? "" : amount(balance * units.rate);
+        rows.push(toCsvRow([token, units.symbol, "balance", recipient, balanceAmount, balance ?? "", balanceHandle]));
+      }
+    }
+
+    fs.writeFileSync(taskArgs.out, rows.join("\n") + "\n");
+    log(`Wrote ${rows.length - 1} rows to ${taskArgs.out}`);
+
+    return output({ out: taskArgs.out, rows: rows.length - 1 });
+  });
+
+/**
+ * Example:
+ *   - npx hardhat reconcile --network localhost
+ *
+ * Compares what the token says the distributor holds with what the indexed deposits, withdrawals, clawbacks,
+ * refunds and wrapped deposits leave behind, checks that the pending withdrawal requests are covered and that
+ * every depositor's recorded deposit matches their events. The unallocated funds are only shown when the signer
+ * can decrypt the total distributed, i.e. as the owner or an auditor.
+ */
+distributorTask("reconcile", "Reconcile the distributor's token balance with its deposits and withdrawals")
+  .addOptionalParam("token", "The token contract address")
+  .addOptionalParam("ledger", "Path to the ledger file (defaults to <contract>.<chainId>.ledger.json)")
+  .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
+    const { ethers } = hre;
+    const { client, distributor, contract, signer, log, output } = await setupDistributorTask(hre, taskArgs);
+    const { token, units } = await resolveToken(client, taskArgs.token);
+    const format = (baseUnits: bigint) => `${formatUnits(baseUnits, units.decimals)} ${units.symbol}`;
+
+    const { chainId } = await ethers.provider.getNetwork();
+    const ledgerPath = taskArgs.ledger ?? defaultLedgerPath(contract, chainId);
+    const ledger = loadLedger(ledgerPath, contract, chainId);
+    await syncLedger(distributor, ledger);
+    saveLedger(ledgerPath, ledger);
+    const flows = getTokenFlows(ledger, token, units.rate);
+
+    const erc20 = await ethers.getContractAt("@openzeppelin/contracts/token/ERC20/IERC20.sol:IERC20", token);
+    const balance = await erc20.balanceOf(contract);
+    const totalDeposited = await distributor.totalDeposited(token);
+    const rows: [string, bigint][] = [
+      ["Balance", balance],
+      ["Deposited", flows.deposited],
+      ["Withdrawn", flows.withdrawn],
+      ["Clawed back", flows.clawedBack],
+      ["Refunded", flows.refunded],
+      ["Emergency withdrawn", flows.emergencyWithdrawn],
+      ["Wrapped", flows.wrapped],
+      ["Expected held", flows.held],
+      ["Total deposited", totalDeposited],
+    ];
+    for (const [label, amount] of rows) {
+      log(`${`${label}:`.padEnd(21)}${format(amount)}`);
+    }
+
+    // Tokens sent to the contract directly show up as a surplus; a shortfall means the events do not add up
+    const surplus = balance > flows.held ? balance - flows.held : 0n;
+    const shortfall = flows.held > balance ? flows.held - balance : 0n;
+    if (surplus > 0n) {
+      log(`Surplus of ${format(surplus)} not accounted for by deposits (stray tokens)`);
+    }
+    if (shortfall > 0n) {
+      log(`Shortfall of ${format(shortfall)}`);
+    }
+
+    const pendingCovered = flows.pendingRequested <= balance;
+    log(
+      `Pending withdrawal requests: ${format(flows.pendingRequested)}` +
+        (pendingCovered ? " (covered)" : " (NOT covered by the balance)"),
+    );
+
+    const depositors = [];
+    for (const depositor of await distributor.getDepositors(token)) {
+      const onChain = await distributor.depositOf(token, depositor);
+      const fromEvents = flows.depositors[depositor] ?? 0n;
+      depositors.push({
+        depositor,
+        deposit: format(onChain),
+        matches: onChain === fromEvents,
+      });
+      log(`  ${depositor}: ${format(onChain)}${onChain === fromEvents ? "" : ` (events say ${format(fromEvents)})`}`);
+    }
+
+    let unallocated: string | null = null;
+    // Anyone else is refused the handle itself, not just its decryption
+    const canReadTotal =
+      (await distributor.owner()) === signer.address ||
+      (await distributor.hasRole(await distributor.AUDITOR_ROLE(), signer.address));
+    if (!canReadTotal) {
+      log("Unallocated funds: only the owner and auditors can decrypt the total distributed");
+    } else {
+      try {
+        const distributed = await client.decrypt(await distributor.getTotalDistributed(token));
+        const deposited = totalDeposited / units.rate;
+        unallocated = formatTokenAmount(deposited > distributed ? deposited - distributed : 0n, units);
+        log(`${"Unallocated:".padEnd(21)}${unallocated}`);
+      } catch (error) {
+        if (!(error instanceof DecryptionError)) {
+          throw error;
+        }
+        log("Unallocated funds: the total distributed has not been shared with this signer yet");
+      }
+    }
+
+    const ok = shortfall === 0n && pendingCovered && depositors.every(({ matches }) => matches);
+    log(ok ? "Reconciled." : "Reconciliation FAILED.");
+
+    return output({
+      token,
+      balance: format(balance),
+      expectedHeld: format(flows.held),
+      surplus: format(surplus),
+      shortfall: format(shortfall),
+      deposited: format(flows.deposited),
+      withdrawn: format(flows.withdrawn),
+      clawedBack: format(flows.clawedBack),
+      refunded: format(flows.refunded),
+      emergencyWithdrawn: format(flows.emergencyWithdrawn),
+      wrapped: format(flows.wrapped),
+      totalDeposited: format(totalDeposited),
+      pendingRequested: format(flows.pendingRequested),
+      pendingCovered,
+      depositors,
+      unallocated,
+      ok,
+    });
+  });
+
 task("setup-demo", "Setup a complete demo environment").setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
   const { ethers } = hre;
   const [deployer, alice, bob] = await ethers.getSigners();
@@ -117,7 +1703,7 @@ task("setup-demo", "Setup a complete demo environment").setAction(async (taskArg
   // Setup tokens
   await mockToken.mint(deployer.address, ethers.parseEther("1000"));
   await mockToken.approve(distributorAddress, ethers.parseEther("500"));
-  await distributor.depositTokens(ethers.parseEther("200"));
+  await distributor.depositTokens(tokenAddress, ethers.parseEther("200"));
 
   console.log("=== Demo environment ready ===");
   console.log(`Token address: ${tokenAddress}`);
@@ -126,12 +1712,13 @@ task("setup-demo", "Setup a complete demo environment").setAction(async (taskArg
   console.log(`Alice: ${alice.address}`);
   console.log(`Bob: ${bob.address}`);
 
+  // The demo contracts are not hardhat-deploy deployments, so the commands pass --contract explicitly
   console.log("\n=== Quick start commands ===");
   console.log(
-    `npx hardhat distribute-tokens --contract ${distributorAddress} --token ${tokenAddress} --recipient ${alice.address} --amount 50 --network localhost`,
+    `npx hardhat distribute-tokens --contract ${distributorAddress} --recipient ${alice.address} --amount 50 --network localhost`,
   );
+  console.log(`npx hardhat check-balance --contract ${distributorAddress} --signer 1 --network localhost`);
   console.log(
-    `npx hardhat check-balance --contract ${distributorAddress} --address ${alice.address} --network localhost`,
+    `npx hardhat request-withdrawal --contract ${distributorAddress} --signer 1 --amount 50 --network localhost`,
   );
-  console.log(`npx hardhat request-withdrawal --contract ${distributorAddress} --amount 50 --network localhost`);
 });
@@ -0,0 +1,236 @@
+import { getAddress, isAddress } from "ethers";
+import fs from "fs";
+import http from "http";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import {
+  type PrivateTokenDistributorClient,
+  type SignedWithdrawalAction,
+  type WithdrawalAction,
+  TransactionRevertedError,
+} from "../src/client";
+import { distributorTask, parseInteger, resolveToken, setupDistributorTask, toJson } from "./helpers";
+
+const WITHDRAWAL_ACTIONS: WithdrawalAction[] = ["request", "complete", "cancel"];
+
+// Largest request body the relayer reads; a signed action is a few hundred bytes
+const MAX_BODY_BYTES = 16 * 1024;
+
+class BadRequestError extends Error {}
+
+/**
+ * Validates a signed withdrawal action decoded from JSON, where integers may be decimal strings.
+ */
+export function parseSignedWithdrawalAction(value: unknown): SignedWithdrawalAction {
+  if (typeof value !== "object" || value === null) {
+    throw new BadRequestError("Expected a signed withdrawal action object");
+  }
+  const fields = value as Record<string, unknown>;
+  const action = fields.action as WithdrawalAction;
+  if (!WITHDRAWAL_ACTIONS.includes(action)) {
+    throw new BadRequestError(`"action" must be one of ${WITHDRAWAL_ACTIONS.join(", ")}`);
+  }
+
+  const address = (name: string) => {
+    const field = fields[name];
+    if (typeof field !== "string" || !isAddress(field)) {
+      throw new BadRequestError(`"${name}" must be an address`);
+    }
+    return getAddress(field);
+  };
+  const integer = (name: string) => {
+    const field = fields[name];
+    if ((typeof field !== "string" && typeof field !== "number") || !/^\d+$/.test(String(field))) {
+      throw new BadRequestError(`"${name}" must be a non-negative integer`);
+    }
+    return BigInt(field);
+  };
+  if (typeof fields.signature !== "string" || !/^0x[0-9a-fA-F]*$/.test(fields.signature)) {
+    throw new BadRequestError(`"signature" must be a hex string`);
+  }
+
+  const signed: SignedWithdrawalAction = {
+    action,
+    recipient: address("recipient"),
+    nonce: integer("nonce"),
+    deadline: integer("deadline"),
+    signature: fields.signature,
+  };
+  if (action === "request") {
+    signed.token = address("token");
+    signed.amount = integer("amount");
+  } else {
+    signed.withdrawalId = integer("withdrawalId");
+  }
+  return signed;
+}
+
+/**
+ * Creates an HTTP relay that submits signed withdrawal actions through `client`, whose signer pays the gas:
+ *   - `GET /nonces/<address>` returns the next nonce the address must sign
+ *   - `POST /relay` submits a signed action (see `SignedWithdrawalAction`) and returns the withdrawal ID and
+ *     transaction
+ * The contract checks the signature, nonce and deadline, and a rejected action fails gas estimation before it is
+ * sent, so invalid actions cost the relayer nothing. Rejections are answered with status 422 and the revert reason.
+ */
+export function createRelayer(client: PrivateTokenDistributorClient, log: (line: string) => void = () => {}) {
+  const respond = (response: http.ServerResponse, status: number, body: unknown) => {
+    response.writeHead(status, { "Content-Type": "application/json" });
+    response.end(toJson(body));
+  };
+
+  const handle = async (request: http.IncomingMessage, response: http.ServerResponse) => {
+    const url = new URL(request.url ?? "/", "http://relayer");
+    const nonceMatch = /^\/nonces\/([^/]+)$/.exec(url.pathname);
+
+    if (request.method === "GET" && nonceMatch !== null) {
+      if (!isAddress(nonceMatch[1])) {
+        throw new BadRequestError(`"${nonceMatch[1]}" is not an address`);
+      }
+      const recipient = getAddress(nonceMatch[1]);
+      return respond(response, 200, { recipient, nonce: await client.distributor.withdrawalNonces(recipient) });
+    }
+    if (request.method !== "POST" || url.pathname !== "/relay") {
+      return respond(response, 404, { error: `No route for ${request.method} ${url.pathname}` });
+    }
+
+    let body = "";
+    for await (const chunk of request) {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        throw new BadRequestError("Request body too large");
+      }
+    }
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(body);
+    } catch {
+      throw new BadRequestError("Request body is not valid JSON");
+    }
+    const signed = parseSignedWithdrawalAction(parsed);
+
+    try {
+      const result = await client.relayWithdrawalAction(signed);
+      log(
+        `Relayed ${signed.action} of withdrawal ${result.withdrawalId} for ${signed.recipient}: ${result.transaction}`,
+      );
+      respond(response, 200, result);
+    } catch (error) {
+      if (!(error instanceof TransactionRevertedError)) {
+        throw error;
+      }
+      log(`Rejected ${signed.action} for ${signed.recipient}: ${error.reason}`);
+      respond(response, 422, { error: error.reason });
+    }
+  };
+
+  return http.createServer((request, response) => {
+    handle(request, response).catch((error: Error) => {
+      if (error instanceof BadRequestError) {
+        respond(response, 400, { error: error.message });
+      } else {
+        log(`Relay failed: ${error.message}`);
+        respond(response, 500, { error: error.message });
+      }
+    });
+  });
+}
+
+/**
+ * Example:
+ *   - npx hardhat relayer --signer 0 --port 8546 --network localhost
+ *
+ * Serves `createRelayer` until stopped, paying gas from `--signer`. Recipients sign their actions with
+ * `sign-withdrawal --relayer http://127.0.0.1:8546`.
+ */
+distributorTask("relayer", "Serve a local HTTP relay that submits signed withdrawal actions and pays their gas")
+  .addOptionalParam("host", "The interface to listen on", "127.0.0.1")
+  .addOptionalParam("port", "The port to listen on", "8546")
+  .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
+    const port = parseInteger("port", taskArgs.port);
+    const { client, contract, signer, log } = await setupDistributorTask(hre, taskArgs);
+    const server = createRelayer(client, (line) => log(line));
+
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, taskArgs.host, () => resolve());
+    });
+    log(`Relaying withdrawals for ${contract} from ${signer.address} on http://${taskArgs.host}:${port}`);
+
+    // Serve until the process is stopped
+    await new Promise((resolve) => server.once("close", resolve));
+  });
+
+/**
+ * Examples:
+ *   - npx hardhat sign-withdrawal --action request --amount 10 --signer 1 --relayer http://127.0.0.1:8546 --network localhost
+ *   - npx hardhat sign-withdrawal --action complete --id 1 --signer 1 --out complete.json --network localhost
+ *
+ * Signing only reads from the chain, so the signer needs no ETH. Without `--relayer` the signed action is printed
+ * (or written to `--out`) for any relayer to submit.
+ */
+distributorTask("sign-withdrawal", "Sign a withdrawal request, completion or cancellation for a relayer to submit")
+  .addParam("action", `The action to sign (${WITHDRAWAL_ACTIONS.join(", ")})`)
+  .addOptionalParam("token", "The token contract address (request only)")
+  .addOptionalParam("amount", "The amount to withdraw (request only)")
+  .addOptionalParam("id", "The withdrawal request ID (complete and cancel only)")
+  .addOptionalParam("deadline", "Unix timestamp after which the signature expires (defaults to an hour from now)")
+  .addOptionalParam("nonce", "The nonce to sign (defaults to the signer's next withdrawal nonce)")
+  .addOptionalParam("out", "Write the signed action to this JSON file")
+  .addOptionalParam("relayer", "Submit the signed action to the relayer at this URL")
+  .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
+    const action = taskArgs.action as WithdrawalAction;
+    if (!WITHDRAWAL_ACTIONS.includes(action)) {
+      throw new Error(`Invalid action "${taskArgs.action}"; expected one of ${WITHDRAWAL_ACTIONS.join(", ")}`);
+    }
+    const { client, log, output } = await setupDistributorTask(hre, taskArgs);
+    const options = {
+      deadline: taskArgs.deadline === undefined ? undefined : parseInteger("deadline", taskArgs.deadline, 1),
+      nonce: taskArgs.nonce === undefined ? undefined : BigInt(parseInteger("nonce", taskArgs.nonce)),
+    };
+
+    let signed: SignedWithdrawalAction;
+    if (action === "request") {
+      if (taskArgs.amount === undefined) {
+        throw new Error("--amount is required to sign a request");
+      }
+      const { token } = await resolveToken(client, taskArgs.token);
+      signed = await client.signWithdrawalRequest(token, taskArgs.amount, options);
+    } else {
+      if (taskArgs.id === undefined) {
+        throw new Error(`--id is required to sign a ${action}`);
+      }
+      const withdrawalId = parseInteger("id", taskArgs.id, 1);
+      signed =
+        action === "complete"
+          ? await client.signCompleteWithdrawal(withdrawalId, options)
+          : await client.signCancelWithdrawal(withdrawalId, options);
+    }
+    log(
+      `Signed ${action} with nonce ${signed.nonce}, valid until ${new Date(Number(signed.deadline) * 1000).toISOString()}`,
+    );
+    if (taskArgs.out !== undefined) {
+      fs.writeFileSync(taskArgs.out, toJson(signed));
+      log(`Signed action written to ${taskArgs.out}`);
+    }
+
+    if (taskArgs.relayer === undefined) {
+      if (taskArgs.out === undefined) {
+        log(toJson(signed));
+      }
+      return output({ signed });
+    }
+
+    const response = await fetch(new URL("relay", taskArgs.relayer.replace(/\/?$/, "/")), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: toJson(signed),
+    });
+    const relayed = (await response.json()) as { error?: string; withdrawalId?: string; transaction?: string };
+    if (!response.ok) {
+      throw new Error(`Relayer rejected the ${action}: ${relayed.error}`);
+    }
+    log(`Relayed. Withdrawal ${relayed.withdrawalId}, transaction: ${relayed.transaction}`);
+
+    return output({ signed, relayed });
+  });
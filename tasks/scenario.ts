@@ -0,0 +1,421 @@
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { formatUnits, parseUnits } from "ethers";
+import fs from "fs";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { resolveDeployedAddress } from "../src/addresses";
+import { PrivateTokenDistributorClient, type TokenUnits } from "../src/client";
+import type { MockERC20, PrivateTokenDistributor } from "../types";
+import { initializeFhevm, parseAddress, resolveSigner, resolveToken, toJson } from "./helpers";
+
+// Fields each step action requires, besides `action`
+const STEP_FIELDS = {
+  deploy: [],
+  mint: ["to", "amount"],
+  deposit: ["amount"],
+  distribute: ["to", "amount"],
+  advanceTime: ["seconds"],
+  requestWithdrawal: ["from", "amount"],
+  completeWithdrawal: ["from", "withdrawal"],
+  assertBalance: ["account", "equals"],
+  assertTokenBalance: ["account", "equals"],
+} as const;
+
+export type ScenarioAction = keyof typeof STEP_FIELDS;
+
+/**
+ * One step of a scenario. Accounts are aliases from the scenario's `accounts`, signer indexes, addresses or named
+ * accounts; amounts are human-readable strings in the token's units such as "12.5".
+ */
+export type ScenarioStep = {
+  action: ScenarioAction;
+  // Printed instead of the generated summary of the step
+  description?: string;
+  // The account sending the step's transactions, defaulting to the deployer
+  from?: string;
+  // The step passes only if it fails with an error containing this text, e.g. a revert reason
+  expectError?: string;
+  // deploy: the name and symbol of the MockERC20 to deploy
+  name?: string;
+  symbol?: string;
+  // mint, distribute
+  to?: string;
+  // mint, deposit, distribute, requestWithdrawal
+  amount?: string;
+  // advanceTime
+  seconds?: number;
+  // requestWithdrawal: label to refer to the request by; completeWithdrawal: the label of the request
+  id?: string;
+  withdrawal?: string;
+  // assertBalance (decrypted distributor balance), assertTokenBalance (ERC20 balance)
+  account?: string;
+  equals?: string;
+};
+
+export type Scenario = {
+  name: string;
+  description?: string;
+  // Account aliases such as `"alice": "1"`, resolved like `--signer`
+  accounts?: Record<string, string>;
+  steps: ScenarioStep[];
+};
+
+export type StepResult = {
+  // 1-based position in the scenario
+  step: number;
+  action: ScenarioAction;
+  description: string;
+  status: "passed" | "failed" | "skipped";
+  transactions: string[];
+  gasUsed: bigint;
+  error?: string;
+};
+
+export type ScenarioReport = {
+  name: string;
+  contract: string | null;
+  token: string | null;
+  passed: boolean;
+  gasUsed: bigint;
+  steps: StepResult[];
+};
+
+type ScenarioContext = {
+  hre: HardhatRuntimeEnvironment;
+  scenario: Scenario;
+  distributor?: PrivateTokenDistributor;
+  token?: string;
+  units?: TokenUnits;
+  // Withdrawal request IDs by the label given in `requestWithdrawal`
+  withdrawals: Map<string, bigint>;
+};
+
+/**
+ * Reads and validates a JSON scenario file. Every problem is reported at once, with the step it was found in.
+ */
+export function loadScenario(filePath: string): Scenario {
+  let parsed: Scenario;
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  } catch (error) {
+    throw new Error(`Cannot read scenario ${filePath}: ${(error as Error).message}`);
+  }
+
+  const errors: string[] = [];
+  if (typeof parsed?.name !== "string") {
+    errors.push(`"name" must be a string`);
+  }
+  if (!Array.isArray(parsed?.steps) || parsed.steps.length === 0) {
+    errors.push(`"steps" must be a non-empty array`);
+  }
+  for (const [i, step] of (Array.isArray(parsed?.steps) ? parsed.steps : []).entries()) {
+    const fields = STEP_FIELDS[step?.action as ScenarioAction];
+    if (fields === undefined) {
+      errors.push(`step ${i + 1}: unknown action "${step?.action}", expected one of: ${Object.keys(STEP_FIELDS)}`);
+      continue;
+    }
+    for (const field of fields) {
+      if (step[field] === undefined) {
+        errors.push(`step ${i + 1} (${step.action}): missing "${field}"`);
+      }
+    }
+    if (step.action === "advanceTime" && !(Number.isSafeInteger(step.seconds) && step.seconds! > 0)) {
+      errors.push(`step ${i + 1} (advanceTime): "seconds" must be a positive integer`);
+    }
+    if (step.action === "deploy" && i !== 0) {
+      errors.push(`step ${i + 1}: deploy must be the first step`);
+    }
+  }
+  if (errors.length > 0) {
+    throw new Error(`Invalid scenario ${filePath}:\n  ${errors.join("\n  ")}`);
+  }
+  return parsed;
+}
+
+/**
+ * Runs a scenario step by step. A failed assertion is recorded and the run goes on; any other failure skips the
+ * remaining steps, since they would run against an unexpected state. Without a `deploy` step the scenario runs
+ * against `distributor` and its only token.
+ */
+export async function runScenario(
+  hre: HardhatRuntimeEnvironment,
+  scenario: Scenario,
+  options: { distributor?: PrivateTokenDistributor; onStep?: (result: StepResult) => void } = {},
+): Promise<ScenarioReport> {
+  const context: ScenarioContext = { hre, scenario, distributor: options.distributor, withdrawals: new Map() };
+  if (context.distributor !== undefined) {
+    const { token, units } = await resolveToken(await clientFor(context, "deployer"), undefined);
+    context.token = token;
+    context.units = units;
+  }
+
+  const results: StepResult[] = [];
+  let halted = false;
+  for (const [i, step] of scenario.steps.entries()) {
+    const result: StepResult = {
+      step: i + 1,
+      action: step.action,
+      description: step.description ?? describeStep(step),
+      status: "skipped",
+      transactions: [],
+      gasUsed: 0n,
+    };
+    if (!halted) {
+      try {
+        await runStep(context, step, result.transactions);
+        result.status = step.expectError === undefined ? "passed" : "failed";
+        if (step.expectError !== undefined) {
+          result.error = `Expected an error containing "${step.expectError}"`;
+        }
+      } catch (error) {
+        const message = (error as Error).message;
+        const expected = step.expectError !== undefined && message.includes(step.expectError);
+        result.status = expected ? "passed" : "failed";
+        if (!expected) {
+          result.error = message;
+          halted = !(error instanceof AssertionFailure);
+        }
+      }
+      for (const hash of result.transactions) {
+        const receipt = await hre.ethers.provider.getTransactionReceipt(hash);
+        result.gasUsed += receipt?.gasUsed ?? 0n;
+      }
+    }
+    results.push(result);
+    options.onStep?.(result);
+  }
+
+  return {
+    name: scenario.name,
+    contract: context.distributor === undefined ? null : await context.distributor.getAddress(),
+    token: context.token ?? null,
+    passed: results.every((result) => result.status === "passed"),
+    gasUsed: results.reduce((sum, result) => sum + result.gasUsed, 0n),
+    steps: results,
+  };
+}
+
+class AssertionFailure extends Error {}
+
+function describeStep(step: ScenarioStep): string {
+  switch (step.action) {
+    case "deploy":
+      return `deploy ${step.symbol ?? "SCN"} and a distributor`;
+    case "mint":
+      return `mint ${step.amount} to ${step.to}`;
+    case "deposit":
+      return `deposit ${step.amount} from ${step.from ?? "deployer"}`;
+    case "distribute":
+      return `distribute ${step.amount} to ${step.to}`;
+    case "advanceTime":
+      return `advance time by ${step.seconds}s`;
+    case "requestWithdrawal":
+      return `${step.from} requests a withdrawal of ${step.amount}${step.id ? ` (${step.id})` : ""}`;
+    case "completeWithdrawal":
+      return `${step.from} completes withdrawal ${step.withdrawal}`;
+    case "assertBalance":
+      return `${step.account}'s distributor balance is ${step.equals}`;
+    case "assertTokenBalance":
+      return `${step.account}'s token balance is ${step.equals}`;
+  }
+}
+
+/**
+ * Runs one step, pushing the hash of every transaction it sends to `transactions` as soon as it is mined.
+ */
+async function runStep(context: ScenarioContext, step: ScenarioStep, transactions: string[]) {
+  const { hre } = context;
+  const send = async (tx: Promise<{ hash: string; wait: () => Promise<unknown> }>) => {
+    const sent = await tx;
+    await sent.wait();
+    transactions.push(sent.hash);
+  };
+
+  switch (step.action) {
+    case "deploy": {
+      const deployer = await resolveAccount(context, step.from ?? "deployer");
+      const tokenFactory = await hre.ethers.getContractFactory("MockERC20", deployer);
+      const token = await tokenFactory.deploy(step.name ?? "Scenario Token", step.symbol ?? "SCN");
+      await token.waitForDeployment();
+      transactions.push(token.deploymentTransaction()!.hash);
+      const distributorFactory = await hre.ethers.getContractFactory("PrivateTokenDistributor", deployer);
+      const distributor = await distributorFactory.deploy(await token.getAddress());
+      await distributor.waitForDeployment();
+      transactions.push(distributor.deploymentTransaction()!.hash);
+
+      const address = await distributor.getAddress();
+      context.distributor = await hre.ethers.getContractAt("PrivateTokenDistributor", address, deployer);
+      context.token = await token.getAddress();
+      context.units = await (await clientFor(context, deployer.address)).getTokenUnits(context.token);
+      return;
+    }
+    case "mint": {
+      const token = await tokenAs(context, step.from ?? "deployer");
+      const to = await resolveAccount(context, step.to!);
+      await send(token.mint(to.address, baseUnits(context, step.amount!)));
+      return;
+    }
+    case "deposit": {
+      const client = await clientFor(context, step.from ?? "deployer");
+      const token = await tokenAs(context, step.from ?? "deployer");
+      const amount = baseUnits(context, step.amount!);
+      await send(token.approve(client.address, amount));
+      await send(client.distributor.depositTokens(context.token!, amount));
+      return;
+    }
+    case "distribute": {
+      const client = await clientFor(context, step.from ?? "deployer");
+      const to = await resolveAccount(context, step.to!);
+      transactions.push((await client.distribute(context.token!, to.address, step.amount!)).transaction);
+      return;
+    }
+    case "advanceTime": {
+      if (hre.network.name !== "hardhat" && hre.network.name !== "localhost") {
+        throw new Error(`Cannot advance time on network "${hre.network.name}"`);
+      }
+      await hre.network.provider.send("evm_increaseTime", [step.seconds]);
+      await hre.network.provider.send("evm_mine");
+      return;
+    }
+    case "requestWithdrawal": {
+      const client = await clientFor(context, step.from!);
+      const { withdrawalId, transaction } = await client.requestWithdrawal(context.token!, step.amount!);
+      transactions.push(transaction);
+      if (step.id !== undefined) {
+        context.withdrawals.set(step.id, withdrawalId);
+      }
+      return;
+    }
+    case "completeWithdrawal": {
+      const withdrawalId = context.withdrawals.get(step.withdrawal!);
+      if (withdrawalId === undefined) {
+        throw new Error(`No withdrawal was requested with id "${step.withdrawal}"`);
+      }
+      const client = await clientFor(context, step.from!);
+      const { completed, transaction } = await client.completeWithdrawal(withdrawalId);
+      transactions.push(transaction);
+      if (completed === false) {
+        throw new Error(`Withdrawal ${step.withdrawal} was not paid out`);
+      }
+      return;
+    }
+    case "assertBalance": {
+      const client = await clientFor(context, step.account!);
+      const actual = (await client.getDecryptedBalance(context.token!)) * context.units!.rate;
+      assertAmount(context, actual, step.equals!);
+      return;
+    }
+    case "assertTokenBalance": {
+      const account = await resolveAccount(context, step.account!);
+      const token = await tokenAs(context, "deployer");
+      assertAmount(context, await token.balanceOf(account.address), step.equals!);
+      return;
+    }
+  }
+}
+
+function assertAmount(context: ScenarioContext, actual: bigint, equals: string) {
+  const expected = baseUnits(context, equals);
+  if (actual !== expected) {
+    const { decimals, symbol } = context.units!;
+    throw new AssertionFailure(
+      `Expected ${formatUnits(expected, decimals)} ${symbol}, got ${formatUnits(actual, decimals)} ${symbol}`,
+    );
+  }
+}
+
+function baseUnits(context: ScenarioContext, amount: string): bigint {
+  requireDistributor(context);
+  return parseUnits(String(amount).trim(), context.units!.decimals);
+}
+
+function requireDistributor(context: ScenarioContext) {
+  if (context.distributor === undefined) {
+    throw new Error("No distributor: start the scenario with a deploy step or pass --contract");
+  }
+}
+
+async function resolveAccount(context: ScenarioContext, account: string): Promise<HardhatEthersSigner> {
+  return resolveSigner(context.hre, context.scenario.accounts?.[account] ?? account);
+}
+
+async function clientFor(context: ScenarioContext, account: string): Promise<PrivateTokenDistributorClient> {
+  requireDistributor(context);
+  const signer = await resolveAccount(context, account);
+  return new PrivateTokenDistributorClient(context.distributor!, signer, context.hre.fhevm);
+}
+
+async function tokenAs(context: ScenarioContext, account: string): Promise<MockERC20> {
+  requireDistributor(context);
+  const signer = await resolveAccount(context, account);
+  return context.hre.ethers.getContractAt("MockERC20", context.token!, signer);
+}
+
+/**
+ * Examples:
+ *   - npx hardhat scenario:run --file scenarios/withdrawal.json
+ *   - npx hardhat scenario:run --file scenarios/withdrawal.json --json --network localhost
+ *
+ * Scenarios are JSON files with a `name`, optional account aliases and a list of steps; see
+ * `scenarios/withdrawal.json`. A scenario that starts with a `deploy` step brings its own token and distributor;
+ * otherwise it runs against `--contract` or the network's deployment. The task fails if any step fails, so
+ * scenario files double as regression fixtures.
+ */
+task("scenario:run", "Run a scenario file step by step and report each step's transactions and gas")
+  .addParam("file", "Path to the JSON scenario file")
+  .addOptionalParam(
+    "contract",
+    "The distributor to run against when the scenario does not deploy one (defaults to the network's deployment)",
+  )
+  .addFlag("json", "Print the report as JSON instead of progress messages")
+  .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
+    const scenario = loadScenario(taskArgs.file);
+    await initializeFhevm(hre);
+    const log = (line: string) => {
+      if (!taskArgs.json) {
+        console.log(line);
+      }
+    };
+
+    let distributor: PrivateTokenDistributor | undefined;
+    if (scenario.steps[0].action !== "deploy") {
+      const contract =
+        taskArgs.contract === undefined
+          ? await resolveDeployedAddress(hre, "PrivateTokenDistributor")
+          : parseAddress("contract", taskArgs.contract);
+      if (contract === undefined) {
+        throw new Error("The scenario does not deploy a distributor; deploy one or pass --contract");
+      }
+      distributor = await hre.ethers.getContractAt("PrivateTokenDistributor", contract);
+    }
+
+    log(`Scenario: ${scenario.name}`);
+    const report = await runScenario(hre, scenario, {
+      distributor,
+      onStep: (result) => {
+        const status = { passed: "PASS", failed: "FAIL", skipped: "SKIP" }[result.status];
+        log(`  ${status}  ${result.step}. ${result.description}`);
+        for (const hash of result.transactions) {
+          log(`          tx ${hash}`);
+        }
+        if (result.gasUsed > 0n) {
+          log(`          gas ${result.gasUsed}`);
+        }
+        if (result.error !== undefined) {
+          log(`          ${result.error}`);
+        }
+      },
+    });
+    const failed = report.steps.filter((result) => result.status !== "passed").length;
+    log(report.passed ? `All ${report.steps.length} steps passed` : `${failed} of ${report.steps.length} steps failed`);
+    log(`Total gas: ${report.gasUsed}`);
+
+    if (taskArgs.json) {
+      console.log(toJson(report));
+    }
+    if (!report.passed) {
+      throw new Error(`Scenario "${scenario.name}" failed`);
+    }
+    return report;
+  });
@@ -0,0 +1,96 @@
+import { FHECounter } from "../types/contracts/FHECounter";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { deployments, ethers, run } from "hardhat";
+
+describe("FHECounter", function () {
+  let deployer: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let counter: FHECounter;
+  let counterAddress: string;
+  let printed: string[];
+  let consoleLog: typeof console.log;
+
+  before(async function () {
+    [deployer, alice] = await ethers.getSigners();
+
+    // The deploy script registers the deployment the tasks resolve when --address is omitted
+    await deployments.fixture(["FHECounter"]);
+    const deployment = await deployments.get("FHECounter");
+    expect(await ethers.provider.getCode(deployment.address)).to.not.equal("0x");
+  });
+
+  // Mock FHE state does not survive EVM snapshot reverts, so each test registers a fresh counter instead of
+  // reverting to the fixture
+  beforeEach(async function () {
+    const CounterFactory = await ethers.getContractFactory("FHECounter");
+    counter = await CounterFactory.deploy();
+    counterAddress = await counter.getAddress();
+    const { abi } = await deployments.getArtifact("FHECounter");
+    await deployments.save("FHECounter", { address: counterAddress, abi });
+
+    printed = [];
+    consoleLog = console.log;
+    console.log = (...args: unknown[]) => printed.push(args.join(" "));
+  });
+
+  afterEach(function () {
+    console.log = consoleLog;
+  });
+
+  it("should print the deployed address", async function () {
+    await run("task:address");
+    expect(printed).to.include(`FHECounter address is ${counterAddress}`);
+  });
+
+  it("should start at zero", async function () {
+    expect(await counter.owner()).to.equal(deployer.address);
+    expect(await run("task:decrypt-count")).to.equal(0n);
+  });
+
+  it("should increment and decrement with encrypted values", async function () {
+    await run("task:increment", { value: "5" });
+    expect(await run("task:decrypt-count")).to.equal(5n);
+
+    await run("task:decrement", { value: "2" });
+    expect(await run("task:decrypt-count")).to.equal(3n);
+  });
+
+  it("should saturate at zero instead of wrapping on underflow", async function () {
+    await run("task:increment", { value: "3" });
+    await run("task:decrement", { value: "10" });
+    expect(await run("task:decrypt-count")).to.equal(0n);
+
+    // The counter keeps working after saturating
+    await run("task:increment", { value: "4" });
+    expect(await run("task:decrypt-count")).to.equal(4n);
+  });
+
+  it("should keep a separate counter per user", async function () {
+    await run("task:increment", { value: "2" });
+    await run("task:increment", { value: "7", signer: "1" });
+
+    expect(await run("task:decrypt-count")).to.equal(2n);
+    expect(await run("task:decrypt-count", { signer: alice.address })).to.equal(7n);
+  });
+
+  it("should let only the owner reset a counter", async function () {
+    await run("task:increment", { value: "9", signer: "1" });
+
+    await expect(run("task:reset", { user: alice.address, signer: "1" })).to.be.rejectedWith(
+      "Only owner can call this",
+    );
+    await expect(counter.reset(alice.address)).to.emit(counter, "CounterReset").withArgs(alice.address);
+    expect(await run("task:decrypt-count", { signer: "1" })).to.equal(0n);
+
+    await run("task:increment", { value: "1", signer: "1" });
+    await run("task:reset", { user: alice.address });
+    expect(await run("task:decrypt-count", { signer: "1" })).to.equal(0n);
+  });
+
+  it("should reject a value that is not a non-negative integer", async function () {
+    await expect(run("task:increment", { value: "2.5" })).to.be.rejectedWith(
+      "Argument --value must be a non-negative integer",
+    );
+  });
+});
@@ -1,21 +1,18 @@
 import { PrivateTokenDistributor } from "../types/contracts/PrivateTokenDistributor";
+import { ConfidentialToken } from "../types/contracts/ConfidentialToken";
 import { MockERC20 } from "../types/contracts/MockERC20";
 import { FhevmType } from "@fhevm/hardhat-plugin";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import { expect } from "chai";
-import { ethers, fhevm } from "hardhat";
+import { deployments, ethers, fhevm, run } from "hardhat";
 import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { createHash } from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
 
-// Create a simple ERC20 token contract for testing
-const ERC20TokenABI = [
-  "function balanceOf(address owner) view returns (uint256)",
-  "function decimals() view returns (uint8)",
-  "function symbol() view returns (string)",
-  "function transfer(address to, uint amount) returns (bool)",
-  "function approve(address spender, uint256 amount) returns (bool)",
-  "function transferFrom(address from, address to, uint256 amount) returns (bool)",
-  "function mint(address to, uint256 amount)",
-];
+import { PrivateTokenDistributorClient } from "../src/client";
+import { getRecipientHistories, loadLedger, saveLedger, syncLedger } from "../src/indexer";
 
 // Helper interface for signers
 type Signers = {
@@ -23,8 +20,53 @@ type Signers = {
   alice: HardhatEthersSigner;
   bob: HardhatEthersSigner;
   charlie: HardhatEthersSigner;
+  dave: HardhatEthersSigner;
+  eve: HardhatEthersSigner;
 };
 
+// Requests a withdrawal and returns its ID from the `WithdrawalInitiated` event
+async function requestWithdrawal(
+  contract: PrivateTokenDistributor,
+  signer: HardhatEthersSigner,
+  token: string,
+  amount: number | bigint,
+): Promise<bigint> {
+  const receipt = await (await contract.connect(signer).requestWithdrawal(token, amount)).wait();
+  const event = receipt!.logs
+    .map((log) => contract.interface.parseLog(log))
+    .find((parsed) => parsed?.name === "WithdrawalInitiated");
+  return event!.args.withdrawalId;
+}
+
+// Runs `action` with console.log collecting into `printed`, so task output stays out of the test report
+async function withSilencedConsole<T>(action: () => Promise<T>, printed: string[] = []): Promise<T> {
+  const consoleLog = console.log;
+  console.log = (...args: unknown[]) => printed.push(args.join(" "));
+  try {
+    return await action();
+  } finally {
+    console.log = consoleLog;
+  }
+}
+
+// Silences the console in every test of the enclosing describe, returning the lines the running test printed
+function silenceConsoleInTests(): string[] {
+  const printed: string[] = [];
+  let consoleLog: typeof console.log;
+
+  beforeEach(function () {
+    printed.length = 0;
+    consoleLog = console.log;
+    console.log = (...args: unknown[]) => printed.push(args.join(" "));
+  });
+
+  afterEach(function () {
+    console.log = consoleLog;
+  });
+
+  return printed;
+}
+
 describe("PrivateTokenDistributor", function () {
   let signers: Signers;
   let distributorContract: PrivateTokenDistributor;
@@ -43,6 +85,8 @@ describe("PrivateTokenDistributor", function () {
       alice: ethSigners[1],
       bob: ethSigners[2],
       charlie: ethSigners[3],
+      dave: ethSigners[4],
+      eve: ethSigners[5],
     };
 
     // Deploy a mock ERC20 token
@@ -54,25 +98,48 @@ describe("PrivateTokenDistributor", function () {
     await mockToken.mint(signers.deployer.address, ethers.parseEther("1000"));
 
     // Deploy the PrivateTokenDistributor contract
-    const DistributorFactory = await ethers.getContractFactory("PrivateTokenDistributor");
-    distributorContract = await DistributorFactory.deploy(mockTokenAddress);
-    distributorContractAddress = await distributorContract.getAddress();
+    ({ distributor: distributorContract, address: distributorContractAddress } = await deployDistributor());
 
     console.log("PrivateTokenDistributor deployed at:", distributorContractAddress);
 
     // Approve the distributor contract to spend deployer's tokens
     await mockToken.approve(distributorContractAddress, ethers.parseEther("1000"));
-  }); // Test contract deployment
+  });
+
+  // Deploys a distributor for the mock token, funded by the deployer with `units` encrypted units
+  async function deployDistributor(units = 0n) {
+    const DistributorFactory = await ethers.getContractFactory("PrivateTokenDistributor");
+    const distributor = await DistributorFactory.deploy(mockTokenAddress);
+    const address = await distributor.getAddress();
+    const rate = await distributor.rate(mockTokenAddress);
+    if (units > 0n) {
+      await mockToken.approve(address, units * rate);
+      await distributor.depositTokens(mockTokenAddress, units * rate);
+    }
+    return { distributor, address, rate };
+  }
+
+  // Decrypts a recipient's balance of the mock token, which is zero until something is allocated to them
+  async function decryptBalance(distributor: PrivateTokenDistributor, signer: HardhatEthersSigner) {
+    const handle = await distributor.connect(signer).getMyBalance(mockTokenAddress);
+    return handle === ethers.ZeroHash
+      ? 0n
+      : fhevm.userDecryptEuint(FhevmType.euint64, handle, await distributor.getAddress(), signer);
+  }
+
+  // Test contract deployment
   it("should be deployed correctly", async function () {
     console.log(`PrivateTokenDistributor has been deployed at address ${distributorContractAddress}`);
     expect(ethers.isAddress(distributorContractAddress)).to.eq(true);
 
     // Verify initial state
-    const tokenAddress = await distributorContract.token();
-    expect(tokenAddress).to.equal(mockTokenAddress);
+    expect(await distributorContract.getTokens()).to.deep.equal([mockTokenAddress]);
 
     const ownerAddress = await distributorContract.owner();
     expect(ownerAddress).to.equal(signers.deployer.address);
+
+    // MockERC20 has 18 decimals, encrypted amounts carry 6
+    expect(await distributorContract.rate(mockTokenAddress)).to.equal(10n ** 12n);
   });
 
   // Test token deposit
@@ -83,7 +150,7 @@ describe("PrivateTokenDistributor", function () {
     const initialContractBalance = await mockToken.balanceOf(distributorContractAddress);
 
     // Deposit tokens
-    const tx = await distributorContract.depositTokens(depositAmount);
+    const tx = await distributorContract.depositTokens(mockTokenAddress, depositAmount);
     await tx.wait();
 
     // Check updated balances
@@ -98,11 +165,12 @@ describe("PrivateTokenDistributor", function () {
     // Owner (deployer) is sending the tx, so encrypted input must be created with owner's address
     const encryptedAmount = await fhevm
       .createEncryptedInput(distributorContractAddress, signers.deployer.address)
-      .add32(distributeAmount)
+      .add64(distributeAmount)
       .encrypt();
 
     // Distribute tokens to Alice
     const tx = await distributorContract.distributeTokens(
+      mockTokenAddress,
       signers.alice.address,
       encryptedAmount.handles[0],
       encryptedAmount.inputProof,
@@ -110,11 +178,11 @@ describe("PrivateTokenDistributor", function () {
     await tx.wait();
 
     // Alice checks her balance
-    const encryptedBalance = await distributorContract.connect(signers.alice).getMyBalance();
+    const encryptedBalance = await distributorContract.connect(signers.alice).getMyBalance(mockTokenAddress);
 
     // Alice decrypts her balance
     const decryptedBalance = await fhevm.userDecryptEuint(
-      FhevmType.euint32,
+      FhevmType.euint64,
       encryptedBalance,
       distributorContractAddress,
       signers.alice,
@@ -134,17 +202,18 @@ describe("PrivateTokenDistributor", function () {
     // Owner sends the tx, so use owner's address in encrypted input
     const encryptedBobAmount = await fhevm
       .createEncryptedInput(distributorContractAddress, signers.deployer.address)
-      .add32(bobAmount)
+      .add64(bobAmount)
       .encrypt();
 
     // Encrypt the amount for Charlie
     const encryptedCharlieAmount = await fhevm
       .createEncryptedInput(distributorContractAddress, signers.deployer.address)
-      .add32(charlieAmount)
+      .add64(charlieAmount)
       .encrypt();
 
     // Batch distribute tokens
     const tx = await distributorContract.batchDistributeTokens(
+      mockTokenAddress,
       [signers.bob.address, signers.charlie.address],
       [encryptedBobAmount.handles[0], encryptedCharlieAmount.handles[0]],
       [encryptedBobAmount.inputProof, encryptedCharlieAmount.inputProof],
@@ -152,9 +221,9 @@ describe("PrivateTokenDistributor", function () {
     await tx.wait();
 
     // Bob checks and decrypts his balance
-    const bobEncryptedBalance = await distributorContract.connect(signers.bob).getMyBalance();
+    const bobEncryptedBalance = await distributorContract.connect(signers.bob).getMyBalance(mockTokenAddress);
     const bobDecryptedBalance = await fhevm.userDecryptEuint(
-      FhevmType.euint32,
+      FhevmType.euint64,
       bobEncryptedBalance,
       distributorContractAddress,
       signers.bob,
@@ -162,9 +231,9 @@ describe("PrivateTokenDistributor", function () {
     expect(bobDecryptedBalance).to.equal(bobAmount);
 
     // Charlie checks and decrypts his balance
-    const charlieEncryptedBalance = await distributorContract.connect(signers.charlie).getMyBalance();
+    const charlieEncryptedBalance = await distributorContract.connect(signers.charlie).getMyBalance(mockTokenAddress);
     const charlieDecryptedBalance = await fhevm.userDecryptEuint(
-      FhevmType.euint32,
+      FhevmType.euint64,
       charlieEncryptedBalance,
       distributorContractAddress,
       signers.charlie,
@@ -172,6 +241,848 @@ describe("PrivateTokenDistributor", function () {
     expect(charlieDecryptedBalance).to.equal(charlieAmount);
   });
 
+  // Test batch distribution with a single packed input
+  it("should batch distribute tokens with one packed input proof", async function () {
+    const daveAmount = 40;
+    const eveAmount = 15;
+
+    // Both amounts are packed behind one proof
+    const encryptedAmounts = await fhevm
+      .createEncryptedInput(distributorContractAddress, signers.deployer.address)
+      .add64(daveAmount)
+      .add64(eveAmount)
+      .encrypt();
+
+    const tx = await distributorContract.batchDistributeTokensPacked(
+      mockTokenAddress,
+      [signers.dave.address, signers.eve.address],
+      encryptedAmounts.handles,
+      encryptedAmounts.inputProof,
+    );
+    await tx.wait();
+
+    const daveEncryptedBalance = await distributorContract.connect(signers.dave).getMyBalance(mockTokenAddress);
+    const daveDecryptedBalance = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      daveEncryptedBalance,
+      distributorContractAddress,
+      signers.dave,
+    );
+    expect(daveDecryptedBalance).to.equal(daveAmount);
+
+    const eveEncryptedBalance = await distributorContract.connect(signers.eve).getMyBalance(mockTokenAddress);
+    const eveDecryptedBalance = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      eveEncryptedBalance,
+      distributorContractAddress,
+      signers.eve,
+    );
+    expect(eveDecryptedBalance).to.equal(eveAmount);
+
+    await expect(
+      distributorContract.batchDistributeTokensPacked(
+        mockTokenAddress,
+        [signers.dave.address],
+        encryptedAmounts.handles,
+        encryptedAmounts.inputProof,
+      ),
+    ).to.be.revertedWith("Array lengths must match");
+  });
+
+  // Test that allocations can never exceed the deposited funds
+  describe("solvency guard", function () {
+    let guarded: PrivateTokenDistributor;
+    let guardedAddress: string;
+    let rate: bigint;
+
+    async function decryptAccepted(recipient: string) {
+      const encryptedAccepted = await guarded.getAllocationAccepted(mockTokenAddress, recipient);
+      return fhevm.userDecryptEbool(encryptedAccepted, guardedAddress, signers.deployer);
+    }
+
+    before(async function () {
+      // Only 100 encrypted units back this distributor
+      ({ distributor: guarded, address: guardedAddress, rate } = await deployDistributor(100n));
+      expect(await guarded.totalDeposited(mockTokenAddress)).to.equal(100n * rate);
+    });
+
+    it("should clamp a single distribution that exceeds the deposits", async function () {
+      let encryptedAmount = await fhevm
+        .createEncryptedInput(guardedAddress, signers.deployer.address)
+        .add64(60)
+        .encrypt();
+      await (
+        await guarded.distributeTokens(
+          mockTokenAddress,
+          signers.alice.address,
+          encryptedAmount.handles[0],
+          encryptedAmount.inputProof,
+        )
+      ).wait();
+      expect(await decryptAccepted(signers.alice.address)).to.eq(true);
+
+      // 60 of 100 is allocated, so 50 more would overshoot
+      encryptedAmount = await fhevm.createEncryptedInput(guardedAddress, signers.deployer.address).add64(50).encrypt();
+      await (
+        await guarded.distributeTokens(
+          mockTokenAddress,
+          signers.alice.address,
+          encryptedAmount.handles[0],
+          encryptedAmount.inputProof,
+        )
+      ).wait();
+      expect(await decryptAccepted(signers.alice.address)).to.eq(false);
+      expect(await decryptBalance(guarded, signers.alice)).to.equal(60);
+
+      const totalDistributed = await fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        await guarded.getTotalDistributed(mockTokenAddress),
+        guardedAddress,
+        signers.deployer,
+      );
+      expect(totalDistributed).to.equal(60);
+    });
+
+    it("should clamp batch allocations once the deposits run out", async function () {
+      // 40 units are left: Bob's 30 fits, Charlie's 20 does not
+      const encryptedAmounts = await fhevm
+        .createEncryptedInput(guardedAddress, signers.deployer.address)
+        .add64(30)
+        .add64(20)
+        .encrypt();
+      await (
+        await guarded.batchDistributeTokensPacked(
+          mockTokenAddress,
+          [signers.bob.address, signers.charlie.address],
+          encryptedAmounts.handles,
+          encryptedAmounts.inputProof,
+        )
+      ).wait();
+
+      expect(await decryptAccepted(signers.bob.address)).to.eq(true);
+      expect(await decryptAccepted(signers.charlie.address)).to.eq(false);
+      expect(await decryptBalance(guarded, signers.bob)).to.equal(30);
+      expect(await decryptBalance(guarded, signers.charlie)).to.equal(0);
+    });
+
+    it("should accept new allocations once more funds are deposited", async function () {
+      await mockToken.approve(guardedAddress, 20n * rate);
+      await guarded.depositTokens(mockTokenAddress, 20n * rate);
+
+      const encryptedAmounts = await fhevm
+        .createEncryptedInput(guardedAddress, signers.deployer.address)
+        .add64(20)
+        .encrypt();
+      await (
+        await guarded.batchDistributeTokens(
+          mockTokenAddress,
+          [signers.charlie.address],
+          [encryptedAmounts.handles[0]],
+          [encryptedAmounts.inputProof],
+        )
+      ).wait();
+
+      expect(await decryptAccepted(signers.charlie.address)).to.eq(true);
+      expect(await decryptBalance(guarded, signers.charlie)).to.equal(20);
+    });
+  });
+
+  // Test vesting schedules
+  describe("vesting", function () {
+    let vesting: PrivateTokenDistributor;
+    let vestingAddress: string;
+    let start: number;
+    const grant = 1000;
+    const cliff = 100;
+    const duration = 1000;
+
+    before(async function () {
+      ({ distributor: vesting, address: vestingAddress } = await deployDistributor(BigInt(grant)));
+    });
+
+    it("should let the owner attach a schedule to an encrypted grant", async function () {
+      start = (await time.latest()) + 10;
+      const encryptedAmount = await fhevm
+        .createEncryptedInput(vestingAddress, signers.deployer.address)
+        .add64(grant)
+        .encrypt();
+
+      await expect(
+        vesting
+          .connect(signers.alice)
+          .createVesting(
+            mockTokenAddress,
+            signers.alice.address,
+            encryptedAmount.handles[0],
+            encryptedAmount.inputProof,
+            start,
+            cliff,
+            duration,
+          ),
+      ).to.be.revertedWith("Caller is missing role");
+
+      await expect(
+        vesting.createVesting(
+          mockTokenAddress,
+          signers.alice.address,
+          encryptedAmount.handles[0],
+          encryptedAmount.inputProof,
+          start,
+          cliff,
+          duration,
+        ),
+      )
+        .to.emit(vesting, "VestingCreated")
+        .withArgs(mockTokenAddress, signers.alice.address, start, cliff, duration);
+
+      const [encryptedTotal, , scheduleStart] = await vesting.connect(signers.alice).getMyVesting(mockTokenAddress);
+      expect(scheduleStart).to.equal(start);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, encryptedTotal, vestingAddress, signers.alice)).to.equal(
+        grant,
+      );
+
+      await expect(
+        vesting.createVesting(
+          mockTokenAddress,
+          signers.alice.address,
+          encryptedAmount.handles[0],
+          encryptedAmount.inputProof,
+          start,
+          cliff,
+          duration,
+        ),
+      ).to.be.revertedWith("Vesting still running");
+    });
+
+    it("should release nothing before the cliff", async function () {
+      await time.setNextBlockTimestamp(start + cliff / 2);
+      await (await vesting.connect(signers.alice).releaseVested(mockTokenAddress)).wait();
+      expect(await decryptBalance(vesting, signers.alice)).to.equal(0);
+    });
+
+    it("should release the linearly vested portion after the cliff", async function () {
+      await time.setNextBlockTimestamp(start + 250);
+      await (await vesting.connect(signers.alice).releaseVested(mockTokenAddress)).wait();
+      expect(await decryptBalance(vesting, signers.alice)).to.equal(250);
+    });
+
+    it("should only withdraw the vested portion", async function () {
+      const rate = await vesting.rate(mockTokenAddress);
+      const initialAliceTokenBalance = await mockToken.balanceOf(signers.alice.address);
+
+      // Halfway through the schedule the whole grant is not covered, so that request debits nothing
+      await time.setNextBlockTimestamp(start + 500);
+      const wholeGrant = await requestWithdrawal(vesting, signers.alice, mockTokenAddress, grant);
+      const vestedHalf = await requestWithdrawal(vesting, signers.alice, mockTokenAddress, 500);
+
+      await time.increase(await vesting.DEFAULT_WITHDRAWAL_DELAY());
+      await (await vesting.connect(signers.alice).completeWithdrawal(wholeGrant)).wait();
+      await (await vesting.connect(signers.alice).completeWithdrawal(vestedHalf)).wait();
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await mockToken.balanceOf(signers.alice.address)).to.equal(initialAliceTokenBalance + 500n * rate);
+    });
+
+    it("should release the rest once fully vested", async function () {
+      // The withdrawal delay has already pushed the clock past the end of the schedule
+      expect(await time.latest()).to.be.greaterThan(start + duration);
+      await (await vesting.connect(signers.alice).releaseVested(mockTokenAddress)).wait();
+      expect(await decryptBalance(vesting, signers.alice)).to.equal(grant - 500);
+
+      await expect(vesting.connect(signers.bob).releaseVested(mockTokenAddress)).to.be.revertedWith(
+        "No vesting schedule",
+      );
+    });
+
+    it("should replace a fully vested schedule after releasing what is left of it", async function () {
+      const rate = await vesting.rate(mockTokenAddress);
+      await mockToken.approve(vestingAddress, 150n * rate);
+      await vesting.depositTokens(mockTokenAddress, 150n * rate);
+
+      async function grantBob(amount: number, grantStart: number, grantDuration: number) {
+        const encryptedAmount = await fhevm
+          .createEncryptedInput(vestingAddress, signers.deployer.address)
+          .add64(amount)
+          .encrypt();
+        return vesting.createVesting(
+          mockTokenAddress,
+          signers.bob.address,
+          encryptedAmount.handles[0],
+          encryptedAmount.inputProof,
+          grantStart,
+          0,
+          grantDuration,
+        );
+      }
+
+      const firstStart = await time.latest();
+      await (await grantBob(50, firstStart, 10)).wait();
+      await expect(grantBob(100, firstStart, 100)).to.be.revertedWith("Vesting still running");
+
+      // Bob never released the first grant; replacing it moves all of it to his balance
+      start = firstStart + 20;
+      await time.setNextBlockTimestamp(start);
+      await expect(grantBob(100, start, 100)).to.emit(vesting, "VestingReleased");
+      expect(await decryptBalance(vesting, signers.bob)).to.equal(50);
+
+      const [encryptedTotal, , scheduleStart, , scheduleDuration] = await vesting
+        .connect(signers.bob)
+        .getMyVesting(mockTokenAddress);
+      expect([scheduleStart, scheduleDuration]).to.deep.equal([BigInt(start), 100n]);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, encryptedTotal, vestingAddress, signers.bob)).to.equal(
+        100,
+      );
+    });
+
+    it("should release and report the vested grant with the vested-balance task", async function () {
+      await time.setNextBlockTimestamp(start + 40);
+      await withSilencedConsole(async () => {
+        const result = await run("vested-balance", { contract: vestingAddress, signer: "2" });
+        expect(result.account).to.equal(signers.bob.address);
+        expect([result.start, result.cliff, result.duration]).to.deep.equal([BigInt(start), 0n, 100n]);
+        expect(result.granted).to.equal("0.0001 MTK");
+        expect(result.vested).to.equal("0.00004 MTK");
+        expect(result.unvested).to.equal("0.00006 MTK");
+      });
+      expect(await decryptBalance(vesting, signers.bob)).to.equal(90);
+    });
+  });
+
+  // Test roles and pausing
+  describe("access control", function () {
+    let controlled: PrivateTokenDistributor;
+    let controlledAddress: string;
+    let DISTRIBUTOR_ROLE: string;
+    let TREASURER_ROLE: string;
+    let PAUSER_ROLE: string;
+
+    async function encryptAmount(sender: HardhatEthersSigner, amount: number) {
+      return fhevm.createEncryptedInput(controlledAddress, sender.address).add64(amount).encrypt();
+    }
+
+    before(async function () {
+      ({ distributor: controlled, address: controlledAddress } = await deployDistributor(100n));
+      [DISTRIBUTOR_ROLE, TREASURER_ROLE, PAUSER_ROLE] = await Promise.all([
+        controlled.DISTRIBUTOR_ROLE(),
+        controlled.TREASURER_ROLE(),
+        controlled.PAUSER_ROLE(),
+      ]);
+    });
+
+    it("should grant every role to the deployer", async function () {
+      for (const role of [DISTRIBUTOR_ROLE, TREASURER_ROLE, PAUSER_ROLE]) {
+        expect(await controlled.getRoleMembers(role)).to.deep.equal([signers.deployer.address]);
+      }
+    });
+
+    it("should let only the owner grant and revoke roles", async function () {
+      await expect(
+        controlled.connect(signers.alice).grantRole(DISTRIBUTOR_ROLE, signers.alice.address),
+      ).to.be.revertedWith("Only owner can call this");
+
+      await expect(controlled.grantRole(DISTRIBUTOR_ROLE, signers.alice.address))
+        .to.emit(controlled, "RoleGranted")
+        .withArgs(DISTRIBUTOR_ROLE, signers.alice.address);
+      await controlled.grantRole(DISTRIBUTOR_ROLE, signers.bob.address);
+      await expect(controlled.grantRole(DISTRIBUTOR_ROLE, signers.bob.address)).to.be.revertedWith(
+        "Role already granted",
+      );
+
+      await expect(controlled.revokeRole(DISTRIBUTOR_ROLE, signers.deployer.address))
+        .to.emit(controlled, "RoleRevoked")
+        .withArgs(DISTRIBUTOR_ROLE, signers.deployer.address);
+      await expect(controlled.revokeRole(DISTRIBUTOR_ROLE, signers.deployer.address)).to.be.revertedWith(
+        "Role not granted",
+      );
+
+      expect(await controlled.hasRole(DISTRIBUTOR_ROLE, signers.deployer.address)).to.eq(false);
+      expect([...(await controlled.getRoleMembers(DISTRIBUTOR_ROLE))]).to.have.members([
+        signers.alice.address,
+        signers.bob.address,
+      ]);
+    });
+
+    it("should restrict distributions to distributors and deposits to treasurers", async function () {
+      let encryptedAmount = await encryptAmount(signers.deployer, 10);
+      await expect(
+        controlled.distributeTokens(
+          mockTokenAddress,
+          signers.charlie.address,
+          encryptedAmount.handles[0],
+          encryptedAmount.inputProof,
+        ),
+      ).to.be.revertedWith("Caller is missing role");
+
+      encryptedAmount = await encryptAmount(signers.alice, 10);
+      await (
+        await controlled
+          .connect(signers.alice)
+          .distributeTokens(
+            mockTokenAddress,
+            signers.charlie.address,
+            encryptedAmount.handles[0],
+            encryptedAmount.inputProof,
+          )
+      ).wait();
+
+      // The distributor can decrypt whether its own allocation was accepted
+      const encryptedAccepted = await controlled
+        .connect(signers.alice)
+        .getAllocationAccepted(mockTokenAddress, signers.charlie.address);
+      expect(await fhevm.userDecryptEbool(encryptedAccepted, controlledAddress, signers.alice)).to.eq(true);
+
+      await expect(controlled.connect(signers.alice).depositTokens(mockTokenAddress, 1)).to.be.revertedWith(
+        "Caller is missing role",
+      );
+    });
+
+    it("should halt distributions and withdrawals while paused", async function () {
+      const withdrawalId = await requestWithdrawal(controlled, signers.charlie, mockTokenAddress, 4);
+
+      await expect(controlled.connect(signers.alice).pause()).to.be.revertedWith("Caller is missing role");
+      await expect(controlled.pause()).to.emit(controlled, "Paused").withArgs(signers.deployer.address);
+      expect(await controlled.paused()).to.eq(true);
+
+      const encryptedAmount = await encryptAmount(signers.alice, 10);
+      await expect(
+        controlled
+          .connect(signers.alice)
+          .distributeTokens(
+            mockTokenAddress,
+            signers.charlie.address,
+            encryptedAmount.handles[0],
+            encryptedAmount.inputProof,
+          ),
+      ).to.be.revertedWith("Contract is paused");
+      await time.increase(await controlled.DEFAULT_WITHDRAWAL_DELAY());
+      await expect(controlled.connect(signers.charlie).completeWithdrawal(withdrawalId)).to.be.revertedWith(
+        "Contract is paused",
+      );
+
+      // Recipients can still take their funds back out of a pending request
+      await (await controlled.connect(signers.charlie).cancelWithdrawal(withdrawalId)).wait();
+      await expect(controlled.connect(signers.charlie).requestWithdrawal(mockTokenAddress, 1)).to.be.revertedWith(
+        "Contract is paused",
+      );
+
+      await expect(controlled.unpause()).to.emit(controlled, "Unpaused").withArgs(signers.deployer.address);
+      await (await controlled.connect(signers.charlie).requestWithdrawal(mockTokenAddress, 10)).wait();
+    });
+
+    it("should recover stray tokens without touching the deposits", async function () {
+      const rate = await controlled.rate(mockTokenAddress);
+      const StrayTokenFactory = await ethers.getContractFactory("MockERC20");
+      const strayToken = await StrayTokenFactory.deploy("Stray Token", "STR");
+      await strayToken.mint(controlledAddress, 7n);
+
+      // Tokens that are not supported at all can be recovered
+      await (await controlled.emergencyWithdraw(await strayToken.getAddress(), 7n)).wait();
+      expect(await strayToken.balanceOf(signers.deployer.address)).to.equal(7n);
+
+      // Supported tokens sent directly are recovered before the deposits are touched
+      await mockToken.transfer(controlledAddress, 5n * rate);
+      await expect(controlled.connect(signers.alice).emergencyWithdraw(mockTokenAddress, 5n * rate)).to.be.revertedWith(
+        "Caller is missing role",
+      );
+      await (await controlled.emergencyWithdraw(mockTokenAddress, 5n * rate)).wait();
+      expect(await controlled.totalDeposited(mockTokenAddress)).to.equal(100n * rate);
+
+      await (await controlled.emergencyWithdraw(mockTokenAddress, 30n * rate)).wait();
+      await fhevm.awaitDecryptionOracle();
+      expect(await controlled.totalDeposited(mockTokenAddress)).to.equal(70n * rate);
+      expect(await controlled.depositOf(mockTokenAddress, signers.deployer.address)).to.equal(70n * rate);
+      await expect(controlled.emergencyWithdraw(mockTokenAddress, 71n * rate)).to.be.revertedWith(
+        "Amount exceeds balance",
+      );
+    });
+
+    it("should only let treasurers take back deposits no recipient was allocated", async function () {
+      const rate = await controlled.rate(mockTokenAddress);
+      const encryptedAmount = await encryptAmount(signers.alice, 20);
+      await (
+        await controlled
+          .connect(signers.alice)
+          .distributeTokens(
+            mockTokenAddress,
+            signers.dave.address,
+            encryptedAmount.handles[0],
+            encryptedAmount.inputProof,
+          )
+      ).wait();
+
+      // 30 of the 70 deposited are allocated, so taking 41 would leave the allocations uncovered
+      const balanceBefore = await mockToken.balanceOf(signers.deployer.address);
+      const rejected = await controlled.emergencyWithdraw(mockTokenAddress, 41n * rate);
+      await expect(rejected).to.emit(controlled, "EmergencyWithdrawalDecryptionRequested");
+      // The amount backs no new allocations and cannot be withdrawn again while the oracle decides
+      expect(await controlled.totalDeposited(mockTokenAddress)).to.equal(29n * rate);
+      await expect(controlled.emergencyWithdraw(mockTokenAddress, 30n * rate)).to.be.revertedWith(
+        "Amount exceeds deposits",
+      );
+
+      // The whole amount is put back
+      await fhevm.awaitDecryptionOracle();
+      const [rejection] = await controlled.queryFilter(
+        controlled.filters.EmergencyWithdrawalRejected(mockTokenAddress),
+      );
+      expect(rejection.args.to).to.equal(signers.deployer.address);
+      expect(await controlled.totalDeposited(mockTokenAddress)).to.equal(70n * rate);
+      expect(await controlled.depositOf(mockTokenAddress, signers.deployer.address)).to.equal(70n * rate);
+      expect(await mockToken.balanceOf(signers.deployer.address)).to.equal(balanceBefore);
+
+      await (await controlled.emergencyWithdraw(mockTokenAddress, 40n * rate)).wait();
+      await fhevm.awaitDecryptionOracle();
+      expect(await controlled.totalDeposited(mockTokenAddress)).to.equal(30n * rate);
+      expect(await controlled.depositOf(mockTokenAddress, signers.deployer.address)).to.equal(30n * rate);
+      expect(await mockToken.balanceOf(signers.deployer.address)).to.equal(balanceBefore + 40n * rate);
+    });
+  });
+
+  // Test confidential transfers between recipients
+  describe("private transfers", function () {
+    let transfers: PrivateTokenDistributor;
+    let transfersAddress: string;
+
+    async function transfer(from: HardhatEthersSigner, to: HardhatEthersSigner, amount: number) {
+      const encryptedAmount = await fhevm.createEncryptedInput(transfersAddress, from.address).add64(amount).encrypt();
+      return transfers
+        .connect(from)
+        .transferEncrypted(mockTokenAddress, to.address, encryptedAmount.handles[0], encryptedAmount.inputProof);
+    }
+
+    // Decrypts the amount a transfer actually moved, as seen by one of the parties
+    async function decryptTransferred(tx: Awaited<ReturnType<typeof transfer>>, signer: HardhatEthersSigner) {
+      const receipt = await tx.wait();
+      const event = receipt!.logs
+        .map((log) => transfers.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "EncryptedTransfer");
+      return fhevm.userDecryptEuint(FhevmType.euint64, event!.args.amount, transfersAddress, signer);
+    }
+
+    before(async function () {
+      ({ distributor: transfers, address: transfersAddress } = await deployDistributor(100n));
+
+      const encryptedAmount = await fhevm
+        .createEncryptedInput(transfersAddress, signers.deployer.address)
+        .add64(50)
+        .encrypt();
+      await (
+        await transfers.distributeTokens(
+          mockTokenAddress,
+          signers.alice.address,
+          encryptedAmount.handles[0],
+          encryptedAmount.inputProof,
+        )
+      ).wait();
+    });
+
+    it("should move part of the sender's balance to the receiver", async function () {
+      const tx = await transfer(signers.alice, signers.bob, 20);
+      await expect(tx).to.emit(transfers, "EncryptedTransfer");
+
+      expect(await decryptBalance(transfers, signers.alice)).to.equal(30);
+      expect(await decryptBalance(transfers, signers.bob)).to.equal(20);
+      expect(await decryptTransferred(tx, signers.alice)).to.equal(20);
+      expect(await decryptTransferred(tx, signers.bob)).to.equal(20);
+    });
+
+    it("should transfer nothing when the balance does not cover the amount", async function () {
+      // Bob holds 20, so 25 silently becomes a zero transfer
+      const tx = await transfer(signers.bob, signers.alice, 25);
+
+      expect(await decryptTransferred(tx, signers.bob)).to.equal(0);
+      expect(await decryptBalance(transfers, signers.bob)).to.equal(20);
+      expect(await decryptBalance(transfers, signers.alice)).to.equal(30);
+
+      // A sender without any balance cannot move anything either
+      await (await transfer(signers.charlie, signers.alice, 5)).wait();
+      expect(await decryptBalance(transfers, signers.charlie)).to.equal(0);
+      expect(await decryptBalance(transfers, signers.alice)).to.equal(30);
+    });
+
+    it("should let the receiver withdraw transferred tokens", async function () {
+      const rate = await transfers.rate(mockTokenAddress);
+      const initialBobTokenBalance = await mockToken.balanceOf(signers.bob.address);
+
+      const withdrawalId = await requestWithdrawal(transfers, signers.bob, mockTokenAddress, 20);
+      await time.increase(await transfers.DEFAULT_WITHDRAWAL_DELAY());
+      await (await transfers.connect(signers.bob).completeWithdrawal(withdrawalId)).wait();
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await mockToken.balanceOf(signers.bob.address)).to.equal(initialBobTokenBalance + 20n * rate);
+      expect(await decryptBalance(transfers, signers.bob)).to.equal(0);
+    });
+
+    it("should reject invalid receivers and transfers while paused", async function () {
+      await expect(transfer(signers.alice, signers.alice, 1)).to.be.revertedWith("Cannot transfer to yourself");
+
+      await transfers.pause();
+      await expect(transfer(signers.alice, signers.bob, 1)).to.be.revertedWith("Contract is paused");
+      await transfers.unpause();
+    });
+  });
+
+  // Test the read-only auditor role
+  describe("auditor", function () {
+    let audited: PrivateTokenDistributor;
+    let auditedAddress: string;
+    let AUDITOR_ROLE: string;
+
+    async function distribute(recipient: HardhatEthersSigner, amount: number) {
+      const encryptedAmount = await fhevm
+        .createEncryptedInput(auditedAddress, signers.deployer.address)
+        .add64(amount)
+        .encrypt();
+      await (
+        await audited.distributeTokens(
+          mockTokenAddress,
+          recipient.address,
+          encryptedAmount.handles[0],
+          encryptedAmount.inputProof,
+        )
+      ).wait();
+    }
+
+    async function auditorDecrypt(handle: string) {
+      return fhevm.userDecryptEuint(FhevmType.euint64, handle, auditedAddress, signers.eve);
+    }
+
+    before(async function () {
+      ({ distributor: audited, address: auditedAddress } = await deployDistributor(100n));
+      AUDITOR_ROLE = await audited.AUDITOR_ROLE();
+
+      await distribute(signers.alice, 40);
+      await distribute(signers.bob, 10);
+    });
+
+    it("should share the running total with auditors", async function () {
+      await expect(audited.connect(signers.eve).getTotalDistributed(mockTokenAddress)).to.be.revertedWith(
+        "Only owner or auditor",
+      );
+
+      // Eve can decrypt the total computed before she became an auditor and every total after it
+      await audited.grantRole(AUDITOR_ROLE, signers.eve.address);
+      expect(await auditorDecrypt(await audited.connect(signers.eve).getTotalDistributed(mockTokenAddress))).to.equal(
+        50,
+      );
+      await distribute(signers.bob, 5);
+      expect(await auditorDecrypt(await audited.connect(signers.eve).getTotalDistributed(mockTokenAddress))).to.equal(
+        55,
+      );
+    });
+
+    it("should only share balances the owner marks as audited", async function () {
+      await expect(
+        audited.connect(signers.eve).getAuditedBalance(mockTokenAddress, signers.alice.address),
+      ).to.be.revertedWith("Balance not audited");
+      await expect(
+        audited.connect(signers.alice).setBalanceAudited(mockTokenAddress, [signers.alice.address], true),
+      ).to.be.revertedWith("Only owner can call this");
+
+      await expect(audited.setBalanceAudited(mockTokenAddress, [signers.alice.address], true))
+        .to.emit(audited, "BalanceAuditSet")
+        .withArgs(mockTokenAddress, signers.alice.address, true);
+      expect(
+        await auditorDecrypt(
+          await audited.connect(signers.eve).getAuditedBalance(mockTokenAddress, signers.alice.address),
+        ),
+      ).to.equal(40);
+
+      // Later balance changes stay visible
+      await (await audited.connect(signers.alice).requestWithdrawal(mockTokenAddress, 15)).wait();
+      expect(
+        await auditorDecrypt(
+          await audited.connect(signers.eve).getAuditedBalance(mockTokenAddress, signers.alice.address),
+        ),
+      ).to.equal(25);
+
+      // Bob's balance was never shared
+      const bobBalance = await audited.connect(signers.bob).getMyBalance(mockTokenAddress);
+      await expect(auditorDecrypt(bobBalance)).to.be.rejected;
+      await expect(
+        audited.connect(signers.bob).getAuditedBalance(mockTokenAddress, signers.alice.address),
+      ).to.be.revertedWith("Caller is missing role");
+    });
+
+    it("should write the totals and audited balances to a CSV with the audit-report task", async function () {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "audit-report-"));
+      const out = path.join(dir, "report.csv");
+      const ledger = path.join(dir, "ledger.json");
+      try {
+        await withSilencedConsole(async () => {
+          const totalHandle = await audited.getTotalDistributed(mockTokenAddress);
+          const aliceHandle = await audited
+            .connect(signers.eve)
+            .getAuditedBalance(mockTokenAddress, signers.alice.address);
+          const result = await run("audit-report", { contract: auditedAddress, signer: "5", out, ledger });
+          expect(result.rows).to.equal(3);
+          expect(fs.readFileSync(out, "utf8").trim().split("\n")).to.deep.equal([
+            "token,symbol,kind,account,amount,encrypted_units,handle",
+            `${mockTokenAddress},MTK,total_deposited,${auditedAddress},0.0001,,`,
+            `${mockTokenAddress},MTK,total_distributed,${auditedAddress},0.000055,55,${totalHandle}`,
+            `${mockTokenAddress},MTK,balance,${signers.alice.address},0.000025,25,${aliceHandle}`,
+          ]);
+
+          // An auditor granted after the balance was shared sees the row but cannot decrypt it yet
+          await audited.grantRole(AUDITOR_ROLE, signers.dave.address);
+          await run("audit-report", { contract: auditedAddress, signer: "4", out, ledger });
+          expect(fs.readFileSync(out, "utf8")).to.include(`balance,${signers.alice.address},,,${aliceHandle}`);
+          await audited.revokeRole(AUDITOR_ROLE, signers.dave.address);
+
+          await expect(run("audit-report", { contract: auditedAddress, signer: "3", out, ledger })).to.be.rejectedWith(
+            "does not hold the auditor role",
+          );
+        });
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("should stop sharing new handles once access is revoked", async function () {
+      await audited.revokeRole(AUDITOR_ROLE, signers.eve.address);
+      await expect(audited.connect(signers.eve).getTotalDistributed(mockTokenAddress)).to.be.revertedWith(
+        "Only owner or auditor",
+      );
+
+      // Handles created afterwards are not shared with Eve
+      await distribute(signers.alice, 5);
+      await expect(auditorDecrypt(await audited.getTotalDistributed(mockTokenAddress))).to.be.rejected;
+      await expect(auditorDecrypt(await audited.connect(signers.alice).getMyBalance(mockTokenAddress))).to.be.rejected;
+    });
+  });
+
+  // Test the event indexer and its local ledger
+  describe("history indexer", function () {
+    let indexed: PrivateTokenDistributor;
+    let indexedAddress: string;
+    let ledgerPath: string;
+    let chainId: bigint;
+    let withdrawalId: bigint;
+
+    // Reloads the ledger from disk and brings it up to date, like consecutive task runs would
+    async function sync() {
+      const ledger = loadLedger(ledgerPath, indexedAddress, chainId);
+      const added = await syncLedger(indexed, ledger, { batchSize: 3 });
+      saveLedger(ledgerPath, ledger);
+      return { ledger, added };
+    }
+
+    function historyOf(ledger: Awaited<ReturnType<typeof sync>>["ledger"], recipient: HardhatEthersSigner) {
+      return getRecipientHistories(ledger).find((history) => history.recipient === recipient.address);
+    }
+
+    before(async function () {
+      ({ distributor: indexed, address: indexedAddress } = await deployDistributor(100n));
+      chainId = (await ethers.provider.getNetwork()).chainId;
+      ledgerPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "ledger-")), "ledger.json");
+
+      const encryptedAmounts = await fhevm
+        .createEncryptedInput(indexedAddress, signers.deployer.address)
+        .add64(30)
+        .add64(20)
+        .encrypt();
+      await (
+        await indexed.batchDistributeTokensPacked(
+          mockTokenAddress,
+          [signers.alice.address, signers.bob.address],
+          encryptedAmounts.handles,
+          encryptedAmounts.inputProof,
+        )
+      ).wait();
+    });
+
+    after(function () {
+      fs.rmSync(path.dirname(ledgerPath), { recursive: true, force: true });
+    });
+
+    it("should index deposits and allocations into a ledger", async function () {
+      const { ledger, added } = await sync();
+      const names = ledger.events.map((event) => event.name);
+      expect(names).to.include.members(["TokenAdded", "Deposit", "RecipientAdded"]);
+      expect(added).to.equal(ledger.events.length);
+
+      const deposit = ledger.events.find((event) => event.name === "Deposit")!;
+      expect(deposit.args.from).to.equal(signers.deployer.address);
+      expect(BigInt(deposit.args.amount)).to.equal(100n * (await indexed.rate(mockTokenAddress)));
+
+      expect(historyOf(ledger, signers.alice)!.events.map((event) => event.name)).to.deep.equal(["RecipientAdded"]);
+      expect(historyOf(ledger, signers.bob)!.pendingWithdrawals).to.deep.equal([]);
+    });
+
+    it("should only append new events and track pending withdrawals", async function () {
+      const before = loadLedger(ledgerPath, indexedAddress, chainId);
+      withdrawalId = await requestWithdrawal(indexed, signers.alice, mockTokenAddress, 30);
+      await requestWithdrawal(indexed, signers.alice, mockTokenAddress, 5);
+
+      const { ledger, added } = await sync();
+      expect(added).to.equal(2);
+      expect(ledger.events.length).to.equal(before.events.length + 2);
+
+      const alice = historyOf(ledger, signers.alice)!;
+      expect(alice.pendingWithdrawals.map(({ request }) => request.args.amount)).to.deep.equal(["30", "5"]);
+      expect(alice.pendingWithdrawals[0].request.args.withdrawalId).to.equal(withdrawalId.toString());
+      expect(alice.pendingWithdrawals[0].decrypting).to.eq(false);
+
+      // Nothing new to fetch
+      expect((await sync()).added).to.equal(0);
+    });
+
+    it("should clear a pending withdrawal once it is paid out", async function () {
+      await time.increase(await indexed.DEFAULT_WITHDRAWAL_DELAY());
+      await (await indexed.connect(signers.alice).completeWithdrawal(withdrawalId)).wait();
+      const completing = historyOf((await sync()).ledger, signers.alice)!;
+      expect(completing.pendingWithdrawals.map(({ decrypting }) => decrypting)).to.deep.equal([true, false]);
+
+      await fhevm.awaitDecryptionOracle();
+      const alice = historyOf((await sync()).ledger, signers.alice)!;
+      // The other request is still queued
+      expect(alice.pendingWithdrawals.map(({ request }) => request.args.amount)).to.deep.equal(["5"]);
+      expect(alice.events.map((event) => event.name)).to.deep.equal([
+        "RecipientAdded",
+        "WithdrawalInitiated",
+        "WithdrawalInitiated",
+        "WithdrawalDecryptionRequested",
+        "WithdrawalCompleted",
+      ]);
+      expect(alice.events[4].args.amount).to.equal("30");
+    });
+
+    it("should print a recipient's timeline and pending withdrawals with the history task", async function () {
+      const taskLedger = path.join(path.dirname(ledgerPath), "task-ledger.json");
+      const printed: string[] = [];
+      await withSilencedConsole(async () => {
+        const result = await run("distributor:history", {
+          contract: indexedAddress,
+          ledger: taskLedger,
+          recipient: signers.alice.address,
+        });
+        expect(result.ledger).to.equal(taskLedger);
+        expect(result.added).to.equal(loadLedger(ledgerPath, indexedAddress, chainId).events.length);
+        expect(result.deposits).to.have.lengthOf(1);
+        expect(result.histories.map(({ recipient }: { recipient: string }) => recipient)).to.deep.equal([
+          signers.alice.address,
+        ]);
+
+        const output = printed.join("\n");
+        expect(output).to.include(`Deposit of 0.0001 MTK by ${signers.deployer.address}`);
+        expect(output).to.include(`withdrew 0.00003 MTK (withdrawal #${withdrawalId})`);
+        expect(output).to.match(
+          /Pending withdrawals:\n.*requested withdrawal #\d+ of 0.000005 MTK .*awaiting completion/,
+        );
+        expect(output).to.not.include(signers.bob.address);
+
+        // A second run only fetches what is new
+        expect((await run("distributor:history", { contract: indexedAddress, ledger: taskLedger })).added).to.equal(0);
+      }, printed);
+    });
+
+    it("should refuse a ledger written for another contract", async function () {
+      expect(() => loadLedger(ledgerPath, distributorContractAddress, chainId)).to.throw(
+        "belongs to a different contract or chain",
+      );
+    });
+  });
+
   // Test the withdrawal process
   it("should allow withdrawal with the correct amount after time delay", async function () {
     // Alice initiates a withdrawal with her decrypted balance (50)
@@ -179,60 +1090,112 @@ describe("PrivateTokenDistributor", function () {
     const initialAliceTokenBalance = await mockToken.balanceOf(signers.alice.address);
 
     // Request withdrawal
-    let tx = await distributorContract.connect(signers.alice).requestWithdrawal(aliceWithdrawAmount);
-    await tx.wait();
+    const withdrawalId = await requestWithdrawal(
+      distributorContract,
+      signers.alice,
+      mockTokenAddress,
+      aliceWithdrawAmount,
+    );
 
     // Verify the withdrawal request was recorded
-    const [requestAmount, requestTime] = await distributorContract.getWithdrawalRequest(signers.alice.address);
-    expect(requestAmount).to.equal(aliceWithdrawAmount);
+    const [token, recipient, requestAmount, requestTime, unlockTime] =
+      await distributorContract.getWithdrawalRequest(withdrawalId);
+    expect([token, recipient, requestAmount]).to.deep.equal([
+      mockTokenAddress,
+      signers.alice.address,
+      BigInt(aliceWithdrawAmount),
+    ]);
+    expect(unlockTime - requestTime).to.equal(await distributorContract.DEFAULT_WITHDRAWAL_DELAY());
+
+    // The requested amount is debited from the balance up front
+    const encryptedDebit = await distributorContract.connect(signers.alice).getMyPendingWithdrawal(withdrawalId);
+    const decryptedDebit = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      encryptedDebit,
+      distributorContractAddress,
+      signers.alice,
+    );
+    expect(decryptedDebit).to.equal(aliceWithdrawAmount);
 
     // Try to complete withdrawal before delay (should fail)
-    await expect(distributorContract.connect(signers.alice).completeWithdrawal()).to.be.revertedWith(
+    await expect(distributorContract.connect(signers.alice).completeWithdrawal(withdrawalId)).to.be.revertedWith(
       "Withdrawal delay not yet passed",
     );
+    // Nobody else can complete or inspect the request
+    await expect(distributorContract.connect(signers.bob).completeWithdrawal(withdrawalId)).to.be.revertedWith(
+      "No withdrawal request pending",
+    );
+    await expect(distributorContract.connect(signers.bob).getMyPendingWithdrawal(withdrawalId)).to.be.revertedWith(
+      "No withdrawal request pending",
+    );
 
     // Advance time by the withdrawal delay
-    await time.increase(await distributorContract.WITHDRAWAL_DELAY());
+    await time.increase(await distributorContract.DEFAULT_WITHDRAWAL_DELAY());
 
-    // Complete the withdrawal
-    tx = await distributorContract.connect(signers.alice).completeWithdrawal();
+    // Complete the withdrawal, which only asks the oracle to decrypt the debited amount
+    const tx = await distributorContract.connect(signers.alice).completeWithdrawal(withdrawalId);
     await tx.wait();
+    expect(await mockToken.balanceOf(signers.alice.address)).to.equal(initialAliceTokenBalance);
+
+    const [, , , , , decrypting] = await distributorContract.getWithdrawalRequest(withdrawalId);
+    expect(decrypting).to.eq(true);
+
+    // Tokens move once the mock decryption oracle delivers the result
+    await fhevm.awaitDecryptionOracle();
 
     // Check Alice's token balance has increased
     const finalAliceTokenBalance = await mockToken.balanceOf(signers.alice.address);
-    expect(finalAliceTokenBalance).to.equal(initialAliceTokenBalance + BigInt(aliceWithdrawAmount));
+    const rate = await distributorContract.rate(mockTokenAddress);
+    expect(finalAliceTokenBalance).to.equal(initialAliceTokenBalance + BigInt(aliceWithdrawAmount) * rate);
 
     // Verify the request was cleared
-    const [requestAmountAfter, _] = await distributorContract.getWithdrawalRequest(signers.alice.address);
+    const [, , requestAmountAfter] = await distributorContract.getWithdrawalRequest(withdrawalId);
     expect(requestAmountAfter).to.equal(0);
+    const [, pendingCount] = await distributorContract.getWithdrawalRequests(
+      mockTokenAddress,
+      signers.alice.address,
+      0,
+      10,
+    );
+    expect(pendingCount).to.equal(0);
 
-    // Skip balance verification after withdrawal since the balance is reset to zero
-    // and may not have proper FHE permissions for decryption after the select operation
+    // Verify Alice's remaining balance is zero
+    const aliceEncryptedBalance = await distributorContract.connect(signers.alice).getMyBalance(mockTokenAddress);
+    const aliceDecryptedBalance = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      aliceEncryptedBalance,
+      distributorContractAddress,
+      signers.alice,
+    );
+    expect(aliceDecryptedBalance).to.equal(0);
   });
 
   // Test cancellation of withdrawal request
   it("should allow cancellation of a withdrawal request", async function () {
     // Bob initiates a withdrawal
     const bobWithdrawAmount = 30;
-    let tx = await distributorContract.connect(signers.bob).requestWithdrawal(bobWithdrawAmount);
-    await tx.wait();
+    const withdrawalId = await requestWithdrawal(distributorContract, signers.bob, mockTokenAddress, bobWithdrawAmount);
 
     // Verify the withdrawal request was recorded
-    const [requestAmount, _] = await distributorContract.getWithdrawalRequest(signers.bob.address);
+    const [, , requestAmount] = await distributorContract.getWithdrawalRequest(withdrawalId);
     expect(requestAmount).to.equal(bobWithdrawAmount);
 
     // Cancel the withdrawal
-    tx = await distributorContract.connect(signers.bob).cancelWithdrawal();
-    await tx.wait();
+    await expect(distributorContract.connect(signers.bob).cancelWithdrawal(withdrawalId))
+      .to.emit(distributorContract, "WithdrawalCanceled")
+      .withArgs(mockTokenAddress, signers.bob.address, withdrawalId);
 
     // Verify the request was cleared
-    const [requestAmountAfter, __] = await distributorContract.getWithdrawalRequest(signers.bob.address);
+    const [, , requestAmountAfter] = await distributorContract.getWithdrawalRequest(withdrawalId);
     expect(requestAmountAfter).to.equal(0);
+    await expect(distributorContract.connect(signers.bob).cancelWithdrawal(withdrawalId)).to.be.revertedWith(
+      "No withdrawal request pending",
+    );
 
-    // Verify Bob's balance is still intact
-    const bobEncryptedBalance = await distributorContract.connect(signers.bob).getMyBalance();
+    // Verify Bob's balance was restored
+    const bobEncryptedBalance = await distributorContract.connect(signers.bob).getMyBalance(mockTokenAddress);
     const bobDecryptedBalance = await fhevm.userDecryptEuint(
-      FhevmType.euint32,
+      FhevmType.euint64,
       bobEncryptedBalance,
       distributorContractAddress,
       signers.bob,
@@ -240,82 +1203,1640 @@ describe("PrivateTokenDistributor", function () {
     expect(bobDecryptedBalance).to.equal(30);
   });
 
-  // Test withdrawal with incorrect amount (should not work)
+  // Test withdrawal with an amount above the balance (nothing is debited or paid out)
   it("should not allow withdrawal with incorrect amount", async function () {
-    // Charlie attempts to withdraw with incorrect amount
+    // Charlie requests more than his balance of 20
     const charlieActualBalance = 20;
-    const charlieWithdrawAmount = 30; // This is more than Charlie's balance
+    const charlieWithdrawAmount = 30;
+    const initialCharlieTokenBalance = await mockToken.balanceOf(signers.charlie.address);
 
-    // Request withdrawal with incorrect amount
-    let tx = await distributorContract.connect(signers.charlie).requestWithdrawal(charlieWithdrawAmount);
-    await tx.wait();
+    const withdrawalId = await requestWithdrawal(
+      distributorContract,
+      signers.charlie,
+      mockTokenAddress,
+      charlieWithdrawAmount,
+    );
 
     // Advance time by the withdrawal delay
-    await time.increase(await distributorContract.WITHDRAWAL_DELAY());
+    await time.increase(await distributorContract.DEFAULT_WITHDRAWAL_DELAY());
 
-    // Attempt to complete the withdrawal (should fail because amount doesn't match)
-    // The withdrawal will succeed but the balance won't be reset since amounts don't match
-    // So the transfer will fail due to insufficient contract balance for the wrong amount
-    const tx2 = await distributorContract.connect(signers.charlie).completeWithdrawal();
-    await tx2.wait();
+    await (await distributorContract.connect(signers.charlie).completeWithdrawal(withdrawalId)).wait();
+    await fhevm.awaitDecryptionOracle();
 
-    // Charlie requested wrong amount (30) but actual balance is 20
-    // Since FHE.select preserves original balance when amounts don't match,
-    // the withdrawal request is cleared but Charlie gets 30 tokens anyway
-    // This is expected behavior with the current FHE logic
+    // Charlie receives nothing and keeps his balance
+    expect(await mockToken.balanceOf(signers.charlie.address)).to.equal(initialCharlieTokenBalance);
 
-    // Skip balance verification since FHE permissions may not allow decryption
-    // after the select operation, and the balance state is now indeterminate
+    const charlieEncryptedBalance = await distributorContract.connect(signers.charlie).getMyBalance(mockTokenAddress);
+    const charlieDecryptedBalance = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      charlieEncryptedBalance,
+      distributorContractAddress,
+      signers.charlie,
+    );
+    expect(charlieDecryptedBalance).to.equal(charlieActualBalance);
   });
 
-  // Test owner functions
-  it("should allow owner to change token and transfer ownership", async function () {
-    // Deploy a new mock token
+  // Test that a withdrawal being decrypted can neither be cancelled nor completed twice
+  it("should lock a withdrawal once decryption is requested", async function () {
+    const withdrawalId = await requestWithdrawal(distributorContract, signers.bob, mockTokenAddress, 10);
+    await time.increase(await distributorContract.DEFAULT_WITHDRAWAL_DELAY());
+    await (await distributorContract.connect(signers.bob).completeWithdrawal(withdrawalId)).wait();
+
+    await expect(distributorContract.connect(signers.bob).cancelWithdrawal(withdrawalId)).to.be.revertedWith(
+      "Withdrawal already completing",
+    );
+    await expect(distributorContract.connect(signers.bob).completeWithdrawal(withdrawalId)).to.be.revertedWith(
+      "Withdrawal already completing",
+    );
+
+    await fhevm.awaitDecryptionOracle();
+
+    const bobEncryptedBalance = await distributorContract.connect(signers.bob).getMyBalance(mockTokenAddress);
+    const bobDecryptedBalance = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      bobEncryptedBalance,
+      distributorContractAddress,
+      signers.bob,
+    );
+    expect(bobDecryptedBalance).to.equal(20);
+  });
+
+  // Test that a payout the token refuses does not lose the debited amount
+  it("should credit the debit back when the payout fails", async function () {
+    const withdrawalId = await requestWithdrawal(distributorContract, signers.bob, mockTokenAddress, 5);
+    await time.increase(await distributorContract.DEFAULT_WITHDRAWAL_DELAY());
+    await (await distributorContract.connect(signers.bob).completeWithdrawal(withdrawalId)).wait();
+
+    // The token blocks transfers to Bob by the time the oracle answers
+    await (await mockToken.setFrozen(signers.bob.address, true)).wait();
+    const initialBobTokenBalance = await mockToken.balanceOf(signers.bob.address);
+    try {
+      await fhevm.awaitDecryptionOracle();
+    } finally {
+      await (await mockToken.setFrozen(signers.bob.address, false)).wait();
+    }
+
+    const [failed] = await distributorContract.queryFilter(distributorContract.filters.WithdrawalFailed());
+    expect(failed.args).to.deep.equal([mockTokenAddress, signers.bob.address, withdrawalId, 5n]);
+    expect(await mockToken.balanceOf(signers.bob.address)).to.equal(initialBobTokenBalance);
+
+    // The request is gone and its debit is back in the balance, so nothing is locked
+    const [, recipient] = await distributorContract.getWithdrawalRequest(withdrawalId);
+    expect(recipient).to.equal(ethers.ZeroAddress);
+    const bobEncryptedBalance = await distributorContract.connect(signers.bob).getMyBalance(mockTokenAddress);
+    const bobDecryptedBalance = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      bobEncryptedBalance,
+      distributorContractAddress,
+      signers.bob,
+    );
+    expect(bobDecryptedBalance).to.equal(20);
+  });
+
+  // Test that a forged callback is rejected
+  it("should reject decryption callbacks without valid KMS signatures", async function () {
+    await expect(distributorContract.onWithdrawalDecrypted(0, 1000, [])).to.be.reverted;
+  });
+
+  // Test that every token runs its own program
+  it("should keep balances and deposits separate per token", async function () {
     const NewTokenFactory = await ethers.getContractFactory("MockERC20");
     const newMockToken = await NewTokenFactory.deploy("New Token", "NTK");
     const newMockTokenAddress = await newMockToken.getAddress();
 
-    // Change the token
-    let tx = await distributorContract.setToken(newMockTokenAddress);
-    await tx.wait();
+    await expect(distributorContract.depositTokens(newMockTokenAddress, 1)).to.be.revertedWith("Token not supported");
+    await expect(distributorContract.connect(signers.alice).addToken(newMockTokenAddress)).to.be.revertedWith(
+      "Only owner can call this",
+    );
+    await expect(distributorContract.addToken(newMockTokenAddress))
+      .to.emit(distributorContract, "TokenAdded")
+      .withArgs(newMockTokenAddress, 10n ** 12n);
+    await expect(distributorContract.addToken(newMockTokenAddress)).to.be.revertedWith("Token already supported");
+    expect(await distributorContract.getTokens()).to.deep.equal([mockTokenAddress, newMockTokenAddress]);
 
-    // Verify token was changed
-    const updatedTokenAddress = await distributorContract.token();
-    expect(updatedTokenAddress).to.equal(newMockTokenAddress);
+    const rate = await distributorContract.rate(newMockTokenAddress);
+    await newMockToken.mint(signers.deployer.address, 10n * rate);
+    await newMockToken.approve(distributorContractAddress, 10n * rate);
+    await (await distributorContract.depositTokens(newMockTokenAddress, 10n * rate)).wait();
+    expect(await distributorContract.totalDeposited(newMockTokenAddress)).to.equal(10n * rate);
 
-    // Transfer ownership to Alice
-    tx = await distributorContract.transferOwnership(signers.alice.address);
-    await tx.wait();
+    const encryptedAmount = await fhevm
+      .createEncryptedInput(distributorContractAddress, signers.deployer.address)
+      .add64(10)
+      .encrypt();
+    await (
+      await distributorContract.distributeTokens(
+        newMockTokenAddress,
+        signers.dave.address,
+        encryptedAmount.handles[0],
+        encryptedAmount.inputProof,
+      )
+    ).wait();
+
+    // Dave's balance in the first token is untouched
+    const newTokenBalance = await distributorContract.connect(signers.dave).getMyBalance(newMockTokenAddress);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint64, newTokenBalance, distributorContractAddress, signers.dave),
+    ).to.equal(10);
+    const firstTokenBalance = await distributorContract.connect(signers.dave).getMyBalance(mockTokenAddress);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint64, firstTokenBalance, distributorContractAddress, signers.dave),
+    ).to.equal(40);
+
+    // Withdrawing one token pays out only that token
+    const initialDaveBalance = await mockToken.balanceOf(signers.dave.address);
+    const withdrawalId = await requestWithdrawal(distributorContract, signers.dave, newMockTokenAddress, 10);
+    const [, pendingInFirstToken] = await distributorContract.getWithdrawalRequests(
+      mockTokenAddress,
+      signers.dave.address,
+      0,
+      10,
+    );
+    expect(pendingInFirstToken).to.equal(0);
+    await time.increase(await distributorContract.DEFAULT_WITHDRAWAL_DELAY());
+    await (await distributorContract.connect(signers.dave).completeWithdrawal(withdrawalId)).wait();
+    await fhevm.awaitDecryptionOracle();
+
+    expect(await newMockToken.balanceOf(signers.dave.address)).to.equal(10n * rate);
+    expect(await mockToken.balanceOf(signers.dave.address)).to.equal(initialDaveBalance);
+  });
+
+  // Test the owner's withdrawal policy and queued partial withdrawals
+  describe("withdrawal policy", function () {
+    let policed: PrivateTokenDistributor;
+    let policedAddress: string;
+    let rate: bigint;
+
+    async function pendingIds(signer: HardhatEthersSigner) {
+      const [ids] = await policed.getWithdrawalRequests(mockTokenAddress, signer.address, 0, 100);
+      return [...ids];
+    }
+
+    before(async function () {
+      ({ distributor: policed, address: policedAddress, rate } = await deployDistributor(100n));
+
+      const encryptedAmount = await fhevm
+        .createEncryptedInput(policedAddress, signers.deployer.address)
+        .add64(100)
+        .encrypt();
+      await (
+        await policed.distributeTokens(
+          mockTokenAddress,
+          signers.alice.address,
+          encryptedAmount.handles[0],
+          encryptedAmount.inputProof,
+        )
+      ).wait();
+    });
+
+    it("should start every token with the default policy", async function () {
+      const [delay, minAmount, maxAmount] = await policed.withdrawalPolicy(mockTokenAddress);
+      expect(delay).to.equal(await policed.DEFAULT_WITHDRAWAL_DELAY());
+      expect(minAmount).to.equal(1);
+      expect(maxAmount).to.equal(2n ** 64n - 1n);
+    });
+
+    it("should let only the owner set a valid policy", async function () {
+      await expect(policed.connect(signers.alice).setWithdrawalPolicy(mockTokenAddress, 60, 5, 50)).to.be.revertedWith(
+        "Only owner can call this",
+      );
+      await expect(policed.setWithdrawalPolicy(mockTokenAddress, 60, 0, 50)).to.be.revertedWith(
+        "Invalid withdrawal limits",
+      );
+      await expect(policed.setWithdrawalPolicy(mockTokenAddress, 60, 51, 50)).to.be.revertedWith(
+        "Invalid withdrawal limits",
+      );
+      const maxDelay = await policed.MAX_WITHDRAWAL_DELAY();
+      await expect(policed.setWithdrawalPolicy(mockTokenAddress, maxDelay + 1n, 5, 50)).to.be.revertedWith(
+        "Withdrawal delay too long",
+      );
+      await expect(policed.setWithdrawalPolicy(signers.eve.address, 60, 5, 50)).to.be.revertedWith(
+        "Token not supported",
+      );
+
+      await expect(policed.setWithdrawalPolicy(mockTokenAddress, 60, 5, 50))
+        .to.emit(policed, "WithdrawalPolicySet")
+        .withArgs(mockTokenAddress, 60, 5, 50);
+    });
+
+    it("should enforce the minimum and maximum request", async function () {
+      await expect(policed.connect(signers.alice).requestWithdrawal(mockTokenAddress, 4)).to.be.revertedWith(
+        "Amount below minimum withdrawal",
+      );
+      await expect(policed.connect(signers.alice).requestWithdrawal(mockTokenAddress, 51)).to.be.revertedWith(
+        "Amount above maximum withdrawal",
+      );
+    });
+
+    it("should queue partial withdrawals and debit each one", async function () {
+      const first = await requestWithdrawal(policed, signers.alice, mockTokenAddress, 30);
+      const second = await requestWithdrawal(policed, signers.alice, mockTokenAddress, 20);
+      const third = await requestWithdrawal(policed, signers.alice, mockTokenAddress, 10);
+
+      expect(await pendingIds(signers.alice)).to.deep.equal([first, second, third]);
+      expect(await decryptBalance(policed, signers.alice)).to.equal(40);
+
+      // Pages are cut at the end of the list
+      const [page, total] = await policed.getWithdrawalRequests(mockTokenAddress, signers.alice.address, 1, 5);
+      expect([...page]).to.deep.equal([second, third]);
+      expect(total).to.equal(3);
+      const [beyondEnd] = await policed.getWithdrawalRequests(mockTokenAddress, signers.alice.address, 5, 5);
+      expect([...beyondEnd]).to.deep.equal([]);
+    });
+
+    it("should cancel one request and leave the others queued", async function () {
+      const [first, second, third] = await pendingIds(signers.alice);
+      await (await policed.connect(signers.alice).cancelWithdrawal(first)).wait();
+
+      expect(await pendingIds(signers.alice)).to.deep.equal([third, second]);
+      expect(await decryptBalance(policed, signers.alice)).to.equal(70);
+    });
+
+    it("should keep the delay a request was made with", async function () {
+      const initialAliceTokenBalance = await mockToken.balanceOf(signers.alice.address);
+      const [third, second] = await pendingIds(signers.alice);
+
+      // Lengthening the delay only affects later requests
+      await (await policed.setWithdrawalPolicy(mockTokenAddress, 3600, 5, 50)).wait();
+      const later = await requestWithdrawal(policed, signers.alice, mockTokenAddress, 5);
+
+      await time.increase(60);
+      await (await policed.connect(signers.alice).completeWithdrawal(second)).wait();
+      await (await policed.connect(signers.alice).completeWithdrawal(third)).wait();
+      await expect(policed.connect(signers.alice).completeWithdrawal(later)).to.be.revertedWith(
+        "Withdrawal delay not yet passed",
+      );
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await mockToken.balanceOf(signers.alice.address)).to.equal(initialAliceTokenBalance + 30n * rate);
+      expect(await pendingIds(signers.alice)).to.deep.equal([later]);
+      expect(await decryptBalance(policed, signers.alice)).to.equal(65);
+    });
+  });
+
+  // Test distribution expiry and the owner's clawback of unwithdrawn allocations
+  describe("expiry and clawback", function () {
+    let expiring: PrivateTokenDistributor;
+    let expiringAddress: string;
+    let rate: bigint;
+    let expiry: number;
+
+    async function distribute(recipient: HardhatEthersSigner, amount: number) {
+      const encryptedAmount = await fhevm
+        .createEncryptedInput(expiringAddress, signers.deployer.address)
+        .add64(amount)
+        .encrypt();
+      return expiring.distributeTokens(
+        mockTokenAddress,
+        recipient.address,
+        encryptedAmount.handles[0],
+        encryptedAmount.inputProof,
+      );
+    }
+
+    before(async function () {
+      ({ distributor: expiring, address: expiringAddress, rate } = await deployDistributor(200n));
+
+      await (await distribute(signers.alice, 50)).wait();
+      await (await distribute(signers.bob, 20)).wait();
+      const encryptedGrant = await fhevm
+        .createEncryptedInput(expiringAddress, signers.deployer.address)
+        .add64(40)
+        .encrypt();
+      await (
+        await expiring.createVesting(
+          mockTokenAddress,
+          signers.charlie.address,
+          encryptedGrant.handles[0],
+          encryptedGrant.inputProof,
+          await time.latest(),
+          0,
+          100000,
+        )
+      ).wait();
+    });
+
+    it("should let only the owner set a future expiry", async function () {
+      expiry = (await time.latest()) + 2 * 3600;
+
+      await expect(expiring.connect(signers.alice).setDistributionExpiry(mockTokenAddress, expiry)).to.be.revertedWith(
+        "Only owner can call this",
+      );
+      await expect(expiring.setDistributionExpiry(mockTokenAddress, await time.latest())).to.be.revertedWith(
+        "Expiry must be in the future",
+      );
+      await expect(expiring.setDistributionExpiry(mockTokenAddress, expiry))
+        .to.emit(expiring, "DistributionExpirySet")
+        .withArgs(mockTokenAddress, expiry);
+
+      await expect(expiring.clawback(mockTokenAddress, [signers.alice.address])).to.be.revertedWith(
+        "Distribution not expired",
+      );
+    });
+
+    it("should claw back balances and grants while pending withdrawals are still paid out", async function () {
+      const initialOwnerBalance = await mockToken.balanceOf(signers.deployer.address);
+      const initialAliceBalance = await mockToken.balanceOf(signers.alice.address);
+      const initialBobBalance = await mockToken.balanceOf(signers.bob.address);
+
+      // Alice's payout is with the oracle when the clawback lands; Bob's request has not been completed yet
+      const aliceWithdrawal = await requestWithdrawal(expiring, signers.alice, mockTokenAddress, 30);
+      const bobWithdrawal = await requestWithdrawal(expiring, signers.bob, mockTokenAddress, 5);
+      await time.increase(await expiring.DEFAULT_WITHDRAWAL_DELAY());
+      await (await expiring.connect(signers.alice).completeWithdrawal(aliceWithdrawal)).wait();
+
+      await time.increaseTo(expiry);
+      await expect(distribute(signers.alice, 1)).to.be.revertedWith("Distribution expired");
+
+      const recipients = [signers.alice.address, signers.bob.address, signers.charlie.address];
+      await expect(expiring.clawback(mockTokenAddress, recipients))
+        .to.emit(expiring, "ClawedBack")
+        .withArgs(mockTokenAddress, signers.charlie.address);
+      await fhevm.awaitDecryptionOracle();
+
+      // The owner recovers Alice's 20, Bob's 15 and Charlie's unreleased 40
+      expect(await mockToken.balanceOf(signers.deployer.address)).to.equal(initialOwnerBalance + 75n * rate);
+      expect(await mockToken.balanceOf(signers.alice.address)).to.equal(initialAliceBalance + 30n * rate);
+      expect(await decryptBalance(expiring, signers.alice)).to.equal(0);
+      expect(await decryptBalance(expiring, signers.bob)).to.equal(0);
+      const [, , , , duration] = await expiring.connect(signers.charlie).getMyVesting(mockTokenAddress);
+      expect(duration).to.equal(0);
+
+      // The amount debited for Bob's pending request survives the clawback
+      await (await expiring.connect(signers.bob).completeWithdrawal(bobWithdrawal)).wait();
+      await fhevm.awaitDecryptionOracle();
+      expect(await mockToken.balanceOf(signers.bob.address)).to.equal(initialBobBalance + 5n * rate);
+
+      // The recovered funds no longer count as distributed nor as deposited
+      const encryptedTotal = await expiring.getTotalDistributed(mockTokenAddress);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint64, encryptedTotal, expiringAddress, signers.deployer),
+      ).to.equal(35);
+      expect(await expiring.totalDeposited(mockTokenAddress)).to.equal(125n * rate);
+    });
+
+    it("should reject clawbacks by anyone but the owner and forged callbacks", async function () {
+      await expect(
+        expiring.connect(signers.alice).clawback(mockTokenAddress, [signers.bob.address]),
+      ).to.be.revertedWith("Only owner can call this");
+      await expect(expiring.onClawbackDecrypted(0, 1000, [])).to.be.reverted;
+    });
+
+    it("should accept allocations again once the expiry is lifted", async function () {
+      await (await expiring.setDistributionExpiry(mockTokenAddress, 0)).wait();
+      await (await distribute(signers.bob, 10)).wait();
+      expect(await decryptBalance(expiring, signers.bob)).to.equal(10);
+    });
+
+    it("should keep a clawback the token refuses to transfer as unallocated deposits", async function () {
+      await (await expiring.setDistributionExpiry(mockTokenAddress, (await time.latest()) + 60)).wait();
+      await time.increase(60);
+      const initialOwnerBalance = await mockToken.balanceOf(signers.deployer.address);
+
+      await (await mockToken.setFrozen(signers.deployer.address, true)).wait();
+      try {
+        await (await expiring.clawback(mockTokenAddress, [signers.bob.address])).wait();
+        await fhevm.awaitDecryptionOracle();
+      } finally {
+        await (await mockToken.setFrozen(signers.deployer.address, false)).wait();
+      }
+
+      const failed = await expiring.queryFilter(expiring.filters.ClawbackFailed(mockTokenAddress));
+      expect(failed.map(({ args }) => [args.to, args.amount])).to.deep.equal([[signers.deployer.address, 10n]]);
+      expect(await mockToken.balanceOf(signers.deployer.address)).to.equal(initialOwnerBalance);
+      expect(await decryptBalance(expiring, signers.bob)).to.equal(0);
+      // Bob's 10 are no longer distributed but still deposited
+      const encryptedTotal = await expiring.getTotalDistributed(mockTokenAddress);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint64, encryptedTotal, expiringAddress, signers.deployer),
+      ).to.equal(35);
+      expect(await expiring.totalDeposited(mockTokenAddress)).to.equal(125n * rate);
+    });
+  });
+
+  describe("co-funding", function () {
+    let funded: PrivateTokenDistributor;
+    let fundedAddress: string;
+    let rate: bigint;
+
+    async function deposit(treasurer: HardhatEthersSigner, amount: bigint) {
+      await mockToken.mint(treasurer.address, amount);
+      await mockToken.connect(treasurer).approve(fundedAddress, amount);
+      return funded.connect(treasurer).depositTokens(mockTokenAddress, amount);
+    }
+
+    before(async function () {
+      ({ distributor: funded, address: fundedAddress, rate } = await deployDistributor());
+
+      const treasurerRole = await funded.TREASURER_ROLE();
+      await funded.grantRole(treasurerRole, signers.alice.address);
+      await funded.grantRole(treasurerRole, signers.bob.address);
+    });
+
+    it("should record deposits per depositor", async function () {
+      await (await deposit(signers.alice, 40n * rate)).wait();
+      await (await deposit(signers.bob, 40n * rate)).wait();
+      await (await deposit(signers.alice, 20n * rate)).wait();
+
+      expect(await funded.depositOf(mockTokenAddress, signers.alice.address)).to.equal(60n * rate);
+      expect(await funded.depositOf(mockTokenAddress, signers.bob.address)).to.equal(40n * rate);
+      expect(await funded.getDepositors(mockTokenAddress)).to.deep.equal([signers.alice.address, signers.bob.address]);
+      expect(await funded.totalDeposited(mockTokenAddress)).to.equal(100n * rate);
+
+      // Neither partner can take back more than they put in
+      await expect(funded.connect(signers.bob).emergencyWithdraw(mockTokenAddress, 41n * rate)).to.be.revertedWith(
+        "Amount exceeds own deposits",
+      );
+    });
+
+    it("should not let a withdrawal request nobody can pay hold back emergency withdrawals", async function () {
+      // Eve has no balance, so her request debits nothing; it stays pending through the close below
+      await requestWithdrawal(funded, signers.eve, mockTokenAddress, 2n ** 64n - 1n);
+
+      await (await deposit(signers.bob, 10n * rate)).wait();
+      const initialBobBalance = await mockToken.balanceOf(signers.bob.address);
+      await (await funded.connect(signers.bob).emergencyWithdraw(mockTokenAddress, 10n * rate)).wait();
+      await fhevm.awaitDecryptionOracle();
+      expect(await mockToken.balanceOf(signers.bob.address)).to.equal(initialBobBalance + 10n * rate);
+      expect(await funded.depositOf(mockTokenAddress, signers.bob.address)).to.equal(40n * rate);
+    });
+
+    it("should refund the unallocated funds pro rata when the distribution closes", async function () {
+      const encryptedAmount = await fhevm
+        .createEncryptedInput(fundedAddress, signers.deployer.address)
+        .add64(30)
+        .encrypt();
+      await (
+        await funded.distributeTokens(
+          mockTokenAddress,
+          signers.charlie.address,
+          encryptedAmount.handles[0],
+          encryptedAmount.inputProof,
+        )
+      ).wait();
+      const initialAliceBalance = await mockToken.balanceOf(signers.alice.address);
+      const initialBobBalance = await mockToken.balanceOf(signers.bob.address);
+
+      await expect(funded.connect(signers.alice).closeDistribution(mockTokenAddress)).to.be.revertedWith(
+        "Only owner can call this",
+      );
+      await expect(funded.closeDistribution(mockTokenAddress)).to.emit(funded, "DistributionClosed");
+      expect(await funded.distributionClosed(mockTokenAddress)).to.equal(true);
+      await fhevm.awaitDecryptionOracle();
+
+      // The 70 nobody was allocated go back 60:40
+      expect(await mockToken.balanceOf(signers.alice.address)).to.equal(initialAliceBalance + 42n * rate);
+      expect(await mockToken.balanceOf(signers.bob.address)).to.equal(initialBobBalance + 28n * rate);
+      expect(await funded.depositOf(mockTokenAddress, signers.alice.address)).to.equal(18n * rate);
+      expect(await funded.depositOf(mockTokenAddress, signers.bob.address)).to.equal(12n * rate);
+      expect(await funded.totalDeposited(mockTokenAddress)).to.equal(30n * rate);
+
+      // Charlie's allocation is still backed and can be withdrawn
+      const withdrawalId = await requestWithdrawal(funded, signers.charlie, mockTokenAddress, 30);
+      await time.increase(await funded.DEFAULT_WITHDRAWAL_DELAY());
+      await (await funded.connect(signers.charlie).completeWithdrawal(withdrawalId)).wait();
+      await fhevm.awaitDecryptionOracle();
+      expect(await mockToken.balanceOf(fundedAddress)).to.equal(0n);
+    });
+
+    it("should reject deposits, a new expiry and a second close once closed", async function () {
+      await expect(deposit(signers.alice, rate)).to.be.revertedWith("Distribution closed");
+      await expect(funded.setDistributionExpiry(mockTokenAddress, 0)).to.be.revertedWith("Distribution closed");
+      await expect(funded.closeDistribution(mockTokenAddress)).to.be.revertedWith("Distribution closed");
+      await expect(funded.onRefundDecrypted(0, 1000, [])).to.be.reverted;
+    });
+  });
+
+  // Test owner functions
+  it("should transfer ownership in two steps", async function () {
+    // Propose Alice as the new owner
+    await expect(distributorContract.transferOwnership(signers.alice.address))
+      .to.emit(distributorContract, "OwnershipTransferStarted")
+      .withArgs(signers.deployer.address, signers.alice.address);
+    expect(await distributorContract.owner()).to.equal(signers.deployer.address);
+    expect(await distributorContract.pendingOwner()).to.equal(signers.alice.address);
+
+    // Only the proposed owner can accept
+    await expect(distributorContract.connect(signers.bob).acceptOwnership()).to.be.revertedWith(
+      "Caller is not the pending owner",
+    );
+    await expect(distributorContract.connect(signers.alice).acceptOwnership())
+      .to.emit(distributorContract, "OwnershipTransferred")
+      .withArgs(signers.deployer.address, signers.alice.address);
 
     // Verify ownership was transferred
-    const newOwner = await distributorContract.owner();
-    expect(newOwner).to.equal(signers.alice.address);
+    expect(await distributorContract.owner()).to.equal(signers.alice.address);
+    expect(await distributorContract.pendingOwner()).to.equal(ethers.ZeroAddress);
+
+    // The deployer's roles moved to Alice along with the ownership
+    for (const role of [
+      await distributorContract.DISTRIBUTOR_ROLE(),
+      await distributorContract.TREASURER_ROLE(),
+      await distributorContract.PAUSER_ROLE(),
+    ]) {
+      expect(await distributorContract.hasRole(role, signers.deployer.address)).to.equal(false);
+      expect(await distributorContract.hasRole(role, signers.alice.address)).to.equal(true);
+    }
+    await expect(distributorContract.pause()).to.be.revertedWith("Caller is missing role");
+
+    // The new owner can decrypt the running total
+    const encryptedTotal = await distributorContract.connect(signers.alice).getTotalDistributed(mockTokenAddress);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint64, encryptedTotal, distributorContractAddress, signers.alice),
+    ).to.equal(155);
   });
 
-  // Test emergency withdraw
-  it("should allow emergency withdrawal by owner", async function () {
-    // The contract may have zero balance by this point due to previous withdrawals
-    // We need to deposit some tokens first to test emergency withdraw
+  describe("claim vouchers", function () {
+    let vouchered: PrivateTokenDistributor;
+    let voucheredAddress: string;
+
+    const CLAIM_TYPES = {
+      Claim: [
+        { name: "token", type: "address" },
+        { name: "recipient", type: "address" },
+        { name: "handle", type: "bytes32" },
+        { name: "proofHash", type: "bytes32" },
+        { name: "expiry", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+      ],
+    };
+
+    // Encrypts an amount for the recipient and signs the voucher, returning the `claim` arguments
+    async function signVoucher(
+      recipient: HardhatEthersSigner,
+      amount: number,
+      nonce: bigint,
+      options: { signer?: HardhatEthersSigner; expiresIn?: number } = {},
+    ) {
+      const encrypted = await fhevm.createEncryptedInput(voucheredAddress, recipient.address).add64(amount).encrypt();
+      const expiry = (await time.latest()) + (options.expiresIn ?? 3600);
+      const { chainId } = await ethers.provider.getNetwork();
+      const signature = await (options.signer ?? signers.deployer).signTypedData(
+        { name: "PrivateTokenDistributor", version: "1", chainId, verifyingContract: voucheredAddress },
+        CLAIM_TYPES,
+        {
+          token: mockTokenAddress,
+          recipient: recipient.address,
+          handle: encrypted.handles[0],
+          proofHash: ethers.keccak256(encrypted.inputProof),
+          expiry,
+          nonce,
+        },
+      );
+      return [mockTokenAddress, encrypted.handles[0], encrypted.inputProof, expiry, nonce, signature] as const;
+    }
+
+    before(async function () {
+      ({ distributor: vouchered, address: voucheredAddress } = await deployDistributor(100n));
+    });
+
+    it("should credit the recipient who claims a signed voucher", async function () {
+      const voucher = await signVoucher(signers.alice, 25, 1n);
+
+      await expect(vouchered.connect(signers.alice).claim(...voucher))
+        .to.emit(vouchered, "VoucherClaimed")
+        .withArgs(mockTokenAddress, signers.alice.address, 1n);
+      expect(await vouchered.isVoucherClaimed(signers.alice.address, 1n)).to.equal(true);
+      expect(await decryptBalance(vouchered, signers.alice)).to.equal(25n);
+    });
+
+    it("should reject a voucher that was already claimed", async function () {
+      const voucher = await signVoucher(signers.alice, 10, 2n);
+      await vouchered.connect(signers.alice).claim(...voucher);
+
+      await expect(vouchered.connect(signers.alice).claim(...voucher)).to.be.revertedWith("Voucher already claimed");
+      expect(await decryptBalance(vouchered, signers.alice)).to.equal(35n);
+    });
+
+    it("should reject an expired voucher", async function () {
+      const voucher = await signVoucher(signers.bob, 10, 1n, { expiresIn: 10 });
+      await time.increase(60);
+
+      await expect(vouchered.connect(signers.bob).claim(...voucher)).to.be.revertedWith("Voucher expired");
+      expect(await vouchered.isVoucherClaimed(signers.bob.address, 1n)).to.equal(false);
+    });
+
+    it("should reject a voucher submitted by someone other than its recipient", async function () {
+      const voucher = await signVoucher(signers.bob, 10, 2n);
+
+      await expect(vouchered.connect(signers.charlie).claim(...voucher)).to.be.revertedWith(
+        "Invalid voucher signature",
+      );
+      await vouchered.connect(signers.bob).claim(...voucher);
+      expect(await decryptBalance(vouchered, signers.bob)).to.equal(10n);
+      expect(await decryptBalance(vouchered, signers.charlie)).to.equal(0n);
+    });
+
+    it("should reject vouchers that a distributor did not sign as submitted", async function () {
+      const forged = await signVoucher(signers.charlie, 10, 1n, { signer: signers.charlie });
+      await expect(vouchered.connect(signers.charlie).claim(...forged)).to.be.revertedWith("Invalid voucher signature");
+
+      // Changing the nonce or expiry of a genuine voucher invalidates its signature
+      const [token, handle, proof, expiry, , signature] = await signVoucher(signers.charlie, 10, 2n);
+      await expect(
+        vouchered.connect(signers.charlie).claim(token, handle, proof, expiry, 3n, signature),
+      ).to.be.revertedWith("Invalid voucher signature");
+      await expect(
+        vouchered.connect(signers.charlie).claim(token, handle, proof, expiry + 1, 2n, signature),
+      ).to.be.revertedWith("Invalid voucher signature");
+    });
+  });
+
+  describe("confidential withdrawals", function () {
+    let confidential: PrivateTokenDistributor;
+    let confidentialAddress: string;
+    let wrapper: ConfidentialToken;
+    let wrapperAddress: string;
+    let rate: bigint;
+
+    async function decryptWrapped(signer: HardhatEthersSigner) {
+      const handle = await wrapper.confidentialBalanceOf(signer.address);
+      return handle === ethers.ZeroHash
+        ? 0n
+        : fhevm.userDecryptEuint(FhevmType.euint64, handle, wrapperAddress, signer);
+    }
+
+    async function withdrawConfidential(signer: HardhatEthersSigner, amount: number) {
+      const encrypted = await fhevm.createEncryptedInput(confidentialAddress, signer.address).add64(amount).encrypt();
+      return confidential
+        .connect(signer)
+        .withdrawConfidential(mockTokenAddress, encrypted.handles[0], encrypted.inputProof);
+    }
+
+    before(async function () {
+      ({ distributor: confidential, address: confidentialAddress, rate } = await deployDistributor(100n));
+      await mockToken.mint(signers.deployer.address, 100n * rate);
+      const WrapperFactory = await ethers.getContractFactory("ConfidentialToken");
+      wrapper = await WrapperFactory.deploy(mockTokenAddress, "Confidential Mock Token", "cMTK");
+      wrapperAddress = await wrapper.getAddress();
+
+      const encrypted = await fhevm
+        .createEncryptedInput(confidentialAddress, signers.deployer.address)
+        .add64(50)
+        .encrypt();
+      await confidential.distributeTokens(
+        mockTokenAddress,
+        signers.alice.address,
+        encrypted.handles[0],
+        encrypted.inputProof,
+      );
+    });
+
+    it("should only accept a confidential token that wraps the token, set by the owner", async function () {
+      await expect(withdrawConfidential(signers.alice, 10)).to.be.revertedWith("Confidential token not set");
+      await expect(confidential.wrapDeposits(mockTokenAddress, rate)).to.be.revertedWith("Confidential token not set");
+
+      const otherToken = await (await ethers.getContractFactory("MockERC20")).deploy("Other Token", "OTK");
+      const otherWrapper = await (
+        await ethers.getContractFactory("ConfidentialToken")
+      ).deploy(await otherToken.getAddress(), "Confidential Other Token", "cOTK");
+      await expect(confidential.setConfidentialToken(mockTokenAddress, otherWrapper)).to.be.revertedWith(
+        "Confidential token mismatch",
+      );
+      await expect(
+        confidential.connect(signers.alice).setConfidentialToken(mockTokenAddress, wrapperAddress),
+      ).to.be.revertedWith("Only owner can call this");
+
+      await expect(confidential.setConfidentialToken(mockTokenAddress, wrapperAddress))
+        .to.emit(confidential, "ConfidentialTokenSet")
+        .withArgs(mockTokenAddress, wrapperAddress);
+      expect(await confidential.confidentialToken(mockTokenAddress)).to.equal(wrapperAddress);
+    });
+
+    it("should let treasurers wrap deposits into the reserve", async function () {
+      await expect(confidential.connect(signers.alice).wrapDeposits(mockTokenAddress, rate)).to.be.revertedWith(
+        "Caller is missing role",
+      );
+      await expect(confidential.wrapDeposits(mockTokenAddress, 101n * rate)).to.be.revertedWith(
+        "Amount exceeds deposits",
+      );
+      await expect(confidential.wrapDeposits(mockTokenAddress, 40n * rate + 1n)).to.be.revertedWith(
+        "Amount not a multiple of rate",
+      );
+
+      await expect(confidential.wrapDeposits(mockTokenAddress, 40n * rate))
+        .to.emit(confidential, "DepositsWrapped")
+        .withArgs(mockTokenAddress, 40n * rate);
+      expect(await mockToken.balanceOf(wrapperAddress)).to.equal(40n * rate);
+      expect(await mockToken.balanceOf(confidentialAddress)).to.equal(60n * rate);
+      // The wrapped tokens still back allocations
+      expect(await confidential.totalDeposited(mockTokenAddress)).to.equal(100n * rate);
+    });
+
+    it("should pay an encrypted amount out in the confidential token", async function () {
+      const tx = await withdrawConfidential(signers.alice, 20);
+      await expect(tx).to.emit(confidential, "ConfidentialWithdrawal");
+      // No decryption was requested and no ERC20 left the contracts
+      await expect(tx).not.to.emit(mockToken, "Transfer");
+
+      expect(await decryptBalance(confidential, signers.alice)).to.equal(30n);
+      expect(await decryptWrapped(signers.alice)).to.equal(20n);
+    });
+
+    it("should leave the balance untouched when it or the reserve does not cover the amount", async function () {
+      // More than Alice's balance
+      await withdrawConfidential(signers.alice, 31);
+      expect(await decryptBalance(confidential, signers.alice)).to.equal(30n);
+      expect(await decryptWrapped(signers.alice)).to.equal(20n);
+
+      // Within Alice's balance but more than the 20 left in the reserve
+      await withdrawConfidential(signers.alice, 25);
+      expect(await decryptBalance(confidential, signers.alice)).to.equal(30n);
+      expect(await decryptWrapped(signers.alice)).to.equal(20n);
+    });
+
+    it("should fail a plaintext withdrawal that wrapping left uncovered and restore the balance", async function () {
+      const encrypted = await fhevm
+        .createEncryptedInput(confidentialAddress, signers.deployer.address)
+        .add64(20)
+        .encrypt();
+      await confidential.distributeTokens(
+        mockTokenAddress,
+        signers.bob.address,
+        encrypted.handles[0],
+        encrypted.inputProof,
+      );
+      const withdrawalId = await requestWithdrawal(confidential, signers.bob, mockTokenAddress, 20);
+
+      // Only 10 of the 60 left unwrapped stay behind for Bob's withdrawal of 20
+      await confidential.wrapDeposits(mockTokenAddress, 50n * rate);
+      await time.increase(await confidential.DEFAULT_WITHDRAWAL_DELAY());
+      await (await confidential.connect(signers.bob).completeWithdrawal(withdrawalId)).wait();
+      await fhevm.awaitDecryptionOracle();
+
+      const failed = await confidential.queryFilter(confidential.filters.WithdrawalFailed(mockTokenAddress));
+      expect(failed.map(({ args }) => [args.recipient, args.withdrawalId, args.amount])).to.deep.equal([
+        [signers.bob.address, withdrawalId, 20n],
+      ]);
+      expect(await decryptBalance(confidential, signers.bob)).to.equal(20n);
+      expect(await mockToken.balanceOf(confidentialAddress)).to.equal(10n * rate);
+    });
+
+    it("should unwrap confidential tokens back into the token once decrypted", async function () {
+      const encrypted = await fhevm.createEncryptedInput(wrapperAddress, signers.alice.address).add64(15).encrypt();
+      await wrapper
+        .connect(signers.alice)
+        [
+          "unwrap(address,address,bytes32,bytes)"
+        ](signers.alice.address, signers.alice.address, encrypted.handles[0], encrypted.inputProof);
+      const before = await mockToken.balanceOf(signers.alice.address);
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await mockToken.balanceOf(signers.alice.address)).to.equal(before + 15n * rate);
+      expect(await decryptWrapped(signers.alice)).to.equal(5n);
+    });
+
+    it("should wrap, withdraw, unwrap and check balances with the tasks", async function () {
+      const contract = confidentialAddress;
+      await withSilencedConsole(async () => {
+        await run("set-confidential-token", { contract, wrapper: wrapperAddress });
+        await run("wrap-deposits", { contract, amount: "0.00001" });
+
+        const withdrawal = await run("withdraw-confidential", { contract, signer: "1", amount: "0.000015" });
+        expect(withdrawal.withdrawn).to.equal("0.000015 MTK");
+        expect((await run("confidential-balance", { contract, signer: "1" })).balance).to.equal("0.00002 MTK");
+
+        const unwrapped = await run("unwrap", { contract, signer: "1", amount: "0.00002" });
+        expect(unwrapped.unwrapped).to.equal("0.00002 MTK");
+        await run("wrap", { contract, signer: "1", amount: "0.000001" });
+        expect((await run("confidential-balance", { contract, signer: "1" })).balance).to.equal("0.000001 MTK");
+      });
+    });
+  });
+
+  describe("rounds", function () {
+    let rounded: PrivateTokenDistributor;
+    let roundedAddress: string;
+
+    async function distribute(recipient: HardhatEthersSigner, amount: number) {
+      const encryptedAmount = await fhevm
+        .createEncryptedInput(roundedAddress, signers.deployer.address)
+        .add64(amount)
+        .encrypt();
+      await (
+        await rounded.distributeTokens(
+          mockTokenAddress,
+          recipient.address,
+          encryptedAmount.handles[0],
+          encryptedAmount.inputProof,
+        )
+      ).wait();
+    }
+
+    async function decryptRoundTotal(round: number) {
+      const [, , total] = await rounded.getRound(mockTokenAddress, round);
+      return fhevm.userDecryptEuint(FhevmType.euint64, total, roundedAddress, signers.deployer);
+    }
+
+    async function decryptContribution(recipient: HardhatEthersSigner, round: number) {
+      const handle = await rounded.connect(recipient).getMyRoundContribution(mockTokenAddress, round);
+      return handle === ethers.ZeroHash
+        ? 0n
+        : fhevm.userDecryptEuint(FhevmType.euint64, handle, roundedAddress, recipient);
+    }
+
+    before(async function () {
+      ({ distributor: rounded, address: roundedAddress } = await deployDistributor(100n));
+    });
+
+    it("should let only the owner open one round at a time", async function () {
+      await expect(rounded.connect(signers.alice).openRound(mockTokenAddress)).to.be.revertedWith(
+        "Only owner can call this",
+      );
+      await expect(rounded.closeRound(mockTokenAddress)).to.be.revertedWith("No round open");
+
+      await expect(rounded.openRound(mockTokenAddress)).to.emit(rounded, "RoundOpened").withArgs(mockTokenAddress, 1);
+      expect(await rounded.currentRound(mockTokenAddress)).to.equal(1);
+      await expect(rounded.openRound(mockTokenAddress)).to.be.revertedWith("Round already open");
+    });
+
+    it("should keep an encrypted total and contributions per round", async function () {
+      await distribute(signers.alice, 30);
+      await distribute(signers.bob, 20);
+      await distribute(signers.alice, 10);
+      // Not covered by the deposits, so it counts as zero
+      await distribute(signers.bob, 1000);
+
+      expect(await decryptRoundTotal(1)).to.equal(60);
+      expect(await decryptContribution(signers.alice, 1)).to.equal(40);
+      expect(await decryptContribution(signers.bob, 1)).to.equal(20);
+
+      await expect(rounded.connect(signers.alice).closeRound(mockTokenAddress)).to.be.revertedWith(
+        "Only owner can call this",
+      );
+      await expect(rounded.closeRound(mockTokenAddress)).to.emit(rounded, "RoundClosed").withArgs(mockTokenAddress, 1);
+
+      // Allocations between rounds count towards none, and a closed round is frozen
+      await distribute(signers.alice, 5);
+      await (await rounded.openRound(mockTokenAddress)).wait();
+      await distribute(signers.bob, 7);
+
+      expect(await decryptRoundTotal(1)).to.equal(60);
+      expect(await decryptRoundTotal(2)).to.equal(7);
+      expect(await decryptContribution(signers.alice, 1)).to.equal(40);
+      expect(await decryptContribution(signers.alice, 2)).to.equal(0);
+      expect(await decryptContribution(signers.bob, 2)).to.equal(7);
+
+      const [openedAt, closedAt] = await rounded.getRound(mockTokenAddress, 1);
+      expect(closedAt).to.be.greaterThan(openedAt);
+      expect(await rounded.getRoundCount(mockTokenAddress)).to.equal(2);
+      await expect(rounded.getRound(mockTokenAddress, 3)).to.be.revertedWith("Unknown round");
+    });
+
+    it("should only let the owner and auditors decrypt round totals", async function () {
+      const [, , total] = await rounded.getRound(mockTokenAddress, 1);
+      await expect(fhevm.userDecryptEuint(FhevmType.euint64, total, roundedAddress, signers.alice)).to.be.rejected;
 
-    // Alice is the owner now, mint her some tokens and deposit them
-    // But first we need to use the current token that was set in the ownership test
-    const currentTokenAddress = await distributorContract.token();
-    const currentToken = await ethers.getContractAt("MockERC20", currentTokenAddress);
+      // Auditors granted later can decrypt the totals of past rounds at once
+      await rounded.grantRole(await rounded.AUDITOR_ROLE(), signers.charlie.address);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, total, roundedAddress, signers.charlie)).to.equal(
+        await fhevm.userDecryptEuint(FhevmType.euint64, total, roundedAddress, signers.deployer),
+      );
 
-    await currentToken.mint(signers.alice.address, ethers.parseEther("50"));
-    await currentToken.connect(signers.alice).approve(distributorContractAddress, ethers.parseEther("50"));
-    await distributorContract.connect(signers.alice).depositTokens(ethers.parseEther("50"));
+      // Auditors are allowed on the open round's total with the next allocation
+      await distribute(signers.alice, 1);
+      const [, , openTotal] = await rounded.getRound(mockTokenAddress, 2);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, openTotal, roundedAddress, signers.charlie)).to.equal(8);
+    });
+
+    it("should open, close and list rounds with the tasks", async function () {
+      const contract = roundedAddress;
+      await withSilencedConsole(async () => {
+        await expect(run("open-round", { contract })).to.be.rejectedWith("Round 2 is still open");
+        expect((await run("close-round", { contract })).round).to.equal(2n);
+        await expect(run("close-round", { contract })).to.be.rejectedWith("No round is open");
+        expect((await run("open-round", { contract })).round).to.equal(3n);
+
+        const { rounds } = await run("list-rounds", { contract });
+        expect(rounds.map(({ total }: { total: string }) => total)).to.deep.equal([
+          "0.00006 MTK",
+          "0.000008 MTK",
+          "0.0 MTK",
+        ]);
+        expect(rounds[2].closedAt).to.equal(null);
+
+        // Alice sees her own contributions but not the totals
+        const alice = await run("list-rounds", { contract, signer: "1" });
+        expect(alice.rounds[0].total).to.equal(null);
+        expect(alice.rounds[1].total).to.equal(null);
+        expect(alice.rounds.map(({ contribution }: { contribution: string }) => contribution)).to.deep.equal([
+          "0.00004 MTK",
+          "0.000001 MTK",
+          "0.0 MTK",
+        ]);
+      });
+    });
+  });
+
+  describe("scheduled distributions", function () {
+    let scheduler: PrivateTokenDistributor;
+    let schedulerAddress: string;
+
+    // Schedules an allocation due `delay` seconds after the latest block and returns its ID
+    async function schedule(recipient: HardhatEthersSigner, amount: number, delay: number): Promise<bigint> {
+      const encryptedAmount = await fhevm
+        .createEncryptedInput(schedulerAddress, signers.deployer.address)
+        .add64(amount)
+        .encrypt();
+      const receipt = await (
+        await scheduler.scheduleDistribution(
+          mockTokenAddress,
+          recipient.address,
+          encryptedAmount.handles[0],
+          encryptedAmount.inputProof,
+          (await time.latest()) + delay,
+        )
+      ).wait();
+      const event = receipt!.logs
+        .map((log) => scheduler.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "DistributionScheduled");
+      return event!.args.scheduleId;
+    }
+
+    before(async function () {
+      ({ distributor: scheduler, address: schedulerAddress } = await deployDistributor(100n));
+    });
+
+    it("should let only distributors schedule distributions in the future", async function () {
+      const encryptedAmount = await fhevm
+        .createEncryptedInput(schedulerAddress, signers.alice.address)
+        .add64(10)
+        .encrypt();
+      await expect(
+        scheduler
+          .connect(signers.alice)
+          .scheduleDistribution(
+            mockTokenAddress,
+            signers.alice.address,
+            encryptedAmount.handles[0],
+            encryptedAmount.inputProof,
+            (await time.latest()) + 60,
+          ),
+      ).to.be.revertedWith("Caller is missing role");
+      await expect(schedule(signers.alice, 10, 0)).to.be.revertedWith("Execution must be in the future");
+
+      const scheduleId = await schedule(signers.alice, 10, 60);
+      expect(scheduleId).to.equal(1);
+      const [token, recipient, executeAfter, executed] = await scheduler.getScheduledDistribution(scheduleId);
+      expect([token, recipient, executed]).to.deep.equal([mockTokenAddress, signers.alice.address, false]);
+      expect(executeAfter).to.be.greaterThan(await time.latest());
+    });
+
+    it("should reject executing a distribution before it is due", async function () {
+      await expect(scheduler.connect(signers.bob).executeScheduledDistribution(1)).to.be.revertedWith(
+        "Schedule not yet due",
+      );
+      await expect(scheduler.executeScheduledDistribution(99)).to.be.revertedWith("Unknown scheduled distribution");
+      expect(await decryptBalance(scheduler, signers.alice)).to.equal(0);
+    });
+
+    it("should let anyone execute a due distribution exactly once", async function () {
+      await time.increase(60);
+
+      // Bob holds no role, so any account can act as the keeper
+      await expect(scheduler.connect(signers.bob).executeScheduledDistribution(1))
+        .to.emit(scheduler, "ScheduledDistributionExecuted")
+        .withArgs(mockTokenAddress, signers.alice.address, 1);
+      expect(await decryptBalance(scheduler, signers.alice)).to.equal(10);
+      expect((await scheduler.getScheduledDistribution(1)).executed).to.equal(true);
+
+      await expect(scheduler.connect(signers.bob).executeScheduledDistribution(1)).to.be.revertedWith(
+        "Schedule already executed",
+      );
+      await expect(scheduler.cancelScheduledDistribution(1)).to.be.revertedWith("Schedule already executed");
+      expect(await decryptBalance(scheduler, signers.alice)).to.equal(10);
+    });
+
+    it("should let the scheduling distributor, not the keeper, decrypt whether it was accepted", async function () {
+      const encryptedAccepted = await scheduler.getAllocationAccepted(mockTokenAddress, signers.alice.address);
+      expect(await fhevm.userDecryptEbool(encryptedAccepted, schedulerAddress, signers.deployer)).to.eq(true);
+      await expect(fhevm.userDecryptEbool(encryptedAccepted, schedulerAddress, signers.bob)).to.be.rejected;
+    });
+
+    it("should let distributors cancel pending distributions", async function () {
+      const scheduleId = await schedule(signers.bob, 5, 60);
+      await expect(scheduler.connect(signers.bob).cancelScheduledDistribution(scheduleId)).to.be.revertedWith(
+        "Caller is missing role",
+      );
+      await expect(scheduler.cancelScheduledDistribution(scheduleId))
+        .to.emit(scheduler, "ScheduledDistributionCanceled")
+        .withArgs(mockTokenAddress, signers.bob.address, scheduleId);
+
+      await time.increase(60);
+      await expect(scheduler.executeScheduledDistribution(scheduleId)).to.be.revertedWith(
+        "Unknown scheduled distribution",
+      );
+      expect((await scheduler.getScheduledDistribution(scheduleId)).token).to.equal(ethers.ZeroAddress);
+    });
+
+    it("should execute due distributions with the keeper task", async function () {
+      const contract = schedulerAddress;
+      await withSilencedConsole(async () => {
+        const { scheduleId } = await run("schedule-distribution", {
+          contract,
+          recipient: signers.charlie.address,
+          amount: "0.00002",
+          in: "3600",
+        });
+        const later = await schedule(signers.charlie, 3, 7200);
+
+        // Nothing is due yet
+        let pass = await run("keeper", { contract, signer: "4", once: true });
+        expect(pass.results).to.deep.equal([]);
+        expect(pass.pending).to.deep.equal([scheduleId, later]);
+
+        await time.increase(3600);
+        pass = await run("keeper", { contract, signer: "4", once: true });
+        expect(pass.results.map(({ scheduleId }: { scheduleId: bigint }) => scheduleId)).to.deep.equal([scheduleId]);
+        expect(pass.results[0].error).to.equal(undefined);
+        expect(pass.pending).to.deep.equal([later]);
+        expect(await decryptBalance(scheduler, signers.charlie)).to.equal(20);
+
+        await time.increase(3600);
+        pass = await run("keeper", { contract, signer: "4", once: true });
+        expect(pass.results.map(({ scheduleId }: { scheduleId: bigint }) => scheduleId)).to.deep.equal([later]);
+        expect(await decryptBalance(scheduler, signers.charlie)).to.equal(23);
+      });
+    });
+  });
+
+  describe("signed withdrawals", function () {
+    let relayed: PrivateTokenDistributor;
+    let relayedAddress: string;
+    let rate: bigint;
+
+    const WITHDRAWAL_TYPES = {
+      RequestWithdrawal: [
+        { name: "token", type: "address" },
+        { name: "recipient", type: "address" },
+        { name: "amount", type: "uint64" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+      ],
+      CompleteWithdrawal: [
+        { name: "recipient", type: "address" },
+        { name: "withdrawalId", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+      ],
+      CancelWithdrawal: [
+        { name: "recipient", type: "address" },
+        { name: "withdrawalId", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+      ],
+    };
+
+    // Signs a withdrawal action as Alice with her next nonce, valid for `validFor` seconds
+    async function sign(type: keyof typeof WITHDRAWAL_TYPES, fields: Record<string, unknown>, validFor = 3600) {
+      const nonce = await relayed.withdrawalNonces(signers.alice.address);
+      const deadline = (await time.latest()) + validFor;
+      const { chainId } = await ethers.provider.getNetwork();
+      const signature = await signers.alice.signTypedData(
+        { name: "PrivateTokenDistributor", version: "1", chainId, verifyingContract: relayedAddress },
+        { [type]: WITHDRAWAL_TYPES[type] },
+        { ...fields, recipient: signers.alice.address, nonce, deadline },
+      );
+      return { nonce, deadline, signature };
+    }
+
+    async function signRequest(amount: number, validFor?: number) {
+      const { nonce, deadline, signature } = await sign(
+        "RequestWithdrawal",
+        { token: mockTokenAddress, amount },
+        validFor,
+      );
+      return [mockTokenAddress, signers.alice.address, amount, nonce, deadline, signature] as const;
+    }
+
+    before(async function () {
+      ({ distributor: relayed, address: relayedAddress, rate } = await deployDistributor(100n));
+
+      const encryptedAmount = await fhevm
+        .createEncryptedInput(relayedAddress, signers.deployer.address)
+        .add64(50)
+        .encrypt();
+      await relayed.distributeTokens(
+        mockTokenAddress,
+        signers.alice.address,
+        encryptedAmount.handles[0],
+        encryptedAmount.inputProof,
+      );
+    });
+
+    it("should let a relayer request a withdrawal the recipient signed", async function () {
+      const args = await signRequest(20);
+      await expect(relayed.connect(signers.eve).requestWithdrawalBySig(...args))
+        .to.emit(relayed, "WithdrawalInitiated")
+        .withArgs(mockTokenAddress, signers.alice.address, 1, 20);
+
+      const [, recipient] = await relayed.getWithdrawalRequest(1);
+      expect(recipient).to.equal(signers.alice.address);
+      expect(await relayed.withdrawalNonces(signers.alice.address)).to.equal(1);
+      expect(await decryptBalance(relayed, signers.alice)).to.equal(30);
+    });
+
+    it("should reject a replayed signature", async function () {
+      const args = await signRequest(5);
+      await (await relayed.connect(signers.eve).requestWithdrawalBySig(...args)).wait();
+
+      // Neither the relayer nor anyone watching the mempool can submit it twice
+      await expect(relayed.connect(signers.eve).requestWithdrawalBySig(...args)).to.be.revertedWith(
+        "Invalid withdrawal nonce",
+      );
+      await expect(relayed.connect(signers.bob).requestWithdrawalBySig(...args)).to.be.revertedWith(
+        "Invalid withdrawal nonce",
+      );
+      expect(await decryptBalance(relayed, signers.alice)).to.equal(25);
+    });
+
+    it("should reject a signature after its deadline", async function () {
+      const args = await signRequest(5, 60);
+      await time.increase(61);
+
+      await expect(relayed.connect(signers.eve).requestWithdrawalBySig(...args)).to.be.revertedWith(
+        "Signature expired",
+      );
+      expect(await relayed.withdrawalNonces(signers.alice.address)).to.equal(2);
+    });
+
+    it("should reject a relayer front-running with altered parameters", async function () {
+      const [token, recipient, amount, nonce, deadline, signature] = await signRequest(5);
+
+      await expect(
+        relayed.connect(signers.eve).requestWithdrawalBySig(token, recipient, 25, nonce, deadline, signature),
+      ).to.be.revertedWith("Invalid withdrawal signature");
+      await expect(
+        relayed
+          .connect(signers.eve)
+          .requestWithdrawalBySig(token, recipient, amount, nonce, deadline + 3600, signature),
+      ).to.be.revertedWith("Invalid withdrawal signature");
+      // Another recipient's nonce does not match, and the signature is Alice's in any case
+      await expect(
+        relayed.connect(signers.eve).requestWithdrawalBySig(token, signers.bob.address, amount, 0, deadline, signature),
+      ).to.be.revertedWith("Invalid withdrawal signature");
+
+      // The rejected attempts did not use up the nonce, so the genuine request still goes through
+      await expect(
+        relayed.connect(signers.eve).requestWithdrawalBySig(token, recipient, amount, nonce, deadline, signature),
+      )
+        .to.emit(relayed, "WithdrawalInitiated")
+        .withArgs(mockTokenAddress, signers.alice.address, 3, 5);
+
+      // A completion signed for one request cannot be redirected to another
+      await time.increase(3600);
+      const complete = await sign("CompleteWithdrawal", { withdrawalId: 1 });
+      await expect(
+        relayed
+          .connect(signers.eve)
+          .completeWithdrawalBySig(signers.alice.address, 2, complete.nonce, complete.deadline, complete.signature),
+      ).to.be.revertedWith("Invalid withdrawal signature");
+    });
+
+    it("should complete and cancel signed withdrawals, paying the recipient", async function () {
+      const complete = await sign("CompleteWithdrawal", { withdrawalId: 1 });
+      const aliceBefore = await mockToken.balanceOf(signers.alice.address);
+      const eveBefore = await mockToken.balanceOf(signers.eve.address);
+      await (
+        await relayed
+          .connect(signers.eve)
+          .completeWithdrawalBySig(signers.alice.address, 1, complete.nonce, complete.deadline, complete.signature)
+      ).wait();
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await mockToken.balanceOf(signers.alice.address)).to.equal(aliceBefore + 20n * rate);
+      expect(await mockToken.balanceOf(signers.eve.address)).to.equal(eveBefore);
+
+      const cancel = await sign("CancelWithdrawal", { withdrawalId: 3 });
+      await expect(
+        relayed
+          .connect(signers.eve)
+          .cancelWithdrawalBySig(signers.alice.address, 3, cancel.nonce, cancel.deadline, cancel.signature),
+      )
+        .to.emit(relayed, "WithdrawalCanceled")
+        .withArgs(mockTokenAddress, signers.alice.address, 3);
+      expect(await decryptBalance(relayed, signers.alice)).to.equal(25);
+      expect(await relayed.withdrawalNonces(signers.alice.address)).to.equal(5);
+    });
+  });
+
+  describe("distribute-batch task", function () {
+    let batched: PrivateTokenDistributor;
+    let batchedAddress: string;
+    let client: PrivateTokenDistributorClient;
+    let dir: string;
+
+    function writeRecipients(name: string, rows: [HardhatEthersSigner, string][]) {
+      const file = path.join(dir, name);
+      fs.writeFileSync(
+        file,
+        ["address,amount", ...rows.map(([signer, amount]) => `${signer.address},${amount}`)].join("\n"),
+      );
+      return file;
+    }
+
+    before(async function () {
+      ({ distributor: batched, address: batchedAddress } = await deployDistributor(ethers.parseUnits("100", 6)));
+
+      client = new PrivateTokenDistributorClient(batched, signers.deployer, fhevm);
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "distribute-batch-"));
+    });
+
+    silenceConsoleInTests();
+
+    after(function () {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should split the recipients into chunks that fit the gas budget", async function () {
+      const file = writeRecipients("chunked.csv", [
+        [signers.alice, "1"],
+        [signers.bob, "2"],
+        [signers.charlie, "3"],
+        [signers.dave, "4"],
+        [signers.eve, "5"],
+      ]);
+
+      // Allow a little more than two recipients' worth of gas per chunk
+      const { gasLimit } = (await ethers.provider.getBlock("latest"))!;
+      const twoRows = await signers.deployer.estimateGas(
+        await client.prepareBatchDistribution(mockTokenAddress, [
+          { recipient: signers.alice.address, amount: "1" },
+          { recipient: signers.bob.address, amount: "2" },
+        ]),
+      );
+      const gasFraction = (Number(twoRows) * 1.05) / Number(gasLimit);
+      const gasBudget = BigInt(Math.floor(Number(gasLimit) * gasFraction));
+
+      const result = await run("distribute-batch", {
+        contract: batchedAddress,
+        file,
+        gasFraction: gasFraction.toString(),
+      });
+      expect(result.recipients).to.equal(5);
+      expect(result.transactions.length).to.be.at.least(3);
+      for (const hash of result.transactions) {
+        const receipt = await ethers.provider.getTransactionReceipt(hash);
+        expect(receipt!.gasUsed <= gasBudget).to.equal(true);
+      }
+
+      const journal = JSON.parse(fs.readFileSync(`${file}.journal.json`, "utf8"));
+      expect(journal.completed).to.have.members([2, 3, 4, 5, 6]);
+      expect(journal.chunks.map(({ txHash }: { txHash: string }) => txHash)).to.deep.equal(result.transactions);
+      expect(journal.pending).to.equal(undefined);
+      expect(await decryptBalance(batched, signers.eve)).to.equal(5_000_000n);
+    });
+
+    it("should skip the rows a previous run completed", async function () {
+      const file = path.join(dir, "chunked.csv");
+      const result = await run("distribute-batch", { contract: batchedAddress, file });
+
+      expect(result.transactions).to.deep.equal([]);
+      expect(await decryptBalance(batched, signers.alice)).to.equal(1_000_000n);
+      expect(await decryptBalance(batched, signers.eve)).to.equal(5_000_000n);
+    });
+
+    it("should not send again a chunk that was mined after the previous run died", async function () {
+      const file = writeRecipients("resumed.csv", [
+        [signers.alice, "1"],
+        [signers.bob, "1"],
+        [signers.charlie, "1"],
+      ]);
+
+      // A previous run sent the first two rows and died before recording the receipt
+      const nonce = await signers.deployer.getNonce();
+      const fromBlock = await ethers.provider.getBlockNumber();
+      const tx = await signers.deployer.sendTransaction(
+        await client.prepareBatchDistribution(mockTokenAddress, [
+          { recipient: signers.alice.address, amount: "1" },
+          { recipient: signers.bob.address, amount: "1" },
+        ]),
+      );
+      await tx.wait();
+      const fileHash = createHash("sha256").update(fs.readFileSync(file)).digest("hex");
+      const journal = {
+        contract: batchedAddress,
+        token: mockTokenAddress,
+        fileHash,
+        completed: [],
+        pending: { lines: [2, 3], nonce, fromBlock, txHash: tx.hash },
+        chunks: [],
+      };
+      fs.writeFileSync(`${file}.journal.json`, JSON.stringify(journal));
+
+      const result = await run("distribute-batch", { contract: batchedAddress, file });
+      expect(result.transactions).to.have.lengthOf(1);
+      expect(result.transactions).to.not.include(tx.hash);
+
+      const resumed = JSON.parse(fs.readFileSync(`${file}.journal.json`, "utf8"));
+      expect(resumed.completed).to.have.members([2, 3, 4]);
+      expect(resumed.chunks[0].txHash).to.equal(tx.hash);
+      // Alice and Bob were credited once by the pending chunk, Charlie by the new one
+      expect(await decryptBalance(batched, signers.alice)).to.equal(2_000_000n);
+      expect(await decryptBalance(batched, signers.bob)).to.equal(3_000_000n);
+      expect(await decryptBalance(batched, signers.charlie)).to.equal(4_000_000n);
+    });
+
+    it("should find a chunk by its nonce when the previous run died before recording its hash", async function () {
+      const file = writeRecipients("unhashed.csv", [[signers.dave, "1"]]);
+      const before = await decryptBalance(batched, signers.dave);
+
+      // A previous run journaled the chunk, sent it and died before recording the hash
+      const nonce = await signers.deployer.getNonce();
+      const fromBlock = await ethers.provider.getBlockNumber();
+      const tx = await signers.deployer.sendTransaction(
+        await client.prepareBatchDistribution(mockTokenAddress, [{ recipient: signers.dave.address, amount: "1" }]),
+      );
+      await tx.wait();
+      const fileHash = createHash("sha256").update(fs.readFileSync(file)).digest("hex");
+      const journal = {
+        contract: batchedAddress,
+        token: mockTokenAddress,
+        fileHash,
+        completed: [],
+        pending: { lines: [2], nonce, fromBlock },
+        chunks: [],
+      };
+      fs.writeFileSync(`${file}.journal.json`, JSON.stringify(journal));
+
+      const result = await run("distribute-batch", { contract: batchedAddress, file });
+      expect(result.transactions).to.deep.equal([]);
+
+      const resumed = JSON.parse(fs.readFileSync(`${file}.journal.json`, "utf8"));
+      expect(resumed.completed).to.deep.equal([2]);
+      expect(resumed.chunks).to.deep.equal([{ lines: [2], txHash: tx.hash }]);
+      expect(await decryptBalance(batched, signers.dave)).to.equal(before + 1_000_000n);
+    });
+
+    it("should send a chunk the previous run journaled but never sent", async function () {
+      const file = writeRecipients("unsent.csv", [[signers.eve, "1"]]);
+      const before = await decryptBalance(batched, signers.eve);
+
+      // A previous run journaled the chunk and died before sending it
+      const fileHash = createHash("sha256").update(fs.readFileSync(file)).digest("hex");
+      const journal = {
+        contract: batchedAddress,
+        token: mockTokenAddress,
+        fileHash,
+        completed: [],
+        pending: {
+          lines: [2],
+          nonce: await signers.deployer.getNonce(),
+          fromBlock: await ethers.provider.getBlockNumber(),
+        },
+        chunks: [],
+      };
+      fs.writeFileSync(`${file}.journal.json`, JSON.stringify(journal));
+
+      const result = await run("distribute-batch", { contract: batchedAddress, file });
+      expect(result.transactions).to.have.lengthOf(1);
+
+      const resumed = JSON.parse(fs.readFileSync(`${file}.journal.json`, "utf8"));
+      expect(resumed.completed).to.deep.equal([2]);
+      expect(resumed).to.not.have.property("pending");
+      expect(await decryptBalance(batched, signers.eve)).to.equal(before + 1_000_000n);
+    });
+  });
+
+  describe("tasks", function () {
+    let tasked: PrivateTokenDistributor;
+    let taskedAddress: string;
+    const printed = silenceConsoleInTests();
+
+    before(async function () {
+      ({ distributor: tasked, address: taskedAddress } = await deployDistributor(ethers.parseUnits("100", 6)));
+
+      // Tasks resolve the contract from hardhat-deploy when --contract is omitted
+      const { abi } = await deployments.getArtifact("PrivateTokenDistributor");
+      await deployments.save("PrivateTokenDistributor", { address: taskedAddress, abi });
+    });
+
+    after(async function () {
+      await deployments.delete("PrivateTokenDistributor");
+    });
+
+    it("should distribute, transfer and check balances with the deployment and the only token", async function () {
+      const distribution = await run("distribute-tokens", { recipient: signers.alice.address, amount: "12.5" });
+      expect(distribution.token).to.equal(mockTokenAddress);
+      expect(distribution.accepted).to.equal(true);
+
+      // Signers can be picked by index, address or named account
+      const transfer = await run("transfer-private", { signer: "1", to: signers.bob.address, amount: "2.5" });
+      expect(transfer.from).to.equal(signers.alice.address);
+      expect(transfer.transferred).to.equal("2.5 MTK");
+
+      const alice = await run("check-balance", { signer: signers.alice.address });
+      expect(alice.balance).to.equal("10.0 MTK");
+      const bob = await run("check-balance", { signer: "2", token: mockTokenAddress });
+      expect(bob.balance).to.equal("2.5 MTK");
+      const deployer = await run("check-balance", { signer: "deployer" });
+      expect(deployer.account).to.equal(signers.deployer.address);
+      expect(deployer.balance).to.equal("0.0 MTK");
+    });
+
+    it("should read another address's balance as an auditor", async function () {
+      await tasked.grantRole(await tasked.AUDITOR_ROLE(), signers.eve.address);
+      await run("set-balance-audited", { recipients: signers.alice.address });
+
+      const audited = await run("check-balance", { signer: "5", address: signers.alice.address });
+      expect(audited.account).to.equal(signers.alice.address);
+      expect(audited.balance).to.equal("10.0 MTK");
+
+      await expect(run("check-balance", { signer: "5", address: signers.bob.address })).to.be.rejectedWith(
+        "Balance not audited",
+      );
+    });
+
+    it("should print the result as JSON with --json", async function () {
+      const result = await run("list-roles", { json: true });
+
+      expect(printed).to.have.lengthOf(1);
+      expect(JSON.parse(printed[0])).to.deep.equal(result);
+      expect(result.owner).to.equal(signers.deployer.address);
+      expect(result.roles.auditor).to.deep.equal([signers.eve.address]);
+    });
+
+    it("should grant and revoke roles with the tasks", async function () {
+      const granted = await run("grant-role", { role: "pauser", account: signers.dave.address });
+      expect(granted.account).to.equal(signers.dave.address);
+      expect(await tasked.hasRole(await tasked.PAUSER_ROLE(), signers.dave.address)).to.equal(true);
+      expect((await run("list-roles", {})).roles.pauser).to.deep.equal([
+        signers.deployer.address,
+        signers.dave.address,
+      ]);
+
+      await run("revoke-role", { role: "Pauser", account: signers.dave.address });
+      expect(await tasked.hasRole(await tasked.PAUSER_ROLE(), signers.dave.address)).to.equal(false);
+
+      await expect(run("grant-role", { role: "minter", account: signers.dave.address })).to.be.rejectedWith(
+        'Unknown role "minter"',
+      );
+      await expect(
+        run("grant-role", { role: "pauser", account: signers.dave.address, signer: "4" }),
+      ).to.be.rejectedWith("Only owner can call this");
+      await expect(run("revoke-role", { role: "pauser", account: signers.dave.address })).to.be.rejectedWith(
+        "Role not granted",
+      );
+    });
+
+    it("should sign vouchers and let each recipient claim their own", async function () {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "vouchers-"));
+      const recipientsPath = path.join(dir, "recipients.csv");
+      const vouchersPath = path.join(dir, "vouchers.json");
+      fs.writeFileSync(recipientsPath, `address,amount\n${signers.charlie.address},5\n${signers.dave.address},1.5\n`);
+
+      const created = await run("create-vouchers", { file: recipientsPath, out: vouchersPath });
+      expect(created.vouchers).to.equal(2);
+      expect(fs.readFileSync(vouchersPath, "utf8")).to.not.include("1.5");
+
+      const charlie = await run("claim-voucher", { file: vouchersPath, signer: "3" });
+      expect(charlie.balance).to.equal("5.0 MTK");
+      await expect(run("claim-voucher", { file: vouchersPath, signer: "3" })).to.be.rejectedWith(
+        "has already been claimed",
+      );
+      await expect(run("claim-voucher", { file: vouchersPath, signer: "5" })).to.be.rejectedWith(
+        `has no voucher for ${signers.eve.address}`,
+      );
+      await expect(run("create-vouchers", { file: recipientsPath, out: vouchersPath, signer: "1" })).to.be.rejectedWith(
+        "does not hold the distributor role",
+      );
+    });
+
+    it("should queue, list, cancel and complete withdrawals by ID", async function () {
+      const policy = await run("set-withdrawal-policy", { delay: "60", min: "1", max: "5" });
+      expect(policy.max).to.equal("5.0 MTK");
+      await expect(run("request-withdrawal", { signer: "1", amount: "6" })).to.be.rejectedWith(
+        "Withdrawals must be between 1.0 MTK and 5.0 MTK",
+      );
+
+      const first = await run("request-withdrawal", { signer: "1", amount: "2" });
+      const second = await run("request-withdrawal", { signer: "1", amount: "3" });
+      expect(second.withdrawalId).to.equal(first.withdrawalId + 1n);
+
+      const page = await run("list-withdrawals", { signer: "1", limit: "1" });
+      expect(page.total).to.equal(2n);
+      expect(page.requests.map(({ withdrawalId }: { withdrawalId: bigint }) => withdrawalId)).to.deep.equal([
+        first.withdrawalId,
+      ]);
+
+      await run("cancel-withdrawal", { signer: "1", id: first.withdrawalId.toString() });
+      await time.increase(60);
+      const completed = await run("complete-withdrawal", { signer: "1", id: second.withdrawalId.toString() });
+      expect(completed.completed).to.eq(true);
+
+      expect((await run("list-withdrawals", { signer: "1" })).total).to.equal(0n);
+      expect((await run("check-balance", { signer: "1" })).balance).to.equal("7.0 MTK");
+      await expect(run("complete-withdrawal", { signer: "1", id: "0" })).to.be.rejectedWith(
+        "Argument --id must be at least 1",
+      );
+    });
+
+    it("should reject invalid arguments before sending anything", async function () {
+      await expect(run("distribute-tokens", { recipient: "0x1234", amount: "1" })).to.be.rejectedWith(
+        "Argument --recipient must be an address",
+      );
+      await expect(run("distribute-tokens", { recipient: signers.bob.address, amount: "12abc" })).to.be.rejectedWith(
+        'Invalid amount "12abc"',
+      );
+      await expect(
+        run("create-vesting", { recipient: signers.bob.address, amount: "1", cliff: "10s", duration: "100" }),
+      ).to.be.rejectedWith("Argument --cliff must be a non-negative integer");
+      await expect(run("check-balance", { signer: "99" })).to.be.rejectedWith("No signer at index 99");
+      await expect(run("check-balance", { signer: "nobody" })).to.be.rejectedWith('Unknown signer "nobody"');
+      await expect(run("check-balance", { contract: "not-an-address" })).to.be.rejectedWith(
+        "Argument --contract must be an address",
+      );
+    });
+
+    it("should claw back every recipient found in the events once expired", async function () {
+      const expiry = (await time.latest()) + 100;
+      await run("set-expiry", { expiry: expiry.toString() });
+      await expect(run("clawback", {})).to.be.rejectedWith("The distribution has not expired");
+
+      await time.increaseTo(expiry);
+      const result = await run("clawback", { batchSize: "2" });
+      // Alice's 7, Bob's 2.5 and Charlie's claimed 5
+      expect(result.recovered).to.equal("14.5 MTK");
+      expect(result.recipients).to.include.members([signers.alice.address, signers.bob.address]);
+      expect(result.transactions.length).to.equal(Math.ceil(result.recipients.length / 2));
+      expect((await run("check-balance", { signer: "1" })).balance).to.equal("0.0 MTK");
+    });
+
+    it("should reconcile the balance and refund the depositor when the distribution closes", async function () {
+      const ledger = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "reconcile-")), "ledger.json");
+      try {
+        const before = await run("reconcile", { ledger });
+        expect(before.ok).to.equal(true);
+        expect(before.balance).to.equal(before.expectedHeld);
+        expect(before.depositors).to.deep.equal([
+          { depositor: signers.deployer.address, deposit: "100.0 MTK", matches: true },
+        ]);
+
+        // Tokens sent to the contract directly are reported, but do not break the reconciliation
+        await (await mockToken.transfer(taskedAddress, ethers.parseEther("1"))).wait();
+        const stray = await run("reconcile", { ledger });
+        expect(stray.surplus).to.equal("1.0 MTK");
+        expect(stray.ok).to.equal(true);
+
+        // Signers who are neither the owner nor an auditor still get the reconciliation, without the unallocated funds
+        const unprivileged = await run("reconcile", { ledger, signer: "3" });
+        expect(unprivileged.ok).to.equal(true);
+        expect(unprivileged.unallocated).to.equal(null);
+
+        const closed = await run("close-distribution", {});
+        expect(closed.refunds.map(({ depositor }: { depositor: string }) => depositor)).to.deep.equal([
+          signers.deployer.address,
+        ]);
+        await expect(run("close-distribution", {})).to.be.rejectedWith("The distribution is already closed");
+
+        const after = await run("reconcile", { ledger });
+        expect(after.ok).to.equal(true);
+        expect(after.refunded).to.equal(closed.refunds[0].amount);
+        expect(after.unallocated).to.equal("0.0 MTK");
+      } finally {
+        fs.rmSync(path.dirname(ledger), { recursive: true, force: true });
+      }
+    });
+  });
+
+  // Test emergency withdraw
+  it("should allow emergency withdrawal by a treasurer", async function () {
+    // Alice took over the deployer's treasurer role with the ownership
+    await expect(distributorContract.connect(signers.bob).emergencyWithdraw(mockTokenAddress, 1)).to.be.revertedWith(
+      "Caller is missing role",
+    );
+
+    // Mint her some tokens and deposit them
+    await mockToken.mint(signers.alice.address, ethers.parseEther("50"));
+    await mockToken.connect(signers.alice).approve(distributorContractAddress, ethers.parseEther("50"));
+    await distributorContract.connect(signers.alice).depositTokens(mockTokenAddress, ethers.parseEther("50"));
 
     // Check balances
-    const initialOwnerBalance = await currentToken.balanceOf(signers.alice.address);
-    const contractBalance = await currentToken.balanceOf(distributorContractAddress);
+    const initialOwnerBalance = await mockToken.balanceOf(signers.alice.address);
+    const contractBalance = await mockToken.balanceOf(distributorContractAddress);
+    expect(await distributorContract.depositOf(mockTokenAddress, signers.alice.address)).to.equal(
+      ethers.parseEther("50"),
+    );
 
-    // Emergency withdraw all of it
-    const tx = await distributorContract.connect(signers.alice).emergencyWithdraw(contractBalance);
-    await tx.wait();
+    // She can only take back her own deposit, not the other treasurers' funds
+    await expect(
+      distributorContract.connect(signers.alice).emergencyWithdraw(mockTokenAddress, contractBalance),
+    ).to.be.revertedWith("Amount exceeds own deposits");
+    await (
+      await distributorContract.connect(signers.alice).emergencyWithdraw(mockTokenAddress, ethers.parseEther("50"))
+    ).wait();
+    await fhevm.awaitDecryptionOracle();
+    const [withdrawal] = await distributorContract.queryFilter(
+      distributorContract.filters.EmergencyWithdrawal(mockTokenAddress, signers.alice.address),
+    );
+    expect([withdrawal.args.amount, withdrawal.args.fromDeposits]).to.deep.equal([
+      ethers.parseEther("50"),
+      ethers.parseEther("50"),
+    ]);
 
     // Check updated balances
-    const updatedOwnerBalance = await currentToken.balanceOf(signers.alice.address);
-    expect(updatedOwnerBalance).to.equal(initialOwnerBalance + contractBalance);
+    const updatedOwnerBalance = await mockToken.balanceOf(signers.alice.address);
+    expect(updatedOwnerBalance).to.equal(initialOwnerBalance + ethers.parseEther("50"));
+    expect(await distributorContract.depositOf(mockTokenAddress, signers.alice.address)).to.equal(0n);
   });
 });
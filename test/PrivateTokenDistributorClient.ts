@@ -0,0 +1,140 @@
+import { PrivateTokenDistributor } from "../types/contracts/PrivateTokenDistributor";
+import { MockERC20 } from "../types/contracts/MockERC20";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+import {
+  DecryptionError,
+  InvalidAmountError,
+  PrivateTokenDistributorClient,
+  TransactionRevertedError,
+  UnsupportedTokenError,
+  WithdrawalLimitError,
+  WithdrawalLockedError,
+  WithdrawalNotFoundError,
+} from "../src/client";
+
+describe("PrivateTokenDistributorClient", function () {
+  let deployer: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let token: MockERC20;
+  let tokenAddress: string;
+  let distributor: PrivateTokenDistributor;
+  let client: PrivateTokenDistributorClient;
+  let aliceClient: PrivateTokenDistributorClient;
+  let bobClient: PrivateTokenDistributorClient;
+
+  before(async function () {
+    [deployer, alice, bob] = await ethers.getSigners();
+
+    token = (await (await ethers.getContractFactory("MockERC20")).deploy("Client Token", "CLT")) as MockERC20;
+    tokenAddress = await token.getAddress();
+    distributor = await (await ethers.getContractFactory("PrivateTokenDistributor")).deploy(tokenAddress);
+    const distributorAddress = await distributor.getAddress();
+
+    await token.mint(deployer.address, ethers.parseEther("1000"));
+    await token.approve(distributorAddress, ethers.parseEther("500"));
+    await distributor.depositTokens(tokenAddress, ethers.parseEther("500"));
+
+    client = new PrivateTokenDistributorClient(distributor, deployer, fhevm);
+    aliceClient = client.connect(alice);
+    bobClient = client.connect(bob);
+  });
+
+  it("should distribute token amounts and encrypted units and decrypt the balance", async function () {
+    const units = await client.getTokenUnits(tokenAddress);
+    expect(units).to.deep.equal({ symbol: "CLT", decimals: 18, rate: 10n ** 12n });
+
+    const distribution = await client.distribute(tokenAddress, alice.address, "12.5");
+    expect(distribution.amount).to.equal(12_500_000n);
+    expect(distribution.accepted).to.equal(true);
+    await client.distribute(tokenAddress, alice.address, 2_500_000n);
+
+    const balance = await aliceClient.getDecryptedBalance(tokenAddress);
+    expect(await client.formatAmount(tokenAddress, balance)).to.equal("15.0 CLT");
+    // An untouched balance is the zero handle
+    expect(await bobClient.getDecryptedBalance(tokenAddress)).to.equal(0n);
+  });
+
+  it("should report an allocation the deposits do not cover as rejected", async function () {
+    const distribution = await client.distribute(tokenAddress, bob.address, "1000");
+    expect(distribution.accepted).to.equal(false);
+    expect(await bobClient.getDecryptedBalance(tokenAddress)).to.equal(0n);
+  });
+
+  it("should split a batch into packed transactions the FHE limits allow", async function () {
+    const allocations = Array.from({ length: 33 }, (_, i) => ({
+      recipient: i % 2 === 0 ? alice.address : bob.address,
+      amount: "1",
+    }));
+    const batch = await client.batchDistribute(tokenAddress, allocations);
+    expect(batch.transactions.length).to.be.greaterThan(1);
+
+    expect(await client.formatAmount(tokenAddress, await aliceClient.getDecryptedBalance(tokenAddress))).to.equal(
+      "32.0 CLT",
+    );
+    expect(await client.formatAmount(tokenAddress, await bobClient.getDecryptedBalance(tokenAddress))).to.equal(
+      "16.0 CLT",
+    );
+  });
+
+  it("should request, wait for and complete a withdrawal", async function () {
+    const request = await aliceClient.requestWithdrawal(tokenAddress, "2");
+    expect(request.amount).to.equal(2_000_000n);
+    expect((await aliceClient.getWithdrawal(request.withdrawalId))!.unlockTime).to.equal(request.unlockTime);
+
+    // Nothing mines blocks on the in-process network, so the request stays locked
+    await expect(
+      aliceClient.waitUntilWithdrawable(request.withdrawalId, { pollInterval: 10, timeout: 50 }),
+    ).to.be.rejectedWith(WithdrawalLockedError);
+    await expect(aliceClient.completeWithdrawal(request.withdrawalId)).to.be.rejectedWith(WithdrawalLockedError);
+
+    await time.increaseTo(request.unlockTime);
+    const unlocked = await aliceClient.waitUntilWithdrawable(request.withdrawalId, { timeout: 0 });
+    expect(unlocked.decrypting).to.equal(false);
+
+    const before = await token.balanceOf(alice.address);
+    const completion = await aliceClient.completeWithdrawal(request.withdrawalId);
+    expect(completion.completed).to.equal(true);
+    expect(await token.balanceOf(alice.address)).to.equal(before + ethers.parseEther("2"));
+    expect(await aliceClient.getWithdrawal(request.withdrawalId)).to.equal(null);
+  });
+
+  it("should cancel only the signer's own withdrawals", async function () {
+    const { withdrawalId } = await aliceClient.requestWithdrawal(tokenAddress, 1_000_000n);
+
+    await expect(bobClient.cancelWithdrawal(withdrawalId)).to.be.rejectedWith(WithdrawalNotFoundError);
+    await aliceClient.cancelWithdrawal(withdrawalId);
+    await expect(aliceClient.completeWithdrawal(withdrawalId)).to.be.rejectedWith(WithdrawalNotFoundError);
+    expect(await client.formatAmount(tokenAddress, await aliceClient.getDecryptedBalance(tokenAddress))).to.equal(
+      "30.0 CLT",
+    );
+  });
+
+  it("should throw typed errors before and after sending", async function () {
+    await expect(client.distribute(tokenAddress, alice.address, "1.0000001")).to.be.rejectedWith(
+      InvalidAmountError,
+      "has more decimals than the distributor supports",
+    );
+    await expect(client.distribute(tokenAddress, alice.address, 0n)).to.be.rejectedWith(InvalidAmountError);
+    await expect(client.getTokenUnits(alice.address)).to.be.rejectedWith(UnsupportedTokenError);
+
+    await client.distributor.setWithdrawalPolicy(tokenAddress, 60, 1_000_000n, 5_000_000n);
+    await expect(aliceClient.requestWithdrawal(tokenAddress, "6")).to.be.rejectedWith(
+      WithdrawalLimitError,
+      "Withdrawals must be between 1.0 CLT and 5.0 CLT",
+    );
+
+    // Bob is not a distributor, so the contract rejects his allocation
+    await expect(bobClient.distribute(tokenAddress, alice.address, "1")).to.be.rejectedWith(
+      TransactionRevertedError,
+      "Caller is missing role",
+    );
+
+    const aliceHandle = await aliceClient.distributor.getMyBalance(tokenAddress);
+    await expect(bobClient.decrypt(aliceHandle)).to.be.rejectedWith(DecryptionError);
+  });
+});
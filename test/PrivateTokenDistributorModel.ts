@@ -0,0 +1,353 @@
+import { PrivateTokenDistributor } from "../types/contracts/PrivateTokenDistributor";
+import { MockERC20 } from "../types/contracts/MockERC20";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+/**
+ * Randomized tests that replay seeded sequences of calls against a fresh distributor and compare every decrypted
+ * balance, the encrypted total, the pending withdrawals and the token payouts with a plaintext model after each
+ * step. A failing sequence is shrunk to the fewest steps that still fail and printed so it can be replayed:
+ *
+ *   MODEL_SEED=7 npx hardhat test test/PrivateTokenDistributorModel.ts
+ *   MODEL_SEQUENCE='[{"kind":"deposit","amount":10}, ...]' npx hardhat test test/PrivateTokenDistributorModel.ts
+ *
+ * MODEL_RUNS and MODEL_STEPS change how many seeds run and how long each sequence is.
+ */
+
+// Recipients are signers 1..ACTORS; the deployer funds and distributes
+const ACTORS = 3;
+const DELAYS = [60, 1800, 3600];
+
+type Op =
+  | { kind: "deposit"; amount: number }
+  | { kind: "distribute"; recipient: number; amount: number }
+  | { kind: "batchDistribute"; recipients: number[]; amounts: number[] }
+  | { kind: "request"; actor: number; amount: number }
+  | { kind: "cancel"; actor: number; pick: number }
+  | { kind: "complete"; actor: number; pick: number }
+  | { kind: "oracle" }
+  | { kind: "advance"; seconds: number };
+
+type ModelWithdrawal = {
+  id: bigint;
+  actor: number;
+  debit: bigint;
+  unlockTime: number;
+  decrypting: boolean;
+};
+
+type Failure = { step: number; message: string };
+
+// mulberry32: a tiny seeded PRNG, so a seed always produces the same sequence
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (min: number, max: number) => min + Math.floor(next() * (max - min + 1));
+  return { next, int };
+}
+
+function generateOps(seed: number, steps: number): Op[] {
+  const random = createRandom(seed);
+  const ops: Op[] = [];
+  for (let i = 0; i < steps; i++) {
+    const roll = random.next();
+    const actor = random.int(0, ACTORS - 1);
+    // Amounts sometimes exceed what the deposits or balances cover, to exercise the clamping paths
+    if (roll < 0.12) {
+      ops.push({ kind: "deposit", amount: random.int(1, 100) });
+    } else if (roll < 0.3) {
+      ops.push({ kind: "distribute", recipient: actor, amount: random.int(1, 60) });
+    } else if (roll < 0.4) {
+      const count = random.int(2, ACTORS);
+      ops.push({
+        kind: "batchDistribute",
+        recipients: Array.from({ length: count }, () => random.int(0, ACTORS - 1)),
+        amounts: Array.from({ length: count }, () => random.int(1, 40)),
+      });
+    } else if (roll < 0.6) {
+      ops.push({ kind: "request", actor, amount: random.int(1, 50) });
+    } else if (roll < 0.68) {
+      ops.push({ kind: "cancel", actor, pick: random.int(0, 7) });
+    } else if (roll < 0.8) {
+      ops.push({ kind: "complete", actor, pick: random.int(0, 7) });
+    } else if (roll < 0.88) {
+      ops.push({ kind: "oracle" });
+    } else {
+      ops.push({ kind: "advance", seconds: DELAYS[random.int(0, DELAYS.length - 1)] });
+    }
+  }
+  return ops;
+}
+
+/**
+ * Runs one sequence against a fresh token and distributor and checks the model after every step. Steps that do not
+ * apply to the current state, such as cancelling without a pending request, are skipped, so any subsequence of a
+ * generated sequence is still valid, which is what makes shrinking possible.
+ */
+async function runSequence(ops: Op[]): Promise<Failure | null> {
+  const [deployer, ...others] = await ethers.getSigners();
+  const actors = others.slice(0, ACTORS);
+
+  const token = (await (await ethers.getContractFactory("MockERC20")).deploy("Model Token", "MDL")) as MockERC20;
+  const tokenAddress = await token.getAddress();
+  const distributor = (await (
+    await ethers.getContractFactory("PrivateTokenDistributor")
+  ).deploy(tokenAddress)) as PrivateTokenDistributor;
+  const distributorAddress = await distributor.getAddress();
+  const rate = await distributor.rate(tokenAddress);
+  const [delay] = await distributor.withdrawalPolicy(tokenAddress);
+  await token.mint(deployer.address, 100_000n * rate);
+  await token.approve(distributorAddress, 100_000n * rate);
+
+  const model = {
+    deposited: 0n,
+    totalDistributed: 0n,
+    balances: actors.map(() => 0n),
+    payouts: actors.map(() => 0n),
+    withdrawals: [] as ModelWithdrawal[],
+  };
+  const initialTokenBalances = await Promise.all(actors.map((actor) => token.balanceOf(actor.address)));
+
+  // Mirrors the solvency guard: an allocation is credited only if the remaining deposits cover it
+  const allocate = (recipient: number, amount: bigint) => {
+    const remaining = model.deposited > model.totalDistributed ? model.deposited - model.totalDistributed : 0n;
+    if (amount <= remaining) {
+      model.balances[recipient] += amount;
+      model.totalDistributed += amount;
+    }
+  };
+
+  const pickWithdrawal = (actor: number, pick: number, isEligible: (withdrawal: ModelWithdrawal) => boolean) => {
+    const eligible = model.withdrawals.filter((withdrawal) => withdrawal.actor === actor && isEligible(withdrawal));
+    return eligible.length === 0 ? undefined : eligible[pick % eligible.length];
+  };
+
+  const decrypt = async (handle: string, signer: HardhatEthersSigner) =>
+    handle === ethers.ZeroHash ? 0n : fhevm.userDecryptEuint(FhevmType.euint64, handle, distributorAddress, signer);
+
+  const encryptAmounts = async (amounts: number[]) => {
+    const input = fhevm.createEncryptedInput(distributorAddress, deployer.address);
+    amounts.forEach((amount) => input.add64(amount));
+    return input.encrypt();
+  };
+
+  async function apply(op: Op) {
+    switch (op.kind) {
+      case "deposit":
+        await (await distributor.depositTokens(tokenAddress, BigInt(op.amount) * rate)).wait();
+        model.deposited += BigInt(op.amount);
+        break;
+      case "distribute": {
+        const encrypted = await encryptAmounts([op.amount]);
+        await (
+          await distributor.distributeTokens(
+            tokenAddress,
+            actors[op.recipient].address,
+            encrypted.handles[0],
+            encrypted.inputProof,
+          )
+        ).wait();
+        allocate(op.recipient, BigInt(op.amount));
+        break;
+      }
+      case "batchDistribute": {
+        const encrypted = await encryptAmounts(op.amounts);
+        await (
+          await distributor.batchDistributeTokensPacked(
+            tokenAddress,
+            op.recipients.map((recipient) => actors[recipient].address),
+            encrypted.handles,
+            encrypted.inputProof,
+          )
+        ).wait();
+        op.recipients.forEach((recipient, i) => allocate(recipient, BigInt(op.amounts[i])));
+        break;
+      }
+      case "request": {
+        const receipt = await (
+          await distributor.connect(actors[op.actor]).requestWithdrawal(tokenAddress, op.amount)
+        ).wait();
+        const event = receipt!.logs
+          .map((log) => distributor.interface.parseLog(log))
+          .find((parsed) => parsed?.name === "WithdrawalInitiated");
+        const { timestamp } = (await receipt!.getBlock())!;
+        const amount = BigInt(op.amount);
+        const debit = model.balances[op.actor] >= amount ? amount : 0n;
+        model.balances[op.actor] -= debit;
+        model.withdrawals.push({
+          id: event!.args.withdrawalId,
+          actor: op.actor,
+          debit,
+          unlockTime: timestamp + Number(delay),
+          decrypting: false,
+        });
+        break;
+      }
+      case "cancel": {
+        const withdrawal = pickWithdrawal(op.actor, op.pick, ({ decrypting }) => !decrypting);
+        if (withdrawal === undefined) {
+          return false;
+        }
+        await (await distributor.connect(actors[op.actor]).cancelWithdrawal(withdrawal.id)).wait();
+        model.balances[op.actor] += withdrawal.debit;
+        model.withdrawals = model.withdrawals.filter(({ id }) => id !== withdrawal.id);
+        break;
+      }
+      case "complete": {
+        // The next block is mined at least one second after the latest one
+        const now = (await time.latest()) + 1;
+        const withdrawal = pickWithdrawal(
+          op.actor,
+          op.pick,
+          ({ decrypting, unlockTime }) => !decrypting && unlockTime <= now,
+        );
+        if (withdrawal === undefined) {
+          return false;
+        }
+        await (await distributor.connect(actors[op.actor]).completeWithdrawal(withdrawal.id)).wait();
+        withdrawal.decrypting = true;
+        break;
+      }
+      case "oracle":
+        await fhevm.awaitDecryptionOracle();
+        for (const withdrawal of model.withdrawals.filter(({ decrypting }) => decrypting)) {
+          model.payouts[withdrawal.actor] += withdrawal.debit;
+        }
+        model.withdrawals = model.withdrawals.filter(({ decrypting }) => !decrypting);
+        break;
+      case "advance":
+        await time.increase(op.seconds);
+        break;
+    }
+    return true;
+  }
+
+  async function check() {
+    expect(await distributor.totalDeposited(tokenAddress)).to.equal(model.deposited * rate, "totalDeposited");
+    const total = await decrypt(await distributor.getTotalDistributed(tokenAddress), deployer);
+    expect(total).to.equal(model.totalDistributed, "total distributed");
+
+    for (let actor = 0; actor < actors.length; actor++) {
+      const signer = actors[actor];
+      const balance = await decrypt(await distributor.connect(signer).getMyBalance(tokenAddress), signer);
+      expect(balance).to.equal(model.balances[actor], `balance of actor ${actor}`);
+      expect(await token.balanceOf(signer.address)).to.equal(
+        initialTokenBalances[actor] + model.payouts[actor] * rate,
+        `token balance of actor ${actor}`,
+      );
+
+      const expected = model.withdrawals.filter((withdrawal) => withdrawal.actor === actor);
+      const [ids] = await distributor.getWithdrawalRequests(tokenAddress, signer.address, 0, 1000);
+      expect([...ids].sort()).to.deep.equal(expected.map(({ id }) => id).sort(), `pending withdrawals of ${actor}`);
+      for (const withdrawal of expected) {
+        const [, , , , unlockTime, decrypting] = await distributor.getWithdrawalRequest(withdrawal.id);
+        expect([Number(unlockTime), decrypting]).to.deep.equal(
+          [withdrawal.unlockTime, withdrawal.decrypting],
+          `withdrawal ${withdrawal.id}`,
+        );
+        const debit = await decrypt(await distributor.connect(signer).getMyPendingWithdrawal(withdrawal.id), signer);
+        expect(debit).to.equal(withdrawal.debit, `debit of withdrawal ${withdrawal.id}`);
+      }
+    }
+  }
+
+  for (let step = 0; step < ops.length; step++) {
+    try {
+      if (await apply(ops[step])) {
+        await check();
+      }
+    } catch (error) {
+      return { step, message: (error as Error).message };
+    }
+  }
+  // Let pending payouts land so they cannot leak into the next run's oracle calls
+  await fhevm.awaitDecryptionOracle();
+  return null;
+}
+
+/**
+ * Greedily drops steps while the sequence keeps failing, and cuts it after the failing step.
+ */
+async function shrink(
+  ops: Op[],
+  failure: Failure,
+  run: (ops: Op[]) => Promise<Failure | null> = runSequence,
+): Promise<{ ops: Op[]; failure: Failure }> {
+  let current = ops.slice(0, failure.step + 1);
+  let currentFailure = failure;
+  for (let i = current.length - 1; i >= 0; i--) {
+    const candidate = [...current.slice(0, i), ...current.slice(i + 1)];
+    const result = await run(candidate);
+    if (result !== null) {
+      current = candidate.slice(0, result.step + 1);
+      currentFailure = result;
+      i = Math.min(i, current.length);
+    }
+  }
+  return { ops: current, failure: currentFailure };
+}
+
+async function checkSequence(ops: Op[], label: string) {
+  const failure = await runSequence(ops);
+  if (failure === null) {
+    return;
+  }
+  const shrunk = await shrink(ops, failure);
+  expect.fail(
+    `Model mismatch for ${label} at step ${failure.step}: ${failure.message}\n` +
+      `Shrunk to ${shrunk.ops.length} steps, failing with: ${shrunk.failure.message}\n` +
+      `Replay with MODEL_SEQUENCE='${JSON.stringify(shrunk.ops)}'`,
+  );
+}
+
+describe("PrivateTokenDistributor shadow model", function () {
+  const runs = Number(process.env.MODEL_RUNS ?? 4);
+  const steps = Number(process.env.MODEL_STEPS ?? 30);
+  const seeds = process.env.MODEL_SEED
+    ? [Number(process.env.MODEL_SEED)]
+    : Array.from({ length: runs }, (_, i) => i + 1);
+
+  before(function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+  });
+
+  if (process.env.MODEL_SEQUENCE) {
+    it("should match the model for the given sequence", async function () {
+      this.timeout(0);
+      await checkSequence(JSON.parse(process.env.MODEL_SEQUENCE!), "MODEL_SEQUENCE");
+    });
+    return;
+  }
+
+  for (const seed of seeds) {
+    it(`should match the model for seed ${seed}`, async function () {
+      this.timeout(0);
+      await checkSequence(generateOps(seed, steps), `seed ${seed}`);
+    });
+  }
+
+  it("should shrink a failing sequence to the steps that cause it", async function () {
+    // A runner that fails on the second withdrawal request stands in for a contract bug
+    const failOnSecondRequest = async (ops: Op[]) => {
+      const requests = ops.flatMap((op, step) => (op.kind === "request" ? [step] : []));
+      return requests.length >= 2 ? { step: requests[1], message: "injected" } : null;
+    };
+    const ops = generateOps(1, 40);
+    const failure = (await failOnSecondRequest(ops))!;
+
+    const shrunk = await shrink(ops, failure, failOnSecondRequest);
+    expect(shrunk.ops.map((op) => op.kind)).to.deep.equal(["request", "request"]);
+    expect(shrunk.failure).to.deep.equal({ step: 1, message: "injected" });
+  });
+});
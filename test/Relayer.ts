@@ -0,0 +1,125 @@
+import { PrivateTokenDistributor } from "../types/contracts/PrivateTokenDistributor";
+import { MockERC20 } from "../types/contracts/MockERC20";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import type { AddressInfo } from "net";
+import http from "http";
+import { ethers, fhevm, run } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+import { PrivateTokenDistributorClient } from "../src/client";
+import { toJson } from "../tasks/helpers";
+import { createRelayer } from "../tasks/relayer";
+
+describe("relayer", function () {
+  let deployer: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let token: MockERC20;
+  let tokenAddress: string;
+  let distributor: PrivateTokenDistributor;
+  let distributorAddress: string;
+  let aliceClient: PrivateTokenDistributorClient;
+  let server: http.Server;
+  let url: string;
+
+  async function post(body: unknown) {
+    const response = await fetch(`${url}/relay`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: typeof body === "string" ? body : toJson(body),
+    });
+    return { status: response.status, body: (await response.json()) as Record<string, string> };
+  }
+
+  async function nonceOf(account: string) {
+    const { nonce } = (await (await fetch(`${url}/nonces/${account}`)).json()) as { nonce: string };
+    return nonce;
+  }
+
+  before(async function () {
+    [deployer, alice] = await ethers.getSigners();
+
+    token = (await (await ethers.getContractFactory("MockERC20")).deploy("Relay Token", "RLT")) as MockERC20;
+    tokenAddress = await token.getAddress();
+    distributor = await (await ethers.getContractFactory("PrivateTokenDistributor")).deploy(tokenAddress);
+    distributorAddress = await distributor.getAddress();
+
+    await token.mint(deployer.address, ethers.parseEther("100"));
+    await token.approve(distributorAddress, ethers.parseEther("100"));
+    await distributor.depositTokens(tokenAddress, ethers.parseEther("100"));
+
+    // The deployer relays and pays the gas of Alice's withdrawals
+    const client = new PrivateTokenDistributorClient(distributor, deployer, fhevm);
+    await client.distribute(tokenAddress, alice.address, "10");
+    aliceClient = client.connect(alice);
+
+    server = createRelayer(client);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", () => resolve()));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async function () {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("should relay a signed request once and report the next nonce", async function () {
+    expect(await nonceOf(alice.address)).to.equal("0");
+
+    const signed = await aliceClient.signWithdrawalRequest(tokenAddress, "4");
+    const relayed = await post(signed);
+    expect(relayed.status).to.equal(200);
+    expect(relayed.body.withdrawalId).to.equal("1");
+    expect((await aliceClient.getWithdrawal(1))!.recipient).to.equal(alice.address);
+    expect(await nonceOf(alice.address)).to.equal("1");
+
+    // Replaying the same signature is rejected by the contract
+    expect(await post(signed)).to.deep.equal({ status: 422, body: { error: "Invalid withdrawal nonce" } });
+  });
+
+  it("should reject expired and altered signatures", async function () {
+    const expired = await aliceClient.signWithdrawalRequest(tokenAddress, "1", {
+      deadline: (await time.latest()) + 10,
+    });
+    await time.increase(11);
+    expect(await post(expired)).to.deep.equal({ status: 422, body: { error: "Signature expired" } });
+
+    const signed = await aliceClient.signWithdrawalRequest(tokenAddress, "1");
+    expect(await post({ ...signed, amount: signed.amount! * 5n })).to.deep.equal({
+      status: 422,
+      body: { error: "Invalid withdrawal signature" },
+    });
+    expect((await post(signed)).status).to.equal(200);
+  });
+
+  it("should answer malformed requests with status 400", async function () {
+    expect((await post("not json")).status).to.equal(400);
+    expect(await post({ action: "withdraw" })).to.deep.equal({
+      status: 400,
+      body: { error: '"action" must be one of request, complete, cancel' },
+    });
+    expect((await fetch(`${url}/nonces/alice`)).status).to.equal(400);
+    expect((await fetch(`${url}/unknown`)).status).to.equal(404);
+  });
+
+  it("should sign and relay a completion with the sign-withdrawal task", async function () {
+    await time.increase(3600);
+    const before = await token.balanceOf(alice.address);
+
+    const consoleLog = console.log;
+    console.log = () => {};
+    try {
+      const { relayed } = await run("sign-withdrawal", {
+        contract: distributorAddress,
+        signer: "1",
+        action: "complete",
+        id: "1",
+        relayer: url,
+      });
+      expect(relayed.withdrawalId).to.equal("1");
+      expect(relayed.completed).to.equal(true);
+    } finally {
+      console.log = consoleLog;
+    }
+    expect(await token.balanceOf(alice.address)).to.equal(before + ethers.parseEther("4"));
+  });
+});
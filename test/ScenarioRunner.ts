@@ -0,0 +1,140 @@
+import { PrivateTokenDistributor } from "../types/contracts/PrivateTokenDistributor";
+import { MockERC20 } from "../types/contracts/MockERC20";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import fs from "fs";
+import hre, { ethers, run } from "hardhat";
+import os from "os";
+import path from "path";
+
+import { type Scenario, loadScenario, runScenario } from "../tasks/scenario";
+
+describe("scenario:run", function () {
+  let deployer: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let dir: string;
+  let printed: string[];
+  let consoleLog: typeof console.log;
+
+  function writeScenario(name: string, scenario: unknown): string {
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, JSON.stringify(scenario));
+    return file;
+  }
+
+  before(async function () {
+    [deployer, alice] = await ethers.getSigners();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "scenario-"));
+  });
+
+  beforeEach(function () {
+    printed = [];
+    consoleLog = console.log;
+    console.log = (...args: unknown[]) => printed.push(args.join(" "));
+  });
+
+  afterEach(function () {
+    console.log = consoleLog;
+  });
+
+  after(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should run the bundled withdrawal scenario and report every step's transactions and gas", async function () {
+    const report = await run("scenario:run", { file: "scenarios/withdrawal.json" });
+
+    expect(report.passed).to.equal(true);
+    expect(printed).to.include("  PASS  8. completing before the delay is rejected");
+    expect(report.steps.map(({ status }: { status: string }) => status)).to.deep.equal(
+      Array(report.steps.length).fill("passed"),
+    );
+    const [deploy, , deposit] = report.steps;
+    expect(deploy.transactions.length).to.equal(2);
+    // Approving and depositing
+    expect(deposit.transactions.length).to.equal(2);
+    expect(deposit.gasUsed > 0n).to.equal(true);
+    expect(report.gasUsed).to.equal(
+      report.steps.reduce((sum: bigint, step: { gasUsed: bigint }) => sum + step.gasUsed, 0n),
+    );
+  });
+
+  it("should record failed assertions, skip the steps after a failed action and fail the task", async function () {
+    const scenario: Scenario = {
+      name: "Failing",
+      accounts: { alice: alice.address },
+      steps: [
+        { action: "deploy" },
+        { action: "mint", to: "deployer", amount: "100" },
+        { action: "deposit", amount: "50" },
+        { action: "distribute", to: "alice", amount: "10" },
+        { action: "assertBalance", account: "alice", equals: "9" },
+        { action: "requestWithdrawal", from: "alice", amount: "5", id: "w" },
+        { action: "completeWithdrawal", from: "alice", withdrawal: "w" },
+        { action: "assertTokenBalance", account: "alice", equals: "5" },
+      ],
+    };
+    const report = await runScenario(hre, scenario);
+
+    expect(report.passed).to.equal(false);
+    expect(report.steps.map(({ status }) => status)).to.deep.equal([
+      "passed",
+      "passed",
+      "passed",
+      "passed",
+      "failed",
+      "passed",
+      "failed",
+      "skipped",
+    ]);
+    expect(report.steps[4].error).to.equal("Expected 9.0 SCN, got 10.0 SCN");
+    expect(report.steps[6].error).to.match(/is locked until/);
+
+    const file = writeScenario("failing.json", scenario);
+    await expect(run("scenario:run", { file })).to.be.rejectedWith('Scenario "Failing" failed');
+  });
+
+  it("should run against an existing distributor when the scenario does not deploy one", async function () {
+    const token = (await (await ethers.getContractFactory("MockERC20")).deploy("Existing", "EXT")) as MockERC20;
+    const distributor = (await (
+      await ethers.getContractFactory("PrivateTokenDistributor")
+    ).deploy(await token.getAddress())) as PrivateTokenDistributor;
+    const file = writeScenario("existing.json", {
+      name: "Existing",
+      steps: [
+        { action: "mint", to: deployer.address, amount: "10" },
+        { action: "deposit", amount: "10" },
+        { action: "distribute", to: "1", amount: "20", description: "over-allocating is clamped to zero" },
+        { action: "assertBalance", account: "1", equals: "0" },
+        { action: "deposit", from: "1", amount: "1", expectError: "Caller is missing role" },
+      ],
+    });
+
+    const report = await run("scenario:run", { file, contract: await distributor.getAddress() });
+    expect(report.passed).to.equal(true);
+    expect(report.token).to.equal(await token.getAddress());
+    expect(await distributor.totalDeposited(await token.getAddress())).to.equal(ethers.parseEther("10"));
+  });
+
+  it("should report every problem in an invalid scenario file", function () {
+    const file = writeScenario("invalid.json", {
+      steps: [
+        { action: "mint", amount: "1" },
+        { action: "teleport" },
+        { action: "advanceTime", seconds: -1 },
+        { action: "deploy" },
+      ],
+    });
+    expect(() => loadScenario(file)).to.throw(
+      [
+        `Invalid scenario ${file}:`,
+        `"name" must be a string`,
+        `step 1 (mint): missing "to"`,
+        `step 2: unknown action "teleport", expected one of: deploy,mint,deposit,distribute,advanceTime,` +
+          `requestWithdrawal,completeWithdrawal,assertBalance,assertTokenBalance`,
+        `step 3 (advanceTime): "seconds" must be a positive integer`,
+        `step 4: deploy must be the first step`,
+      ].join("\n  "),
+    );
+  });
+});